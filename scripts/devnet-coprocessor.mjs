@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+// Mock FHE coprocessor and decryption relayer for the local devnet.
+// Replays the MockFHEVMExecutor's operation log to learn every handle's cleartext, and answers
+// MockDecryptionOracle requests with KMS-signed results. Nothing here is confidential.
+// Usage: DEVNET_EXECUTOR_ADDRESS=0x... DEVNET_ORACLE_ADDRESS=0x... npm run devnet:coprocessor
+import {
+  AbiCoder,
+  Interface,
+  JsonRpcProvider,
+  Wallet,
+  concat,
+  getBytes,
+  hexlify,
+  keccak256,
+  solidityPacked,
+  toBigInt,
+  toUtf8Bytes
+} from 'ethers';
+
+const env = process.env;
+const RPC_URL = env.DEVNET_RPC_URL || 'http://127.0.0.1:8545';
+const EXECUTOR_ADDRESS = env.DEVNET_EXECUTOR_ADDRESS;
+const ORACLE_ADDRESS = env.DEVNET_ORACLE_ADDRESS;
+// Anvil's default accounts #0 and #1
+const RELAYER_KEY = env.DEVNET_RELAYER_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const KMS_SIGNER_KEY = env.DEVNET_KMS_SIGNER_KEY || '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+// Must match MockEncryptionBackend's secret in src/lib/encryption.ts
+const MOCK_SECRET = env.DEVNET_MOCK_SECRET || 'fhevoting-mock-key';
+const POLL_MS = 1000;
+
+if (!EXECUTOR_ADDRESS || !ORACLE_ADDRESS) {
+  console.error('Set DEVNET_EXECUTOR_ADDRESS and DEVNET_ORACLE_ADDRESS to the deployed mock contracts');
+  process.exit(1);
+}
+
+const events = new Interface([
+  'event FheOperation(bytes32 indexed result, uint8 indexed op, bytes32[3] operands, bool scalar, uint8 resultType)',
+  'event InputVerified(bytes32 indexed handle, address indexed contractAddress, address indexed user, bytes inputProof, uint8 inputType)',
+  'event DecryptionRequest(uint256 indexed requestID, address indexed contractAddress, bytes32[] handles, bytes4 callbackSelector)'
+]);
+const abi = AbiCoder.defaultAbiCoder();
+
+// MockFHEVMExecutor.Op, in declaration order
+const OPS = [
+  'Add', 'Sub', 'Mul', 'Div', 'Rem', 'BitAnd', 'BitOr', 'BitXor', 'Shl', 'Shr', 'Rotl', 'Rotr',
+  'Eq', 'Ne', 'Ge', 'Gt', 'Le', 'Lt', 'Min', 'Max', 'Neg', 'Not', 'IfThenElse', 'Cast', 'TrivialEncrypt'
+];
+// FheType -> bit width (ebool, euint4, euint8, ..., euint256)
+const BITS = [1, 4, 8, 16, 32, 64, 128, 160, 256];
+
+// The mock encryption scheme, ported from MockEncryptionBackend
+const secret = getBytes(keccak256(toUtf8Bytes(MOCK_SECRET)));
+const mockMask = (prefix) => getBytes(keccak256(concat([secret, prefix]))).slice(0, 4);
+const mockTag = (contractAddress, userAddress, nonce) => getBytes(keccak256(solidityPacked(
+  ['bytes32', 'address', 'address', 'uint64'],
+  [secret, contractAddress, userAddress, nonce]
+))).slice(0, 20);
+
+const decryptInput = (handle, contractAddress, userAddress) => {
+  const bytes = getBytes(handle);
+  const nonce = toBigInt(bytes.slice(20, 28));
+  if (hexlify(bytes.slice(0, 20)) !== hexlify(mockTag(contractAddress, userAddress, nonce))) {
+    return null;
+  }
+  const mask = mockMask(bytes.slice(0, 28));
+  return toBigInt(bytes.slice(28).map((byte, i) => byte ^ mask[i]));
+};
+
+const values = new Map();
+const types = new Map();
+
+const bitsOf = (type) => BITS[type] ?? 256;
+const maskOf = (type) => (1n << BigInt(bitsOf(type))) - 1n;
+
+const valueOf = (handle) => {
+  const value = values.get(handle);
+  if (value === undefined) {
+    console.warn(`Unknown handle ${handle}, treating it as 0`);
+    return 0n;
+  }
+  return value;
+};
+
+const evaluate = (op, [first, second, third], scalar, resultType) => {
+  if (op === 'TrivialEncrypt') return toBigInt(first) & maskOf(resultType);
+  if (op === 'Cast') return valueOf(first) & maskOf(resultType);
+  if (op === 'IfThenElse') return valueOf(first) !== 0n ? valueOf(second) : valueOf(third);
+
+  const type = types.get(first) ?? resultType;
+  const mask = maskOf(type);
+  const bits = BigInt(bitsOf(type));
+  const a = valueOf(first);
+  if (op === 'Neg') return -a & mask;
+  if (op === 'Not') return ~a & mask;
+
+  const b = scalar ? toBigInt(second) & mask : valueOf(second);
+  switch (op) {
+    case 'Add': return (a + b) & mask;
+    case 'Sub': return (a - b) & mask;
+    case 'Mul': return (a * b) & mask;
+    // Division by zero gives all ones, like TFHE
+    case 'Div': return b === 0n ? mask : a / b;
+    case 'Rem': return b === 0n ? a : a % b;
+    case 'BitAnd': return a & b;
+    case 'BitOr': return a | b;
+    case 'BitXor': return a ^ b;
+    case 'Shl': return (a << (b % bits)) & mask;
+    case 'Shr': return a >> (b % bits);
+    case 'Rotl': return ((a << (b % bits)) | (a >> ((bits - b % bits) % bits))) & mask;
+    case 'Rotr': return ((a >> (b % bits)) | (a << ((bits - b % bits) % bits))) & mask;
+    case 'Eq': return a === b ? 1n : 0n;
+    case 'Ne': return a !== b ? 1n : 0n;
+    case 'Ge': return a >= b ? 1n : 0n;
+    case 'Gt': return a > b ? 1n : 0n;
+    case 'Le': return a <= b ? 1n : 0n;
+    case 'Lt': return a < b ? 1n : 0n;
+    case 'Min': return a < b ? a : b;
+    case 'Max': return a > b ? a : b;
+    default: throw new Error(`Unsupported operation ${op}`);
+  }
+};
+
+const provider = new JsonRpcProvider(RPC_URL);
+const relayer = new Wallet(RELAYER_KEY, provider);
+const kms = new Wallet(KMS_SIGNER_KEY);
+
+const answerDecryption = async ({ requestID, contractAddress, handles, callbackSelector }) => {
+  const cleartexts = abi.encode(handles.map(() => 'uint256'), handles.map(valueOf));
+  // What MockKMSVerifier checks: an EIP-191 signature over keccak256(abi.encode(handles, cleartexts))
+  const signature = await kms.signMessage(getBytes(keccak256(abi.encode(['bytes32[]', 'bytes'], [handles, cleartexts]))));
+  const data = concat([callbackSelector, abi.encode(['uint256', 'bytes', 'bytes'], [requestID, cleartexts, signature])]);
+  try {
+    const tx = await relayer.sendTransaction({ to: contractAddress, data });
+    await tx.wait();
+    console.log(`Decryption ${requestID} answered for ${contractAddress} (${handles.length} values)`);
+  } catch (error) {
+    console.error(`Decryption ${requestID} callback failed:`, error.shortMessage ?? error.message);
+  }
+};
+
+const handleLog = async (log) => {
+  const parsed = events.parseLog(log);
+  if (!parsed) return;
+
+  if (parsed.name === 'InputVerified') {
+    const { handle, contractAddress, user, inputType } = parsed.args;
+    const value = decryptInput(handle, contractAddress, user);
+    if (value === null) {
+      // A real input verifier would revert; here the input just counts as zero
+      console.warn(`Input ${handle} is not bound to ${contractAddress} and ${user}, treating it as 0`);
+    }
+    values.set(handle, (value ?? 0n) & maskOf(Number(inputType)));
+    types.set(handle, Number(inputType));
+  } else if (parsed.name === 'FheOperation') {
+    const { result, op, operands, scalar, resultType } = parsed.args;
+    values.set(result, evaluate(OPS[Number(op)], [...operands], scalar, Number(resultType)));
+    types.set(result, Number(resultType));
+  } else if (parsed.name === 'DecryptionRequest') {
+    await answerDecryption(parsed.args);
+  }
+};
+
+// Every handle's value lives only in memory, so always replay from genesis
+let nextBlock = 0;
+
+const poll = async () => {
+  const latest = await provider.getBlockNumber();
+  if (latest < nextBlock) return;
+  const logs = await provider.getLogs({
+    address: [EXECUTOR_ADDRESS, ORACLE_ADDRESS],
+    fromBlock: nextBlock,
+    toBlock: latest
+  });
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  for (const log of logs) {
+    await handleLog(log);
+  }
+  nextBlock = latest + 1;
+};
+
+console.log(`Mock coprocessor on ${RPC_URL}`);
+console.log(`  executor ${EXECUTOR_ADDRESS}, oracle ${ORACLE_ADDRESS}`);
+console.log(`  relayer ${relayer.address}, KMS signer ${kms.address}`);
+
+for (;;) {
+  try {
+    await poll();
+  } catch (error) {
+    console.error('Poll failed:', error.shortMessage ?? error.message);
+  }
+  await new Promise(resolve => setTimeout(resolve, POLL_MS));
+}
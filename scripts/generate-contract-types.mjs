@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+// Generates typed bindings for the voting contract from its ABI JSON.
+// Usage: npm run generate:contract-types
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const ABI_PATH = resolve(root, 'src/contracts/FHEVoting.abi.json');
+const OUT_PATH = resolve(root, 'src/contracts/FHEVoting.types.ts');
+
+const abi = JSON.parse(readFileSync(ABI_PATH, 'utf8'));
+const structs = new Map();
+
+const structName = (param) => {
+  const match = /^struct\s+(?:\w+\.)?(\w+)/.exec(param.internalType ?? '');
+  if (!match) {
+    throw new Error(`Tuple "${param.name}" needs an internalType like "struct Contract.Name"`);
+  }
+  return `${match[1]}Struct`;
+};
+
+// Solidity type -> TypeScript type. Inputs accept what ethers accepts; outputs are what it returns.
+const tsType = (param, direction) => {
+  const array = /^(.*)\[\d*\]$/.exec(param.type);
+  if (array) {
+    return `${tsType({ ...param, type: array[1], internalType: param.internalType?.replace(/\[\d*\]$/, '') }, direction)}[]`;
+  }
+  if (param.type === 'tuple') {
+    const name = structName(param);
+    if (!structs.has(name)) {
+      structs.set(name, param.components);
+    }
+    return name;
+  }
+  if (/^u?int\d*$/.test(param.type)) return direction === 'input' ? 'BigNumberish' : 'bigint';
+  if (/^bytes\d*$/.test(param.type)) return direction === 'input' ? 'BytesLike' : 'string';
+  if (param.type === 'address' || param.type === 'string') return 'string';
+  if (param.type === 'bool') return 'boolean';
+  throw new Error(`Unsupported ABI type ${param.type}`);
+};
+
+const argName = (param, index) => param.name || `arg${index}`;
+
+const functions = abi.filter(item => item.type === 'function').map(fn => {
+  const args = fn.inputs.map((input, i) => `${argName(input, i)}: ${tsType(input, 'input')}`);
+  const isView = fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+  let returns;
+  if (!isView) {
+    args.push('overrides?: Overrides');
+    returns = 'ContractTransactionResponse';
+  } else if (fn.outputs.length === 0) {
+    returns = 'void';
+  } else if (fn.outputs.length === 1) {
+    returns = tsType(fn.outputs[0], 'output');
+  } else {
+    throw new Error(`${fn.name}: multiple return values are not supported`);
+  }
+  return `  ${fn.name}(${args.join(', ')}): Promise<${returns}>;`;
+});
+
+const events = abi.filter(item => item.type === 'event').map(event => {
+  const fields = event.inputs.map((input, i) => `    ${argName(input, i)}: ${tsType(input, 'output')};`);
+  return `  ${event.name}: {\n${fields.join('\n')}\n  };`;
+});
+
+const structDeclarations = [...structs].map(([name, components]) => {
+  const fields = components.map((component, i) => `  ${argName(component, i)}: ${tsType(component, 'output')};`);
+  return `export interface ${name} {\n${fields.join('\n')}\n}`;
+});
+
+const output = `// Generated by scripts/generate-contract-types.mjs from FHEVoting.abi.json. Do not edit.
+import type { BigNumberish, BytesLike, ContractTransactionResponse, Overrides } from 'ethers';
+
+export const FHE_VOTING_ABI = ${JSON.stringify(abi, null, 2)} as const;
+
+${structDeclarations.join('\n\n')}
+
+export interface FHEVotingFunctions {
+${functions.join('\n')}
+}
+
+export interface FHEVotingEvents {
+${events.join('\n')}
+}
+
+export type FHEVotingEventName = keyof FHEVotingEvents;
+`;
+
+writeFileSync(OUT_PATH, output);
+console.log(`Wrote ${OUT_PATH}`);
@@ -14,42 +14,85 @@ import {
   ArrowRight,
   CheckCircle,
   Network,
-  Wallet
+  Wallet,
+  Eye
 } from 'lucide-react';
 import { votingContract } from '@/lib/contract';
-import { ContractState } from '@/types/voting';
+import { applyProposalUpdate } from '@/lib/liveUpdates';
+import { WalletOption, walletDiscovery } from '@/lib/wallets';
+import { DEFAULT_CHAIN } from '@/lib/chains';
+import { ContractState, LiveStatus, WalletChange } from '@/types/voting';
 import { toast } from '@/hooks/use-toast';
 import './App.css';
 
 function App() {
   const [contractState, setContractState] = useState<ContractState>({
     connected: false,
+    readOnly: false,
     loading: false,
     userProfile: null,
     proposals: [],
     error: null,
   });
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('offline');
+  const [walletPickerOpen, setWalletPickerOpen] = useState(false);
+  // Chain the wallet moved to when it is not in the registry
+  const [unsupportedChainId, setUnsupportedChainId] = useState<number | null>(null);
+  // Bumped when the wallet changes account or network, to reset per-account UI state
+  const [session, setSession] = useState(0);
 
   useEffect(() => {
-    // Auto-connect if wallet was previously connected
+    walletDiscovery.start();
+    // Auto-connect if wallet was previously connected and is still installed
     const savedConnection = localStorage.getItem('wallet-connected');
-    if (savedConnection === 'true') {
-      handleConnect();
+    const wallet = walletDiscovery.getPreferred();
+    if (savedConnection === 'true' && wallet) {
+      handleConnect(wallet);
     }
   }, []);
 
-  const handleConnect = async () => {
+  useEffect(() => votingContract.subscribeWalletChanges(change => {
+    void handleWalletChange(change);
+  }), []);
+
+  // Patch proposals from contract events while connected or browsing
+  useEffect(() => {
+    if (!contractState.connected && !contractState.readOnly) return;
+
+    const unsubscribe = votingContract.subscribeProposalUpdates(update => {
+      setContractState(prev => {
+        const account = prev.userProfile?.address ?? null;
+        const ownVote = update.type === 'voted' && !!account &&
+          update.voter.toLowerCase() === account.toLowerCase();
+        return {
+          ...prev,
+          proposals: applyProposalUpdate(prev.proposals, update, account),
+          userProfile: prev.userProfile && ownVote && !prev.userProfile.votedProposals.includes(update.proposalId)
+            ? { ...prev.userProfile, votedProposals: [...prev.userProfile.votedProposals, update.proposalId] }
+            : prev.userProfile,
+        };
+      });
+    }, setLiveStatus);
+    return () => {
+      unsubscribe();
+      setLiveStatus('offline');
+    };
+  }, [contractState.connected, contractState.readOnly, session]);
+
+  const handleConnect = async (wallet: WalletOption) => {
     setContractState(prev => ({ ...prev, loading: true, error: null }));
 
     try {
-      const connected = await votingContract.connect();
+      const connected = await votingContract.connect(wallet.provider);
       
       if (connected) {
         const userProfile = await votingContract.getUserProfile();
         const proposals = await votingContract.getActiveProposals();
 
+        // Upgrades a read-only session in place: proposals are refetched with the voter's flags
         setContractState({
           connected: true,
+          readOnly: false,
           loading: false,
           userProfile,
           proposals,
@@ -57,6 +100,7 @@ function App() {
         });
 
         localStorage.setItem('wallet-connected', 'true');
+        walletDiscovery.remember(wallet.info.rdns);
         toast({
           title: "Wallet Connected",
           description: "Successfully connected to the FHE voting system.",
@@ -79,9 +123,97 @@ function App() {
     }
   };
 
+  // VotingContract has already rebuilt itself for the new account or network
+  const handleWalletChange = async (change: WalletChange) => {
+    const readOnly = votingContract.isReadOnly();
+    try {
+      const userProfile = readOnly ? null : await votingContract.getUserProfile();
+      const proposals = await votingContract.getActiveProposals();
+      setContractState({
+        connected: !readOnly,
+        readOnly,
+        loading: false,
+        userProfile,
+        proposals,
+        error: null,
+      });
+    } catch (error) {
+      setContractState(prev => ({ ...prev, error: 'Could not reload proposals after the wallet changed' }));
+    }
+    setUnsupportedChainId(change.type === 'unsupported-chain' ? change.chainId : null);
+    // Remount the dashboard so selected options and open dialogs start fresh
+    setSession(current => current + 1);
+
+    switch (change.type) {
+      case 'account':
+        toast({
+          title: "Account Changed",
+          description: `Now using ${change.address.slice(0, 6)}...${change.address.slice(-4)}. Your profile and votes were reloaded.`,
+        });
+        break;
+      case 'chain':
+        toast({
+          title: "Network Changed",
+          description: `Connected to ${change.name}.`,
+        });
+        break;
+      case 'unsupported-chain':
+        toast({
+          title: "Unsupported Network",
+          description: `Chain ${change.chainId} is not supported. Showing ${DEFAULT_CHAIN.name} read-only until you switch back.`,
+          variant: "destructive",
+        });
+        break;
+      case 'disconnected':
+        toast({
+          title: "Wallet Disconnected",
+          description: "The wallet no longer shares an account with this site. Browsing read-only.",
+        });
+        break;
+    }
+  };
+
+  const handleSwitchChain = async () => {
+    try {
+      await votingContract.switchToDefaultChain();
+    } catch (error: any) {
+      toast({
+        title: "Network Switch Failed",
+        description: error.message || `Could not switch to ${DEFAULT_CHAIN.name}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleBrowse = async () => {
+    setContractState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      await votingContract.connectReadOnly();
+      const proposals = await votingContract.getActiveProposals();
+      setContractState({
+        connected: false,
+        readOnly: true,
+        loading: false,
+        userProfile: null,
+        proposals,
+        error: null,
+      });
+    } catch (error: any) {
+      setContractState(prev => ({
+        ...prev,
+        loading: false,
+        error: error.message || 'Failed to load proposals',
+      }));
+    }
+  };
+
   const handleDisconnect = () => {
+    votingContract.disconnect();
+    setUnsupportedChainId(null);
     setContractState({
       connected: false,
+      readOnly: false,
       loading: false,
       userProfile: null,
       proposals: [],
@@ -96,11 +228,16 @@ function App() {
   };
 
   const handleRefresh = async () => {
-    if (!contractState.connected) return;
+    if (!contractState.connected && !contractState.readOnly) return;
 
     try {
-      const proposals = await votingContract.getActiveProposals();
-      setContractState(prev => ({ ...prev, proposals }));
+      // Votes and role changes (accepted ownership, removed admin, revoked voter) also change the profile
+      const [userProfile, proposals] = await Promise.all([
+        contractState.readOnly ? null : votingContract.getUserProfile(),
+        votingContract.getActiveProposals(),
+      ]);
+      // A failed profile read returns null; keep the last known one rather than dropping the account
+      setContractState(prev => ({ ...prev, userProfile: userProfile ?? prev.userProfile, proposals }));
     } catch (error) {
       toast({
         title: "Refresh Failed",
@@ -134,11 +271,15 @@ function App() {
             </p>
 
             <div className="flex items-center justify-center space-x-4 pt-4">
-              <Button size="lg" onClick={handleConnect} disabled={contractState.loading}>
+              <Button size="lg" onClick={() => setWalletPickerOpen(true)} disabled={contractState.loading}>
                 <Wallet className="h-5 w-5 mr-2" />
                 {contractState.loading ? 'Connecting...' : 'Connect Wallet to Start'}
                 <ArrowRight className="h-5 w-5 ml-2" />
               </Button>
+              <Button size="lg" variant="outline" onClick={handleBrowse} disabled={contractState.loading}>
+                <Eye className="h-5 w-5 mr-2" />
+                Browse Without a Wallet
+              </Button>
             </div>
           </div>
 
@@ -281,15 +422,33 @@ function App() {
         <Header
           userProfile={contractState.userProfile}
           onConnect={handleConnect}
+          walletPickerOpen={walletPickerOpen}
+          onWalletPickerOpenChange={setWalletPickerOpen}
           onDisconnect={handleDisconnect}
           connected={contractState.connected}
         />
 
         <main className="container mx-auto px-4 py-8">
-          {contractState.connected && contractState.userProfile ? (
+          {unsupportedChainId !== null && (
+            <Card className="mb-6 border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950">
+              <CardContent className="pt-6 flex items-center justify-between">
+                <p className="text-red-600 dark:text-red-400">
+                  Your wallet is on chain {unsupportedChainId}, which is not supported. Switch to {DEFAULT_CHAIN.name} to vote.
+                </p>
+                <Button size="sm" onClick={handleSwitchChain}>
+                  <Network className="h-4 w-4 mr-2" />
+                  Switch to {DEFAULT_CHAIN.name}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {(contractState.connected && contractState.userProfile) || contractState.readOnly ? (
             <VotingDashboard
+              key={session}
               userProfile={contractState.userProfile}
               proposals={contractState.proposals}
+              liveStatus={liveStatus}
               onRefresh={handleRefresh}
             />
           ) : (
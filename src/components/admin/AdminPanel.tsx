@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,20 +13,70 @@ import {
   Check, 
   AlertCircle,
   ExternalLink,
-  Copy
+  Copy,
+  UserMinus,
+  UserCog,
+  KeyRound
 } from 'lucide-react';
 import { votingContract } from '@/lib/contract';
+import { isContractError } from '@/lib/errors';
 import { toast } from '@/hooks/use-toast';
+import { Ownership } from '@/types/voting';
+import { RoleChange, RoleChangeDialog, RoleChangeKind } from './RoleChangeDialog';
 
 interface AdminPanelProps {
+  // Only the owner can grant and revoke admins or transfer ownership
+  isOwner: boolean;
   onRefresh: () => void;
 }
 
-export function AdminPanel({ onRefresh }: AdminPanelProps) {
+// One address per line, duplicates dropped; lines that are not addresses come back in `invalid`
+const parseAddresses = (text: string): { addresses: string[]; invalid: string[] } => {
+  const lines = [...new Set(text.split('\n').map(addr => addr.trim()).filter(addr => addr.length > 0))];
+  return {
+    addresses: lines.filter(addr => /^0x[a-fA-F0-9]{40}$/.test(addr)),
+    invalid: lines.filter(addr => !/^0x[a-fA-F0-9]{40}$/.test(addr)),
+  };
+};
+
+export function AdminPanel({ isOwner, onRefresh }: AdminPanelProps) {
   const [voterAddress, setVoterAddress] = useState('');
   const [voterAddresses, setVoterAddresses] = useState('');
   const [isAuthorizing, setIsAuthorizing] = useState(false);
   const [isBulkAuthorizing, setIsBulkAuthorizing] = useState(false);
+  const [revokeAddresses, setRevokeAddresses] = useState('');
+  const [adminAddress, setAdminAddress] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [ownership, setOwnership] = useState<Ownership | null>(null);
+  const [roleChange, setRoleChange] = useState<RoleChange | null>(null);
+
+  const loadOwnership = () => {
+    votingContract.getOwnership().then(setOwnership, () => setOwnership(null));
+  };
+
+  useEffect(loadOwnership, []);
+
+  // Validate, then let RoleChangeDialog show the current roles before anything is sent
+  const requestRoleChange = (kind: RoleChangeKind, text: string) => {
+    const { addresses, invalid } = parseAddresses(text);
+    if (invalid.length > 0 || addresses.length === 0) {
+      toast({
+        title: "Invalid Addresses",
+        description: invalid.length > 0 ? `Not an address: ${invalid.join(', ')}` : 'Enter at least one address',
+        variant: "destructive",
+      });
+      return;
+    }
+    setRoleChange({ kind, addresses });
+  };
+
+  const handleRoleChanged = () => {
+    if (roleChange?.kind === 'deauthorize-voters') setRevokeAddresses('');
+    if (roleChange?.kind === 'add-admin' || roleChange?.kind === 'remove-admin') setAdminAddress('');
+    if (roleChange?.kind === 'transfer-ownership') setNewOwner('');
+    loadOwnership();
+    onRefresh();
+  };
 
   const handleAuthorizeSingleVoter = async () => {
     if (!voterAddress.trim()) {
@@ -52,7 +102,7 @@ export function AdminPanel({ onRefresh }: AdminPanelProps) {
       }
     } catch (error: any) {
       toast({
-        title: "Authorization Failed",
+        title: isContractError(error) && error.preflight ? "Authorization Not Submitted" : "Authorization Failed",
         description: error.message || "Gagal mengotorisasi voter",
         variant: "destructive",
       });
@@ -101,7 +151,7 @@ export function AdminPanel({ onRefresh }: AdminPanelProps) {
       }
     } catch (error: any) {
       toast({
-        title: "Bulk Authorization Failed",
+        title: isContractError(error) && error.preflight ? "Bulk Authorization Not Submitted" : "Bulk Authorization Failed",
         description: error.message || "Gagal mengotorisasi voters",
         variant: "destructive",
       });
@@ -121,8 +171,9 @@ export function AdminPanel({ onRefresh }: AdminPanelProps) {
 
   const openInExplorer = () => {
     const network = votingContract.getCurrentNetwork();
+    if (!network.blockExplorer) return;
     const address = votingContract.getContractAddress();
-    const url = `${network?.blockExplorer}/address/${address}`;
+    const url = `${network.blockExplorer}/address/${address}`;
     window.open(url, '_blank');
   };
 
@@ -155,7 +206,7 @@ export function AdminPanel({ onRefresh }: AdminPanelProps) {
                 <Button size="sm" variant="outline" onClick={copyContractAddress}>
                   <Copy className="h-4 w-4" />
                 </Button>
-                <Button size="sm" variant="outline" onClick={openInExplorer}>
+                <Button size="sm" variant="outline" onClick={openInExplorer} disabled={!votingContract.getCurrentNetwork().blockExplorer}>
                   <ExternalLink className="h-4 w-4" />
                 </Button>
               </div>
@@ -164,7 +215,7 @@ export function AdminPanel({ onRefresh }: AdminPanelProps) {
               <Label className="text-sm font-medium">Network</Label>
               <div className="mt-1">
                 <Badge variant="secondary">
-                  {votingContract.getCurrentNetwork()?.name || 'Sepolia Testnet'}
+                  {votingContract.getCurrentNetwork().name}
                 </Badge>
               </div>
             </div>
@@ -252,6 +303,144 @@ export function AdminPanel({ onRefresh }: AdminPanelProps) {
         </Card>
       </div>
 
+      {/* Role Management */}
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <UserMinus className="h-5 w-5" />
+              <span>Revoke Voters</span>
+            </CardTitle>
+            <CardDescription>
+              Stop one or more addresses from voting (one address per line). Votes already cast still count.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="revoke-addresses">Voter Addresses</Label>
+              <Textarea
+                id="revoke-addresses"
+                placeholder="0x...&#10;0x..."
+                rows={4}
+                value={revokeAddresses}
+                onChange={(e) => setRevokeAddresses(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={() => requestRoleChange('deauthorize-voters', revokeAddresses)}
+              disabled={!revokeAddresses.trim()}
+              variant="destructive"
+              className="w-full"
+            >
+              <UserMinus className="h-4 w-4 mr-2" />
+              Review Revocation
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <UserCog className="h-5 w-5" />
+              <span>Admins</span>
+            </CardTitle>
+            <CardDescription>
+              {isOwner
+                ? 'Grant or revoke admin rights. The owner is always admin.'
+                : 'Only the contract owner can grant or revoke admin rights.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="admin-address">Address</Label>
+              <Input
+                id="admin-address"
+                placeholder="0x..."
+                value={adminAddress}
+                disabled={!isOwner}
+                onChange={(e) => setAdminAddress(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                onClick={() => requestRoleChange('add-admin', adminAddress)}
+                disabled={!isOwner || !adminAddress.trim()}
+              >
+                Grant Admin
+              </Button>
+              <Button
+                onClick={() => requestRoleChange('remove-admin', adminAddress)}
+                disabled={!isOwner || !adminAddress.trim()}
+                variant="outline"
+              >
+                Revoke Admin
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5" />
+            <span>Ownership</span>
+          </CardTitle>
+          <CardDescription>
+            Ownership moves in two steps: the owner offers it, then the new address accepts it from its own wallet.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label className="text-sm font-medium">Owner</Label>
+              <code className="block mt-1 p-2 bg-muted rounded text-sm font-mono truncate">
+                {ownership?.owner ?? '-'}
+              </code>
+            </div>
+            <div>
+              <Label className="text-sm font-medium">Pending Owner</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <code className="flex-1 p-2 bg-muted rounded text-sm font-mono truncate">
+                  {ownership?.pendingOwner ?? 'None'}
+                </code>
+                {isOwner && ownership?.pendingOwner && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRoleChange({ kind: 'cancel-transfer', addresses: [ownership.pendingOwner!] })}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+          {isOwner && (
+            <div className="flex items-end space-x-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="new-owner">New Owner</Label>
+                <Input
+                  id="new-owner"
+                  placeholder="0x..."
+                  value={newOwner}
+                  onChange={(e) => setNewOwner(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={() => requestRoleChange('transfer-ownership', newOwner)}
+                disabled={!newOwner.trim()}
+                variant="destructive"
+              >
+                Offer Ownership
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <RoleChangeDialog change={roleChange} onClose={() => setRoleChange(null)} onSuccess={handleRoleChanged} />
+
       {/* Instructions */}
       <Card>
         <CardHeader>
@@ -267,7 +456,7 @@ export function AdminPanel({ onRefresh }: AdminPanelProps) {
               <div>
                 <p className="font-medium">Deploy Contract</p>
                 <p className="text-sm text-muted-foreground">
-                  Contract sudah di-deploy di Sepolia testnet
+                  Contract sudah di-deploy di {votingContract.getCurrentNetwork().name}
                 </p>
               </div>
             </div>
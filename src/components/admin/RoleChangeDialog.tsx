@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { AccountRoles } from '@/types/voting';
+import { votingContract } from '@/lib/contract';
+import { isContractError } from '@/lib/errors';
+import { toast } from '@/hooks/use-toast';
+
+export type RoleChangeKind =
+  | 'deauthorize-voters'
+  | 'add-admin'
+  | 'remove-admin'
+  | 'transfer-ownership'
+  | 'cancel-transfer'
+  | 'accept-ownership';
+
+// The addresses a change affects; for cancel-transfer that is the current pending owner
+export interface RoleChange {
+  kind: RoleChangeKind;
+  addresses: string[];
+}
+
+const CHANGES: Record<RoleChangeKind, {
+  title: string;
+  description: string;
+  confirm: string;
+  done: string;
+  destructive: boolean;
+  // Why this address would not be changed, if anything
+  skip: (roles: AccountRoles) => string | null;
+}> = {
+  'deauthorize-voters': {
+    title: 'Revoke Voters',
+    description: 'These addresses can no longer vote. Votes they already cast still count.',
+    confirm: 'Revoke',
+    done: 'Voters Revoked',
+    destructive: true,
+    skip: roles => (roles.isAuthorized ? null : 'Not a voter'),
+  },
+  'add-admin': {
+    title: 'Grant Admin',
+    description: 'Admins can create and manage proposals and authorize or revoke voters.',
+    confirm: 'Grant Admin',
+    done: 'Admin Added',
+    destructive: false,
+    skip: roles => (roles.isAdmin ? 'Already admin' : null),
+  },
+  'remove-admin': {
+    title: 'Revoke Admin',
+    description: 'The address keeps its voter status but can no longer manage proposals or voters.',
+    confirm: 'Revoke Admin',
+    done: 'Admin Removed',
+    destructive: true,
+    skip: roles => (roles.isOwner ? 'The owner is always admin' : roles.isAdmin ? null : 'Not an admin'),
+  },
+  'transfer-ownership': {
+    title: 'Transfer Ownership',
+    description: 'Ownership moves once this address accepts it. Until then you stay owner and can cancel the offer.',
+    confirm: 'Offer Ownership',
+    done: 'Ownership Offered',
+    destructive: true,
+    skip: roles => (roles.isOwner ? 'Already owner' : null),
+  },
+  'cancel-transfer': {
+    title: 'Cancel Ownership Transfer',
+    description: 'This address will no longer be able to accept ownership.',
+    confirm: 'Cancel Transfer',
+    done: 'Transfer Cancelled',
+    destructive: false,
+    skip: roles => (roles.isPendingOwner ? null : 'No longer pending'),
+  },
+  'accept-ownership': {
+    title: 'Accept Ownership',
+    description: 'You become owner of the voting contract and can grant and revoke admins. The previous owner stays admin until you remove it.',
+    confirm: 'Accept Ownership',
+    done: 'Ownership Accepted',
+    destructive: false,
+    skip: roles => (roles.isPendingOwner ? null : 'Not offered ownership'),
+  },
+};
+
+const submit = ({ kind, addresses }: RoleChange): Promise<boolean> => {
+  switch (kind) {
+    case 'deauthorize-voters':
+      return addresses.length === 1
+        ? votingContract.deauthorizeVoter(addresses[0])
+        : votingContract.deauthorizeVoters(addresses);
+    case 'add-admin':
+      return votingContract.addAdmin(addresses[0]);
+    case 'remove-admin':
+      return votingContract.removeAdmin(addresses[0]);
+    case 'transfer-ownership':
+      return votingContract.transferOwnership(addresses[0]);
+    case 'cancel-transfer':
+      return votingContract.transferOwnership(ethers.ZeroAddress);
+    case 'accept-ownership':
+      return votingContract.acceptOwnership();
+  }
+};
+
+interface RoleChangeDialogProps {
+  change: RoleChange | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Confirms a role change after showing the current roles of every address it touches
+export function RoleChangeDialog({ change, onClose, onSuccess }: RoleChangeDialogProps) {
+  const [roles, setRoles] = useState<AccountRoles[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setRoles(null);
+    setLoadError(null);
+    if (!change) return;
+    let cancelled = false;
+    votingContract.getRoles(change.addresses).then(
+      result => !cancelled && setRoles(result),
+      error => !cancelled && setLoadError(error instanceof Error ? error.message : 'Could not read current roles.')
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [change]);
+
+  if (!change) return null;
+  const config = CHANGES[change.kind];
+  // Only addresses the change actually affects are sent
+  const affected = roles?.filter(r => !config.skip(r)).map(r => r.address) ?? [];
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    try {
+      if (!await submit({ ...change, addresses: affected })) throw new Error('Transaction failed');
+      toast({
+        title: config.done,
+        description: affected.length > 1
+          ? `${affected.length} addresses updated`
+          : `${affected[0].slice(0, 6)}...${affected[0].slice(-4)}`,
+      });
+      onClose();
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: isContractError(error) && error.preflight ? 'Change Not Submitted' : 'Change Failed',
+        description: error instanceof Error ? error.message : 'Could not update roles.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{config.title}</DialogTitle>
+          <DialogDescription>{config.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {loadError && (
+            <div className="flex items-center space-x-2 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <span>{loadError}</span>
+            </div>
+          )}
+          {!roles && !loadError && (
+            <p className="text-sm text-muted-foreground">Reading current roles...</p>
+          )}
+          {roles?.map(account => {
+            const skipped = config.skip(account);
+            return (
+              <div key={account.address} className="flex items-center justify-between gap-2 p-2 bg-muted rounded">
+                <code className={`text-xs font-mono truncate ${skipped ? 'text-muted-foreground line-through' : ''}`}>
+                  {account.address}
+                </code>
+                <div className="flex items-center gap-1 shrink-0">
+                  {account.isOwner && <Badge variant="default">Owner</Badge>}
+                  {account.isPendingOwner && <Badge variant="outline">Pending Owner</Badge>}
+                  {account.isAdmin && <Badge variant="secondary">Admin</Badge>}
+                  {account.isAuthorized && <Badge variant="outline">Voter</Badge>}
+                  {!account.isAdmin && !account.isAuthorized && !account.isPendingOwner && (
+                    <Badge variant="outline" className="text-muted-foreground">No role</Badge>
+                  )}
+                  {skipped && <span className="text-xs text-muted-foreground">{skipped}</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Back
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={affected.length === 0 || isSubmitting}
+            variant={config.destructive ? 'destructive' : 'default'}
+          >
+            {isSubmitting ? 'Submitting...' : config.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,8 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { ThemeToggle } from '@/components/theme/ThemeToggle';
+import { TransactionList } from './TransactionList';
+import { WalletPicker } from './WalletPicker';
 import { 
   Vote, 
   User, 
@@ -18,15 +20,25 @@ import {
 } from 'lucide-react';
 import { votingContract } from '@/lib/contract';
 import { UserProfile } from '@/types/voting';
+import { WalletOption } from '@/lib/wallets';
 
 interface HeaderProps {
   userProfile: UserProfile | null;
-  onConnect: () => void;
+  onConnect: (wallet: WalletOption) => void;
+  walletPickerOpen: boolean;
+  onWalletPickerOpenChange: (open: boolean) => void;
   onDisconnect: () => void;
   connected: boolean;
 }
 
-export function Header({ userProfile, onConnect, onDisconnect, connected }: HeaderProps) {
+export function Header({
+  userProfile,
+  onConnect,
+  walletPickerOpen,
+  onWalletPickerOpenChange,
+  onDisconnect,
+  connected
+}: HeaderProps) {
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
@@ -79,6 +91,8 @@ export function Header({ userProfile, onConnect, onDisconnect, connected }: Head
                   )}
                 </div>
 
+                <TransactionList />
+
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="outline" size="sm" className="flex items-center space-x-2">
@@ -105,11 +119,17 @@ export function Header({ userProfile, onConnect, onDisconnect, connected }: Head
                 </DropdownMenu>
               </div>
             ) : (
-              <Button onClick={onConnect} className="flex items-center space-x-2">
+              <Button onClick={() => onWalletPickerOpenChange(true)} className="flex items-center space-x-2">
                 <Wallet className="h-4 w-4" />
                 <span>Connect Wallet</span>
               </Button>
             )}
+
+            <WalletPicker
+              open={walletPickerOpen}
+              onOpenChange={onWalletPickerOpenChange}
+              onSelect={onConnect}
+            />
           </div>
         </div>
       </div>
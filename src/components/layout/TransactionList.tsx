@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Activity, ExternalLink, Loader2 } from 'lucide-react';
+import { votingContract } from '@/lib/contract';
+import { TrackedTransaction, TransactionStatus, describeIntent } from '@/lib/transactions';
+import { toast } from '@/hooks/use-toast';
+
+const STATUS_LABELS: Record<TransactionStatus, { text: string; className: string }> = {
+  pending: { text: 'Pending', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+  confirmed: { text: 'Confirmed', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' },
+  failed: { text: 'Failed', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  replaced: { text: 'Replaced', className: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200' },
+  cancelled: { text: 'Cancelled', className: 'bg-muted text-muted-foreground' },
+  dropped: { text: 'Dropped', className: 'bg-muted text-muted-foreground' },
+};
+
+function ExplorerLink({ hash }: { hash: string }) {
+  const url = votingContract.getBlockExplorerUrl(hash);
+  if (!url) return <span className="font-mono">{hash.slice(0, 10)}...</span>;
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center font-mono hover:underline">
+      {hash.slice(0, 10)}...
+      <ExternalLink className="h-3 w-3 ml-1" />
+    </a>
+  );
+}
+
+// Recent writes with their status, plus a toast for each one that settles with nobody waiting on it
+export function TransactionList() {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+
+  useEffect(() => votingContract.subscribeTransactions(setTransactions), []);
+
+  useEffect(() => {
+    const unsubscribe = votingContract.subscribeSettledTransactions((transaction, awaited) => {
+      // The component that sent it already reports its outcome
+      if (awaited) return;
+      const ok = transaction.status === 'confirmed';
+      toast({
+        title: `Transaction ${STATUS_LABELS[transaction.status].text}`,
+        description: (
+          <span>
+            {describeIntent(transaction.intent)} · <ExplorerLink hash={transaction.replacedBy ?? transaction.hash} />
+          </span>
+        ),
+        variant: ok ? undefined : 'destructive',
+      });
+    });
+    // Resume only once someone is listening, so outcomes from before the reload get a toast
+    void votingContract.resumeTransactions();
+    return unsubscribe;
+  }, []);
+
+  const pendingCount = transactions.filter(t => t.status === 'pending').length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center space-x-2">
+          {pendingCount > 0 ? <Loader2 className="h-4 w-4 animate-spin" /> : <Activity className="h-4 w-4" />}
+          <span className="hidden sm:block">
+            {pendingCount > 0 ? `${pendingCount} pending` : 'Transactions'}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="text-sm font-medium">Recent Transactions</span>
+          {transactions.length > pendingCount && (
+            <Button variant="ghost" size="sm" onClick={() => votingContract.clearSettledTransactions()}>
+              Clear
+            </Button>
+          )}
+        </div>
+        {transactions.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">
+            Transactions you send will appear here.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            <ul className="divide-y">
+              {transactions.map(transaction => (
+                <li key={transaction.hash} className="space-y-1 px-4 py-2 text-xs">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">{describeIntent(transaction.intent)}</span>
+                    <Badge variant="secondary" className={STATUS_LABELS[transaction.status].className}>
+                      {STATUS_LABELS[transaction.status].text}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-muted-foreground">
+                    <ExplorerLink hash={transaction.hash} />
+                    <span>{new Date(transaction.submittedAt).toLocaleString()}</span>
+                  </div>
+                  {transaction.replacedBy && (
+                    <div className="text-muted-foreground">
+                      {transaction.status === 'confirmed' || transaction.status === 'failed' ? 'Sped up as ' : 'Replaced by '}
+                      <ExplorerLink hash={transaction.replacedBy} />
+                    </div>
+                  )}
+                  {transaction.error && (
+                    <p className="text-red-600">{transaction.error}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Wallet } from 'lucide-react';
+import { WalletOption, walletDiscovery } from '@/lib/wallets';
+
+interface WalletPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (wallet: WalletOption) => void;
+}
+
+// Lists every wallet that announced itself over EIP-6963
+export function WalletPicker({ open, onOpenChange, onSelect }: WalletPickerProps) {
+  const [wallets, setWallets] = useState<WalletOption[]>([]);
+
+  useEffect(() => {
+    walletDiscovery.start();
+    return walletDiscovery.subscribe(setWallets);
+  }, []);
+
+  const handleSelect = (wallet: WalletOption) => {
+    onOpenChange(false);
+    onSelect(wallet);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Wallet className="h-5 w-5" />
+            <span>Connect a Wallet</span>
+          </DialogTitle>
+          <DialogDescription>
+            Choose the wallet to vote with. It will be used again next time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {wallets.length > 0 ? (
+          <div className="space-y-2">
+            {wallets.map(wallet => (
+              <Button
+                key={wallet.info.rdns}
+                variant="outline"
+                className="w-full justify-start h-12"
+                onClick={() => handleSelect(wallet)}
+              >
+                {wallet.info.icon ? (
+                  <img src={wallet.info.icon} alt="" className="h-6 w-6 mr-3" />
+                ) : (
+                  <Wallet className="h-6 w-6 mr-3" />
+                )}
+                {wallet.info.name}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No wallet found. Install a browser wallet such as MetaMask, or browse proposals without one.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,6 +18,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Plus, X, Calendar, Lightbulb, Vote, Sparkles, Target } from 'lucide-react';
 import { votingContract } from '@/lib/contract';
+import { isContractError } from '@/lib/errors';
 import { toast } from '@/hooks/use-toast';
 
 const proposalSchema = z.object({
@@ -137,8 +138,10 @@ export function CreateProposalDialog({ onSuccess }: CreateProposalDialogProps) {
       }
     } catch (error) {
       toast({
-        title: "Creation Failed",
-        description: "There was an error creating your proposal. Please try again.",
+        title: isContractError(error) && error.preflight ? "Proposal Not Submitted" : "Creation Failed",
+        description: isContractError(error)
+          ? error.message
+          : "There was an error creating your proposal. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, CalendarPlus, StopCircle } from 'lucide-react';
+import { CancelReason, CloseReason, ExtendReason, Proposal } from '@/types/voting';
+import { votingContract } from '@/lib/contract';
+import { isContractError } from '@/lib/errors';
+import { toast } from '@/hooks/use-toast';
+
+export type ProposalAction = 'cancel' | 'close' | 'extend';
+
+const CANCEL_REASON_LABELS: Record<CancelReason, string> = {
+  'created-in-error': 'Created in error',
+  duplicate: 'Duplicate of another proposal',
+  superseded: 'Superseded by a newer proposal',
+  other: 'Other',
+};
+
+const CLOSE_REASON_LABELS: Record<CloseReason, string> = {
+  decided: 'Outcome already decided',
+  emergency: 'Emergency',
+  compromised: 'Vote compromised',
+  other: 'Other',
+};
+
+const EXTEND_REASON_LABELS: Record<ExtendReason, string> = {
+  'low-turnout': 'Low turnout',
+  'community-request': 'Community request',
+  'technical-issue': 'Technical issue',
+  other: 'Other',
+};
+
+const ACTIONS = {
+  cancel: {
+    label: 'Cancel',
+    icon: Ban,
+    title: 'Cancel Proposal',
+    description: 'The proposal is withdrawn for good. This is only possible while nobody has voted on it.',
+    reasons: CANCEL_REASON_LABELS,
+    done: 'Proposal Cancelled',
+  },
+  close: {
+    label: 'Close Early',
+    icon: StopCircle,
+    title: 'Close Voting Early',
+    description: 'Voting ends now instead of at the deadline. Results can be revealed straight away.',
+    reasons: CLOSE_REASON_LABELS,
+    done: 'Voting Closed',
+  },
+  extend: {
+    label: 'Extend',
+    icon: CalendarPlus,
+    title: 'Extend Deadline',
+    description: 'Push the end of voting back. Votes already cast stay as they are.',
+    reasons: EXTEND_REASON_LABELS,
+    done: 'Deadline Extended',
+  },
+};
+
+interface ManageProposalDialogProps {
+  proposal: Proposal;
+  action: ProposalAction;
+  onSuccess: () => void;
+}
+
+// Admin change to a proposal, with the reason that is recorded on-chain
+export function ManageProposalDialog({ proposal, action, onSuccess }: ManageProposalDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<string>('');
+  const [extensionHours, setExtensionHours] = useState(24);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const config = ACTIONS[action];
+
+  const submit = () => {
+    switch (action) {
+      case 'cancel':
+        return votingContract.cancelProposal(proposal.id, reason as CancelReason);
+      case 'close':
+        return votingContract.closeProposalEarly(proposal.id, reason as CloseReason);
+      case 'extend':
+        return votingContract.extendDeadline(proposal.id, Math.round(extensionHours * 3600), reason as ExtendReason);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+    setIsSubmitting(true);
+    try {
+      if (!await submit()) throw new Error('Transaction failed');
+      toast({
+        title: config.done,
+        description: `Proposal #${proposal.id}: ${config.reasons[reason as keyof typeof config.reasons]}`,
+      });
+      setOpen(false);
+      setReason('');
+      onSuccess();
+    } catch (error) {
+      toast({
+        title: isContractError(error) && error.preflight ? 'Change Not Submitted' : 'Change Failed',
+        description: error instanceof Error ? error.message : 'Could not update the proposal.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <config.icon className="h-4 w-4 mr-1" />
+          {config.label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{config.title}</DialogTitle>
+          <DialogDescription>
+            #{proposal.id} {proposal.title}. {config.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(config.reasons).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {action === 'extend' && (
+            <div className="space-y-2">
+              <Label htmlFor={`extension-${proposal.id}`}>Extend by (hours)</Label>
+              <Input
+                id={`extension-${proposal.id}`}
+                type="number"
+                min="1"
+                value={extensionHours}
+                onChange={(e) => setExtensionHours(Number(e.target.value))}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleSubmit}
+            disabled={!reason || isSubmitting || (action === 'extend' && !(extensionHours > 0))}
+            variant={action === 'cancel' ? 'destructive' : 'default'}
+          >
+            {isSubmitting ? 'Submitting...' : config.title}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
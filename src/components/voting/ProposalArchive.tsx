@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Archive, Loader2, AlertTriangle } from 'lucide-react';
+import { ProposalCard } from './ProposalCard';
+import { Proposal } from '@/types/voting';
+import { votingContract } from '@/lib/contract';
+import { debugLog, describeError } from '@/lib/debug';
+
+interface ProposalArchiveProps {
+  userIsAdmin: boolean;
+  readOnly?: boolean;
+  onVoteSuccess: () => void;
+}
+
+// Every proposal ever created, newest first, loaded a page at a time as the list scrolls
+export function ProposalArchive({ userIsAdmin, readOnly = false, onVoteSuccess }: ProposalArchiveProps) {
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const loadingRef = useRef(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const loadMore = useCallback(async () => {
+    if (loadingRef.current || !hasMore) return;
+    loadingRef.current = true;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await votingContract.getProposalPage(cursor);
+      setProposals(current => [...current, ...page.proposals.filter(p => !current.some(c => c.id === p.id))]);
+      setCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
+      debugLog('Archive page loaded', { count: page.proposals.length, nextCursor: page.nextCursor });
+    } catch (err) {
+      debugLog('❌ Failed to load archive page:', err);
+      setError(describeError(err));
+    } finally {
+      loadingRef.current = false;
+      setLoading(false);
+    }
+  }, [cursor, hasMore]);
+
+  // Load the next page whenever the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || error) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) void loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, hasMore, error]);
+
+  const handleVoteSuccess = () => {
+    // Start over so the voted proposal shows its new state
+    setProposals([]);
+    setCursor(null);
+    setHasMore(true);
+    onVoteSuccess();
+  };
+
+  if (!hasMore && proposals.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Archive className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium">No Proposals Yet</h3>
+          <p className="text-muted-foreground text-center">
+            Every proposal ever created will be listed here, including closed ones.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-6">
+        {proposals.map((proposal) => (
+          <ProposalCard
+            key={proposal.id}
+            proposal={proposal}
+            userIsAdmin={userIsAdmin}
+            readOnly={readOnly}
+            onVoteSuccess={handleVoteSuccess}
+          />
+        ))}
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-center space-x-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4" />
+          <span>Could not load more proposals: {error}</span>
+          <Button variant="outline" size="sm" onClick={() => void loadMore()}>
+            Retry
+          </Button>
+        </div>
+      )}
+
+      <div ref={sentinelRef} className="flex justify-center py-4 text-sm text-muted-foreground">
+        {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+        {!hasMore && proposals.length > 0 && <span>That's every proposal</span>}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,35 +14,67 @@ import {
   Vote,
   Eye,
   AlertCircle,
-  Lock
+  Lock,
+  ShieldCheck,
+  Circle,
+  Loader2,
+  Ban,
+  StopCircle,
+  CalendarPlus
 } from 'lucide-react';
-import { Proposal } from '@/types/voting';
+import { Proposal, RevealStatus, VoteStage } from '@/types/voting';
 import { votingContract } from '@/lib/contract';
+import { isAbortError, isContractError, isPrivacyError } from '@/lib/errors';
 import { toast } from '@/hooks/use-toast';
+import { ManageProposalDialog } from './ManageProposalDialog';
+
+const VOTE_STEPS: { stage: VoteStage; label: string }[] = [
+  { stage: 'loading-keys', label: 'Loading FHE keys' },
+  { stage: 'encrypting', label: 'Encrypting ballot' },
+  { stage: 'generating-proof', label: 'Generating proof' },
+  { stage: 'submitting', label: 'Submitting transaction' },
+  { stage: 'confirming', label: 'Waiting for confirmation' },
+];
+
+// Stages during which the vote can still be cancelled
+const CANCELLABLE_STAGES: VoteStage[] = ['loading-keys', 'encrypting', 'generating-proof'];
 
 interface ProposalCardProps {
   proposal: Proposal;
   userIsAdmin: boolean;
+  // Browsing without a wallet: results only, no voting controls
+  readOnly?: boolean;
   onVoteSuccess: () => void;
 }
 
-export function ProposalCard({ proposal, userIsAdmin, onVoteSuccess }: ProposalCardProps) {
+export function ProposalCard({ proposal, userIsAdmin, readOnly = false, onVoteSuccess }: ProposalCardProps) {
   const [selectedOption, setSelectedOption] = useState<string>('');
   const [isVoting, setIsVoting] = useState(false);
-  const [isRevealing, setIsRevealing] = useState(false);
+  const [voteStage, setVoteStage] = useState<VoteStage | null>(null);
+  const voteAbort = useRef<AbortController | null>(null);
+  const [revealStatus, setRevealStatus] = useState<RevealStatus | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  // Decrypted locally for this session only; never sent anywhere
+  const [verifiedOption, setVerifiedOption] = useState<number | null>(null);
 
   const now = Date.now();
-  const isActive = now >= proposal.startTime && now <= proposal.endTime;
-  const hasEnded = now > proposal.endTime;
-  const canVote = isActive && !proposal.hasVoted;
+  // Closing early moves endTime to the closing block, which can still be a moment ahead of the local clock
+  const hasEnded = now > proposal.endTime || proposal.closedEarly;
+  const isActive = !proposal.cancelled && !hasEnded && now >= proposal.startTime;
+  const canVote = isActive && !proposal.hasVoted && !readOnly;
+  const canManage = userIsAdmin && !readOnly && proposal.active && !hasEnded;
 
   const handleVote = async () => {
     if (!selectedOption || isVoting) return;
 
     setIsVoting(true);
+    voteAbort.current = new AbortController();
     try {
       const optionIndex = parseInt(selectedOption);
-      const success = await votingContract.castVote(proposal.id, optionIndex);
+      const success = await votingContract.castVote(proposal.id, optionIndex, {
+        signal: voteAbort.current.signal,
+        onProgress: setVoteStage
+      });
       
       if (success) {
         toast({
@@ -54,43 +86,124 @@ export function ProposalCard({ proposal, userIsAdmin, onVoteSuccess }: ProposalC
         throw new Error('Vote failed');
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Vote Cancelled",
+          description: "Nothing was submitted.",
+        });
+        return;
+      }
+      if (isPrivacyError(error)) {
+        toast({
+          title: "Vote Not Submitted",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (isContractError(error)) {
+        toast({
+          title: error.preflight ? "Vote Not Submitted" : "Vote Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Vote Failed",
         description: "There was an error casting your vote. Please try again.",
         variant: "destructive",
       });
     } finally {
+      voteAbort.current = null;
+      setVoteStage(null);
       setIsVoting(false);
     }
   };
 
+  const handleCancelVote = () => {
+    voteAbort.current?.abort();
+  };
+
+  const renderVoteSteps = () => {
+    const currentIndex = VOTE_STEPS.findIndex(step => step.stage === voteStage);
+    return (
+      <div className="space-y-1 rounded-lg border p-3">
+        {VOTE_STEPS.map((step, index) => (
+          <div
+            key={step.stage}
+            className={`flex items-center text-sm ${index > currentIndex ? 'text-muted-foreground' : ''}`}
+          >
+            {index < currentIndex ? (
+              <CheckCircle className="h-4 w-4 mr-2 text-green-600" />
+            ) : index === currentIndex ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Circle className="h-4 w-4 mr-2" />
+            )}
+            {step.label}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const isRevealing = revealStatus === 'requesting' || revealStatus === 'requested';
+  const awaitingOracle = revealStatus === 'requested' || (proposal.decryptionPending && revealStatus === null);
+
   const handleRevealResults = async () => {
-    setIsRevealing(true);
     try {
-      const success = await votingContract.revealResults(proposal.id);
-      
-      if (success) {
-        toast({
-          title: "Results Revelation Requested",
-          description: "Results will be decrypted and revealed shortly.",
-        });
-        onVoteSuccess();
-      }
+      await votingContract.revealResults(proposal.id, status => {
+        setRevealStatus(status);
+        if (status === 'requested') {
+          toast({
+            title: "Decryption Requested",
+            description: "The tallies were sent to the decryption oracle. Results appear once it answers.",
+          });
+        }
+      });
+      toast({
+        title: "Results Revealed",
+        description: "The decrypted tallies have been published on-chain.",
+      });
+      onVoteSuccess();
     } catch (error) {
       toast({
         title: "Revelation Failed",
-        description: "Could not reveal results. Please try again.",
+        description: error instanceof Error ? error.message : "Could not reveal results. Please try again.",
         variant: "destructive",
       });
     } finally {
-      setIsRevealing(false);
+      setRevealStatus(null);
+    }
+  };
+
+  const handleVerifyVote = async () => {
+    setIsVerifying(true);
+    try {
+      const optionIndex = await votingContract.verifyMyVote(proposal.id);
+      setVerifiedOption(optionIndex);
+    } catch (error) {
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "Could not decrypt your ballot.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
     }
   };
 
   const getStatusBadge = () => {
+    if (proposal.cancelled) {
+      return <Badge variant="destructive"><Ban className="h-3 w-3 mr-1" />Cancelled</Badge>;
+    }
     if (hasEnded && proposal.resultsRevealed) {
       return <Badge variant="secondary"><CheckCircle className="h-3 w-3 mr-1" />Completed</Badge>;
     }
+    if (proposal.closedEarly) {
+      return <Badge variant="outline"><StopCircle className="h-3 w-3 mr-1" />Closed Early</Badge>;
+    }
     if (hasEnded) {
       return <Badge variant="outline"><Clock className="h-3 w-3 mr-1" />Ended</Badge>;
     }
@@ -127,6 +240,12 @@ export function ProposalCard({ proposal, userIsAdmin, onVoteSuccess }: ProposalC
             <CardTitle className="text-xl">{proposal.title}</CardTitle>
             <div className="flex items-center space-x-2">
               {getStatusBadge()}
+              {proposal.extended && !proposal.cancelled && (
+                <Badge variant="outline">
+                  <CalendarPlus className="h-3 w-3 mr-1" />
+                  Extended
+                </Badge>
+              )}
               {proposal.hasVoted && (
                 <Badge variant="outline" className="text-green-600">
                   <CheckCircle className="h-3 w-3 mr-1" />
@@ -204,13 +323,22 @@ export function ProposalCard({ proposal, userIsAdmin, onVoteSuccess }: ProposalC
                 ))}
               </RadioGroup>
               
-              <Button 
-                onClick={handleVote}
-                disabled={!selectedOption || isVoting}
-                className="w-full"
-              >
-                {isVoting ? 'Casting Encrypted Vote...' : 'Cast Encrypted Vote'}
-              </Button>
+              {isVoting && voteStage && renderVoteSteps()}
+
+              <div className="flex gap-2">
+                <Button 
+                  onClick={handleVote}
+                  disabled={!selectedOption || isVoting}
+                  className="flex-1"
+                >
+                  {isVoting ? 'Casting Encrypted Vote...' : 'Cast Encrypted Vote'}
+                </Button>
+                {isVoting && voteStage && CANCELLABLE_STAGES.includes(voteStage) && (
+                  <Button onClick={handleCancelVote} variant="outline">
+                    Cancel
+                  </Button>
+                )}
+              </div>
             </div>
           ) : (
             // Show Options (No Voting)
@@ -227,13 +355,42 @@ export function ProposalCard({ proposal, userIsAdmin, onVoteSuccess }: ProposalC
               ))}
               
               {proposal.hasVoted && (
-                <div className="flex items-center text-sm text-green-600 mt-2">
-                  <CheckCircle className="h-4 w-4 mr-1" />
-                  Your vote has been recorded and encrypted
+                <div className="flex items-center justify-between mt-2">
+                  <div className="flex items-center text-sm text-green-600">
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    {verifiedOption !== null
+                      ? `Verified: you voted for "${proposal.options[verifiedOption]}"`
+                      : 'Your vote has been recorded and encrypted'}
+                  </div>
+                  {verifiedOption === null && (
+                    <Button
+                      onClick={handleVerifyVote}
+                      disabled={isVerifying}
+                      size="sm"
+                      variant="outline"
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      {isVerifying ? 'Decrypting...' : 'Verify my vote'}
+                    </Button>
+                  )}
                 </div>
               )}
               
-              {hasEnded && !canVote && !proposal.hasVoted && (
+              {readOnly && isActive && (
+                <div className="flex items-center text-sm text-muted-foreground mt-2">
+                  <Lock className="h-4 w-4 mr-1" />
+                  Connect a wallet to vote on this proposal
+                </div>
+              )}
+
+              {proposal.cancelled && (
+                <div className="flex items-center text-sm text-muted-foreground mt-2">
+                  <Ban className="h-4 w-4 mr-1" />
+                  This proposal was cancelled by an admin
+                </div>
+              )}
+
+              {hasEnded && !proposal.cancelled && !canVote && !proposal.hasVoted && (
                 <div className="flex items-center text-sm text-muted-foreground mt-2">
                   <XCircle className="h-4 w-4 mr-1" />
                   Voting period has ended
@@ -244,12 +401,34 @@ export function ProposalCard({ proposal, userIsAdmin, onVoteSuccess }: ProposalC
         </div>
 
         {/* Admin Controls */}
-        {userIsAdmin && hasEnded && !proposal.resultsRevealed && (
+        {canManage && (
+          <div className="pt-4 border-t">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center text-sm text-muted-foreground">
+                <AlertCircle className="h-4 w-4 mr-1" />
+                Manage proposal
+              </div>
+              <div className="flex gap-2">
+                {proposal.totalVotes === 0 && (
+                  <ManageProposalDialog proposal={proposal} action="cancel" onSuccess={onVoteSuccess} />
+                )}
+                {isActive && (
+                  <ManageProposalDialog proposal={proposal} action="close" onSuccess={onVoteSuccess} />
+                )}
+                <ManageProposalDialog proposal={proposal} action="extend" onSuccess={onVoteSuccess} />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {userIsAdmin && hasEnded && !proposal.cancelled && !proposal.resultsRevealed && (
           <div className="pt-4 border-t">
             <div className="flex items-center justify-between">
               <div className="flex items-center text-sm text-muted-foreground">
                 <AlertCircle className="h-4 w-4 mr-1" />
-                Results pending decryption
+                {awaitingOracle
+                  ? 'Decryption requested, waiting for the oracle'
+                  : 'Results pending decryption'}
               </div>
               <Button 
                 onClick={handleRevealResults}
@@ -258,7 +437,11 @@ export function ProposalCard({ proposal, userIsAdmin, onVoteSuccess }: ProposalC
                 variant="outline"
               >
                 <Eye className="h-4 w-4 mr-1" />
-                {isRevealing ? 'Revealing...' : 'Reveal Results'}
+                {revealStatus === 'requesting'
+                  ? 'Requesting...'
+                  : awaitingOracle
+                    ? (isRevealing ? 'Waiting...' : 'Check Results')
+                    : 'Reveal Results'}
               </Button>
             </div>
           </div>
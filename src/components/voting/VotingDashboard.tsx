@@ -18,39 +18,58 @@ import {
   Info,
   AlertTriangle,
   Wifi,
-  WifiOff
+  WifiOff,
+  Archive,
+  Eye,
+  KeyRound
 } from 'lucide-react';
 import { ProposalCard } from './ProposalCard';
+import { ProposalArchive } from './ProposalArchive';
 import { CreateProposalDialog } from './CreateProposalDialog';
 import { AdminPanel } from '../admin/AdminPanel';
-import { Proposal, UserProfile } from '@/types/voting';
+import { RoleChange, RoleChangeDialog } from '../admin/RoleChangeDialog';
+import { LiveStatus, Proposal, UserProfile } from '@/types/voting';
 import { votingContract } from '@/lib/contract';
 import { debugLog } from '@/lib/fhevm';
+import type { GatewayStatus } from '@/lib/gateway';
 
 interface VotingDashboardProps {
-  userProfile: UserProfile;
+  // Null while browsing read-only without a wallet
+  userProfile: UserProfile | null;
   proposals: Proposal[];
+  liveStatus: LiveStatus;
   onRefresh: () => void;
 }
 
-export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDashboardProps) {
+const LIVE_STATUS_LABELS: Record<LiveStatus, { text: string; description: string; dot: string }> = {
+  connecting: { text: 'Connecting', description: 'Subscribing to contract events', dot: 'bg-yellow-500' },
+  live: { text: 'Live', description: 'Updates arrive as votes and results land on-chain', dot: 'bg-green-500 animate-pulse' },
+  polling: { text: 'Polling', description: 'The provider cannot push events; checking every 15 seconds', dot: 'bg-blue-500' },
+  offline: { text: 'Offline', description: 'No live updates; use Refresh', dot: 'bg-muted-foreground' },
+};
+
+export function VotingDashboard({ userProfile, proposals, liveStatus, onRefresh }: VotingDashboardProps) {
   const [refreshing, setRefreshing] = useState(false);
   const [showDebugInfo, setShowDebugInfo] = useState(false);
-  const [gatewayStatus, setGatewayStatus] = useState<{ [key: string]: boolean }>({});
+  const [gatewayStatus, setGatewayStatus] = useState<GatewayStatus[]>([]);
+  const [roleChange, setRoleChange] = useState<RoleChange | null>(null);
+  const isAdmin = userProfile?.isAdmin ?? false;
+  const readOnly = userProfile === null;
 
+  // Cancelled proposals are inactive, so they only show up in the archive
   const activeProposals = proposals.filter(p => {
     const now = Date.now();
-    return p.active && now >= p.startTime && now <= p.endTime;
+    return p.active && !p.closedEarly && now >= p.startTime && now <= p.endTime;
   });
 
   const pendingProposals = proposals.filter(p => {
     const now = Date.now();
-    return p.active && now < p.startTime;
+    return p.active && !p.closedEarly && now < p.startTime;
   });
 
   const completedProposals = proposals.filter(p => {
     const now = Date.now();
-    return p.active && now > p.endTime;
+    return p.active && (p.closedEarly || now > p.endTime);
   });
 
   const handleRefresh = async () => {
@@ -62,8 +81,7 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
 
   const testGateways = async () => {
     debugLog('Testing gateway connectivity...');
-    const status = await votingContract.testGateways();
-    setGatewayStatus(status);
+    await votingContract.testGateways();
   };
 
   const getStats = () => {
@@ -71,7 +89,7 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
     const userVotes = proposals.filter(p => p.hasVoted).length;
     
     return {
-      totalProposals: proposals.length,
+      totalProposals: proposals.filter(p => !p.cancelled).length,
       activeProposals: activeProposals.length,
       totalVotes,
       userVotes
@@ -82,6 +100,7 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
   const isFHEVM = votingContract.isFHEVM();
   const isSimulation = votingContract.isSimulation();
   const isDebugMode = import.meta.env.VITE_DEBUG_MODE === 'true';
+  const publicKeyInfo = votingContract.getPublicKeyInfo();
 
   useEffect(() => {
     debugLog('Dashboard mounted', {
@@ -92,9 +111,10 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
       isDebugMode
     });
 
-    // Test gateways on mount
+    // Test gateways on mount and follow their health live
     if (isDebugMode) {
       testGateways();
+      return votingContract.subscribeGatewayStatus(setGatewayStatus);
     }
   }, []);
 
@@ -136,6 +156,10 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
           </p>
         </div>
         <div className="flex items-center space-x-2">
+          <Badge variant="outline" title={LIVE_STATUS_LABELS[liveStatus].description}>
+            <span className={`h-2 w-2 rounded-full mr-1.5 ${LIVE_STATUS_LABELS[liveStatus].dot}`} />
+            {LIVE_STATUS_LABELS[liveStatus].text}
+          </Badge>
           {isDebugMode && (
             <>
               <Button 
@@ -160,12 +184,35 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
             <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
-          {userProfile.isAdmin && (
+          {isAdmin && (
             <CreateProposalDialog onSuccess={onRefresh} />
           )}
         </div>
       </div>
 
+      {/* Ownership offered to this account; it may not be an admin yet, so this lives outside the admin tab */}
+      {userProfile?.isPendingOwner && (
+        <Card className="border-primary/40">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center space-x-2">
+                <KeyRound className="h-5 w-5 text-primary" />
+                <div>
+                  <span className="font-medium">You have been offered ownership of this contract</span>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Accept it to become owner and manage admins. The offer stays open until the current owner withdraws it.
+                  </p>
+                </div>
+              </div>
+              <Button onClick={() => setRoleChange({ kind: 'accept-ownership', addresses: [userProfile.address] })}>
+                Accept Ownership
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      <RoleChangeDialog change={roleChange} onClose={() => setRoleChange(null)} onSuccess={onRefresh} />
+
       {/* Simulation Mode Warning */}
       {isSimulation && (
         <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950">
@@ -185,6 +232,25 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
         </Card>
       )}
 
+      {/* Read-only Notice */}
+      {readOnly && (
+        <Card className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2">
+              <Eye className="h-5 w-5 text-blue-600" />
+              <div>
+                <span className="font-medium text-blue-900 dark:text-blue-100">
+                  Read-only Mode
+                </span>
+                <p className="text-sm text-blue-700 dark:text-blue-300 mt-1">
+                  You are browsing proposals and results without a wallet. Connect a wallet to vote.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Debug Info Panel */}
       {isDebugMode && showDebugInfo && (
         <Card className="border-blue-200 bg-blue-50 dark:border-blue-800 dark:bg-blue-950">
@@ -202,22 +268,29 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
               </pre>
             </div>
             
-            {Object.keys(gatewayStatus).length > 0 && (
+            {gatewayStatus.length > 0 && (
               <div>
                 <h4 className="font-medium mb-2">Gateway Status:</h4>
                 <div className="space-y-1">
-                  {Object.entries(gatewayStatus).map(([gateway, status]) => (
-                    <div key={gateway} className="flex items-center space-x-2 text-xs">
-                      {status ? (
-                        <Wifi className="h-3 w-3 text-green-500" />
-                      ) : (
-                        <WifiOff className="h-3 w-3 text-red-500" />
-                      )}
-                      <span className={status ? 'text-green-700' : 'text-red-700'}>
-                        {gateway}: {status ? 'Online' : 'Offline'}
-                      </span>
-                    </div>
-                  ))}
+                  {gatewayStatus.map((gateway) => {
+                    const online = gateway.state === 'closed' && gateway.lastError === null;
+                    return (
+                      <div key={gateway.url} className="flex items-center space-x-2 text-xs">
+                        {online ? (
+                          <Wifi className="h-3 w-3 text-green-500" />
+                        ) : (
+                          <WifiOff className={`h-3 w-3 ${gateway.state === 'open' ? 'text-red-500' : 'text-yellow-500'}`} />
+                        )}
+                        <span className={online ? 'text-green-700' : gateway.state === 'open' ? 'text-red-700' : 'text-yellow-700'}>
+                          {gateway.url}: {gateway.state === 'open' ? 'Circuit open' : gateway.state === 'half-open' ? 'Retrying' : online ? 'Online' : 'Degraded'}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {gateway.latencyMs !== null ? `${gateway.latencyMs}ms` : '–'} · {(gateway.successRate * 100).toFixed(0)}% ok
+                          {gateway.retryAt !== null && gateway.state === 'open' && ` · retry ${new Date(gateway.retryAt).toLocaleTimeString()}`}
+                        </span>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -252,6 +325,11 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
                 <p className={`text-xs text-${connectionStatus.color}-700 dark:text-${connectionStatus.color}-300 mt-1`}>
                   {connectionStatus.description}
                 </p>
+                {publicKeyInfo.fingerprint && (
+                  <p className={`text-xs font-mono text-${connectionStatus.color}-700 dark:text-${connectionStatus.color}-300 mt-1`}>
+                    Key fingerprint: {publicKeyInfo.fingerprint} ({publicKeyInfo.source})
+                  </p>
+                )}
               </div>
               {isFHEVM && (
                 <Badge variant="secondary" className={`bg-${connectionStatus.color}-100 text-${connectionStatus.color}-800 dark:bg-${connectionStatus.color}-900 dark:text-${connectionStatus.color}-200`}>
@@ -334,7 +412,11 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
             <Clock className="h-4 w-4" />
             <span>Pending ({pendingProposals.length})</span>
           </TabsTrigger>
-          {userProfile.isAdmin && (
+          <TabsTrigger value="archive" className="flex items-center space-x-2">
+            <Archive className="h-4 w-4" />
+            <span>Archive</span>
+          </TabsTrigger>
+          {isAdmin && (
             <TabsTrigger value="admin" className="flex items-center space-x-2">
               <Shield className="h-4 w-4" />
               <span>Admin</span>
@@ -349,7 +431,8 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
                 <ProposalCard
                   key={proposal.id}
                   proposal={proposal}
-                  userIsAdmin={userProfile.isAdmin}
+                  userIsAdmin={isAdmin}
+                  readOnly={readOnly}
                   onVoteSuccess={onRefresh}
                 />
               ))}
@@ -365,7 +448,7 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
                     : "There are currently no active proposals accepting votes."
                   }
                 </p>
-                {userProfile.isAdmin && (
+                {isAdmin && (
                   <div className="mt-4">
                     <CreateProposalDialog onSuccess={onRefresh} />
                   </div>
@@ -382,7 +465,8 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
                 <ProposalCard
                   key={proposal.id}
                   proposal={proposal}
-                  userIsAdmin={userProfile.isAdmin}
+                  userIsAdmin={isAdmin}
+                  readOnly={readOnly}
                   onVoteSuccess={onRefresh}
                 />
               ))}
@@ -407,7 +491,8 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
                 <ProposalCard
                   key={proposal.id}
                   proposal={proposal}
-                  userIsAdmin={userProfile.isAdmin}
+                  userIsAdmin={isAdmin}
+                  readOnly={readOnly}
                   onVoteSuccess={onRefresh}
                 />
               ))}
@@ -425,9 +510,13 @@ export function VotingDashboard({ userProfile, proposals, onRefresh }: VotingDas
           )}
         </TabsContent>
 
-        {userProfile.isAdmin && (
+        <TabsContent value="archive" className="space-y-4">
+          <ProposalArchive userIsAdmin={isAdmin} readOnly={readOnly} onVoteSuccess={onRefresh} />
+        </TabsContent>
+
+        {isAdmin && (
           <TabsContent value="admin" className="space-y-4">
-            <AdminPanel onRefresh={onRefresh} />
+            <AdminPanel isOwner={userProfile?.isOwner ?? false} onRefresh={onRefresh} />
           </TabsContent>
         )}
       </Tabs>
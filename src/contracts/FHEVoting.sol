@@ -1,353 +1,555 @@
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.24;
-
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "./ZamaConfig.sol";
-
-/**
- * @title FHEVoting
- * @dev Fully Homomorphic Encryption based voting system for DAOs
- * @notice This contract enables private voting where individual votes remain encrypted
- * while still allowing for accurate tallying of results using Zama's FHEVM on Sepolia
- */
-contract FHEVoting is SepoliaConfig {
-    struct Proposal {
-        uint256 id;
-        string title;
-        string description;
-        string[] options;
-        uint256 startTime;
-        uint256 endTime;
-        uint256 totalVotes;
-        mapping(uint256 => euint32) encryptedVoteCounts; // option index => encrypted count
-        mapping(address => bool) hasVoted;
-        bool resultsRevealed;
-        uint256[] revealedResults;
-        address creator;
-        bool active;
-    }
-
-    struct ProposalInfo {
-        uint256 id;
-        string title;
-        string description;
-        string[] options;
-        uint256 startTime;
-        uint256 endTime;
-        uint256 totalVotes;
-        address creator;
-        bool active;
-        bool resultsRevealed;
-        uint256[] revealedResults;
-    }
-
-    mapping(uint256 => Proposal) public proposals;
-    mapping(address => bool) public authorizedVoters;
-    mapping(address => bool) public admins;
-
-    uint256 public proposalCount;
-    address public owner;
-
-    event ProposalCreated(
-        uint256 indexed proposalId,
-        string title,
-        address indexed creator,
-        uint256 startTime,
-        uint256 endTime
-    );
-
-    event VoteCast(uint256 indexed proposalId, address indexed voter, uint256 totalVotes);
-
-    event ResultsRevealed(uint256 indexed proposalId, uint256[] results);
-
-    event VoterAuthorized(address indexed voter, address indexed admin);
-    event AdminAdded(address indexed admin, address indexed addedBy);
-
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner can perform this action");
-        _;
-    }
-
-    modifier onlyAdmin() {
-        require(admins[msg.sender] || msg.sender == owner, "Only admin can perform this action");
-        _;
-    }
-
-    modifier onlyAuthorizedVoter() {
-        require(authorizedVoters[msg.sender], "Not authorized to vote");
-        _;
-    }
-
-    modifier validProposal(uint256 _proposalId) {
-        require(_proposalId < proposalCount, "Invalid proposal ID");
-        require(proposals[_proposalId].active, "Proposal not active");
-        _;
-    }
-
-    modifier votingPeriod(uint256 _proposalId) {
-        require(
-            block.timestamp >= proposals[_proposalId].startTime && block.timestamp <= proposals[_proposalId].endTime,
-            "Voting period not active"
-        );
-        _;
-    }
-
-    constructor() {
-        owner = msg.sender;
-        admins[msg.sender] = true;
-        authorizedVoters[msg.sender] = true;
-    }
-
-    /**
-     * @dev Add an admin who can manage proposals and voters
-     */
-    function addAdmin(address _admin) external onlyOwner {
-        admins[_admin] = true;
-        emit AdminAdded(_admin, msg.sender);
-    }
-
-    /**
-     * @dev Authorize a voter to participate in votes
-     */
-    function authorizeVoter(address _voter) external onlyAdmin {
-        authorizedVoters[_voter] = true;
-        emit VoterAuthorized(_voter, msg.sender);
-    }
-
-    /**
-     * @dev Authorize multiple voters at once
-     */
-    function authorizeVoters(address[] calldata _voters) external onlyAdmin {
-        for (uint256 i = 0; i < _voters.length; i++) {
-            authorizedVoters[_voters[i]] = true;
-            emit VoterAuthorized(_voters[i], msg.sender);
-        }
-    }
-
-    /**
-     * @dev Create a new proposal with multiple options
-     */
-    function createProposal(
-        string calldata _title,
-        string calldata _description,
-        string[] calldata _options,
-        uint256 _votingDuration
-    ) external onlyAdmin returns (uint256) {
-        require(_options.length >= 2, "At least 2 options required");
-        require(_options.length <= 10, "Maximum 10 options allowed");
-        require(_votingDuration > 0, "Voting duration must be positive");
-
-        uint256 proposalId = proposalCount++;
-        Proposal storage newProposal = proposals[proposalId];
-
-        newProposal.id = proposalId;
-        newProposal.title = _title;
-        newProposal.description = _description;
-
-        // Manually copy options array to avoid calldata to storage issue
-        for (uint256 i = 0; i < _options.length; i++) {
-            newProposal.options.push(_options[i]);
-        }
-
-        newProposal.startTime = block.timestamp;
-        newProposal.endTime = block.timestamp + _votingDuration;
-        newProposal.creator = msg.sender;
-        newProposal.active = true;
-
-        // Initialize encrypted vote counts for each option to 0
-        for (uint256 i = 0; i < _options.length; i++) {
-            newProposal.encryptedVoteCounts[i] = FHE.asEuint32(0);
-            // Allow this contract and creator to access the encrypted values
-            FHE.allowThis(newProposal.encryptedVoteCounts[i]);
-            FHE.allow(newProposal.encryptedVoteCounts[i], msg.sender);
-        }
-
-        emit ProposalCreated(proposalId, _title, msg.sender, newProposal.startTime, newProposal.endTime);
-
-        return proposalId;
-    }
-
-    /**
-     * @dev Cast an encrypted vote for a specific option
-     * @param _proposalId The proposal to vote on
-     * @param _optionIndex The option to vote for
-     * @param _encryptedVote Encrypted vote value (should be 1 for the chosen option)
-     * @param _inputProof Zero-knowledge proof for the encrypted vote
-     */
-    function castVote(
-        uint256 _proposalId,
-        uint256 _optionIndex,
-        externalEuint32 _encryptedVote,
-        bytes calldata _inputProof
-    ) external onlyAuthorizedVoter validProposal(_proposalId) votingPeriod(_proposalId) {
-        Proposal storage proposal = proposals[_proposalId];
-        require(!proposal.hasVoted[msg.sender], "Already voted");
-        require(_optionIndex < proposal.options.length, "Invalid option");
-
-        // Convert the encrypted input to euint32
-        euint32 vote = FHE.fromExternal(_encryptedVote, _inputProof);
-
-        // Add the encrypted vote to the corresponding option using homomorphic addition
-        proposal.encryptedVoteCounts[_optionIndex] = FHE.add(proposal.encryptedVoteCounts[_optionIndex], vote);
-
-        // Allow access to the updated encrypted count
-        FHE.allowThis(proposal.encryptedVoteCounts[_optionIndex]);
-        FHE.allow(proposal.encryptedVoteCounts[_optionIndex], msg.sender);
-
-        proposal.hasVoted[msg.sender] = true;
-        proposal.totalVotes++;
-
-        emit VoteCast(_proposalId, msg.sender, proposal.totalVotes);
-    }
-
-    /**
-     * @dev Set results manually by admin (replaces automatic decryption)
-     * @param _proposalId The proposal to set results for
-     * @param _results Array of vote counts for each option
-     * @notice In production, results would be obtained through off-chain decryption
-     * or threshold decryption mechanisms provided by Zama's infrastructure
-     */
-    function setResults(
-        uint256 _proposalId,
-        uint256[] calldata _results
-    ) external onlyAdmin validProposal(_proposalId) {
-        Proposal storage proposal = proposals[_proposalId];
-        require(block.timestamp > proposal.endTime, "Voting still active");
-        require(!proposal.resultsRevealed, "Results already revealed");
-        require(_results.length == proposal.options.length, "Results length mismatch");
-
-        // Manually copy results array to avoid calldata to storage issue
-        delete proposal.revealedResults;
-        for (uint256 i = 0; i < _results.length; i++) {
-            proposal.revealedResults.push(_results[i]);
-        }
-
-        proposal.resultsRevealed = true;
-
-        emit ResultsRevealed(_proposalId, proposal.revealedResults);
-    }
-
-    /**
-     * @dev Request decryption for a proposal's encrypted vote counts
-     * @param _proposalId The proposal to request decryption for
-     * @notice This function prepares the encrypted data for off-chain decryption
-     * The actual decryption should be handled by Zama's decryption infrastructure
-     */
-    function requestDecryption(uint256 _proposalId) external onlyAdmin validProposal(_proposalId) {
-        Proposal storage proposal = proposals[_proposalId];
-        require(block.timestamp > proposal.endTime, "Voting still active");
-        require(!proposal.resultsRevealed, "Results already revealed");
-
-        // Allow the decryption oracle to access the encrypted vote counts
-        for (uint256 i = 0; i < proposal.options.length; i++) {
-            // The decryption oracle address should be allowed to decrypt
-            // This is handled by Zama's infrastructure
-            FHE.allowThis(proposal.encryptedVoteCounts[i]);
-        }
-
-        // In a production environment, this would trigger the decryption process
-        // through Zama's decryption infrastructure
-    }
-
-    /**
-     * @dev Get proposal information
-     */
-    function getProposal(uint256 _proposalId) external view returns (ProposalInfo memory) {
-        require(_proposalId < proposalCount, "Invalid proposal ID");
-        Proposal storage proposal = proposals[_proposalId];
-
-        return
-            ProposalInfo({
-                id: proposal.id,
-                title: proposal.title,
-                description: proposal.description,
-                options: proposal.options,
-                startTime: proposal.startTime,
-                endTime: proposal.endTime,
-                totalVotes: proposal.totalVotes,
-                creator: proposal.creator,
-                active: proposal.active,
-                resultsRevealed: proposal.resultsRevealed,
-                revealedResults: proposal.revealedResults
-            });
-    }
-
-    /**
-     * @dev Get all active proposals
-     */
-    function getActiveProposals() external view returns (ProposalInfo[] memory) {
-        uint256 activeCount = 0;
-
-        // Count active proposals
-        for (uint256 i = 0; i < proposalCount; i++) {
-            if (proposals[i].active) {
-                activeCount++;
-            }
-        }
-
-        ProposalInfo[] memory activeProposals = new ProposalInfo[](activeCount);
-        uint256 index = 0;
-
-        // Populate active proposals
-        for (uint256 i = 0; i < proposalCount; i++) {
-            if (proposals[i].active) {
-                Proposal storage proposal = proposals[i];
-                activeProposals[index] = ProposalInfo({
-                    id: proposal.id,
-                    title: proposal.title,
-                    description: proposal.description,
-                    options: proposal.options,
-                    startTime: proposal.startTime,
-                    endTime: proposal.endTime,
-                    totalVotes: proposal.totalVotes,
-                    creator: proposal.creator,
-                    active: proposal.active,
-                    resultsRevealed: proposal.resultsRevealed,
-                    revealedResults: proposal.revealedResults
-                });
-                index++;
-            }
-        }
-
-        return activeProposals;
-    }
-
-    /**
-     * @dev Check if user has voted on a proposal
-     */
-    function hasVoted(uint256 _proposalId, address _voter) external view returns (bool) {
-        require(_proposalId < proposalCount, "Invalid proposal ID");
-        return proposals[_proposalId].hasVoted[_voter];
-    }
-
-    /**
-     * @dev Check if address is authorized voter
-     */
-    function isAuthorizedVoter(address _voter) external view returns (bool) {
-        return authorizedVoters[_voter];
-    }
-
-    /**
-     * @dev Check if address is admin
-     */
-    function isAdmin(address _admin) external view returns (bool) {
-        return admins[_admin];
-    }
-
-    /**
-     * @dev Deactivate a proposal (admin only)
-     */
-    function deactivateProposal(uint256 _proposalId) external onlyAdmin validProposal(_proposalId) {
-        proposals[_proposalId].active = false;
-    }
-
-    /**
-     * @dev Get encrypted vote count for a specific option (returns encrypted data)
-     * @notice This returns encrypted data - cannot be read directly
-     */
-    function getEncryptedVoteCount(uint256 _proposalId, uint256 _optionIndex) external view returns (euint32) {
-        require(_proposalId < proposalCount, "Invalid proposal ID");
-        require(_optionIndex < proposals[_proposalId].options.length, "Invalid option");
-        return proposals[_proposalId].encryptedVoteCounts[_optionIndex];
-    }
-}
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "./ZamaConfig.sol";
+
+/**
+ * @title FHEVoting
+ * @dev Fully Homomorphic Encryption based voting system for DAOs
+ * @notice This contract enables private voting where individual votes remain encrypted
+ * while still allowing for accurate tallying of results using Zama's FHEVM on Sepolia
+ */
+contract FHEVoting is SepoliaConfig {
+    // Why an admin cancelled, closed or extended a proposal; emitted with the change
+    enum CancelReason {
+        CreatedInError,
+        Duplicate,
+        Superseded,
+        Other
+    }
+
+    enum CloseReason {
+        Decided,
+        Emergency,
+        Compromised,
+        Other
+    }
+
+    enum ExtendReason {
+        LowTurnout,
+        CommunityRequest,
+        TechnicalIssue,
+        Other
+    }
+
+    struct Proposal {
+        uint256 id;
+        string title;
+        string description;
+        string[] options;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 totalVotes;
+        mapping(uint256 => euint32) encryptedVoteCounts; // option index => encrypted count
+        mapping(address => bool) hasVoted;
+        mapping(address => euint32[]) ballots; // voter => encrypted one-hot ballot, readable by the voter only
+        bool resultsRevealed;
+        uint256[] revealedResults;
+        address creator;
+        bool active;
+        bool decryptionPending;
+        bool cancelled;
+        bool closedEarly;
+        bool extended;
+    }
+
+    struct ProposalInfo {
+        uint256 id;
+        string title;
+        string description;
+        string[] options;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 totalVotes;
+        address creator;
+        bool active;
+        bool resultsRevealed;
+        uint256[] revealedResults;
+        bool decryptionPending;
+        bool cancelled;
+        bool closedEarly;
+        bool extended;
+    }
+
+    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => uint256) private decryptionRequests; // oracle request id => proposal id
+    mapping(address => bool) public authorizedVoters;
+    mapping(address => bool) public admins;
+
+    uint256 public proposalCount;
+    address public owner;
+    // Nominated by the owner; becomes owner once it calls acceptOwnership
+    address public pendingOwner;
+
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        string title,
+        address indexed creator,
+        uint256 startTime,
+        uint256 endTime
+    );
+
+    event VoteCast(uint256 indexed proposalId, address indexed voter, uint256 totalVotes);
+
+    event ResultsRevealed(uint256 indexed proposalId, uint256[] results);
+
+    event DecryptionRequested(uint256 indexed proposalId, uint256 requestId);
+
+    event ProposalCancelled(uint256 indexed proposalId, address indexed admin, CancelReason reason);
+    event ProposalClosedEarly(uint256 indexed proposalId, address indexed admin, CloseReason reason, uint256 endTime);
+    event ProposalExtended(
+        uint256 indexed proposalId,
+        address indexed admin,
+        ExtendReason reason,
+        uint256 previousEndTime,
+        uint256 endTime
+    );
+
+    event VoterAuthorized(address indexed voter, address indexed admin);
+    event VoterDeauthorized(address indexed voter, address indexed admin);
+    event AdminAdded(address indexed admin, address indexed addedBy);
+    event AdminRemoved(address indexed admin, address indexed removedBy);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can perform this action");
+        _;
+    }
+
+    modifier onlyAdmin() {
+        require(admins[msg.sender] || msg.sender == owner, "Only admin can perform this action");
+        _;
+    }
+
+    modifier onlyAuthorizedVoter() {
+        require(authorizedVoters[msg.sender], "Not authorized to vote");
+        _;
+    }
+
+    modifier validProposal(uint256 _proposalId) {
+        require(_proposalId < proposalCount, "Invalid proposal ID");
+        require(proposals[_proposalId].active, "Proposal not active");
+        _;
+    }
+
+    modifier votingPeriod(uint256 _proposalId) {
+        // A proposal closed early stops taking votes in the same block, not only after endTime
+        require(
+            block.timestamp >= proposals[_proposalId].startTime &&
+                block.timestamp <= proposals[_proposalId].endTime &&
+                !proposals[_proposalId].closedEarly,
+            "Voting period not active"
+        );
+        _;
+    }
+
+    // Still open or not started yet: what cancelling and extending need
+    modifier beforeEnd(uint256 _proposalId) {
+        require(
+            block.timestamp <= proposals[_proposalId].endTime && !proposals[_proposalId].closedEarly,
+            "Voting period not active"
+        );
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+        admins[msg.sender] = true;
+        authorizedVoters[msg.sender] = true;
+    }
+
+    /**
+     * @dev Add an admin who can manage proposals and voters
+     */
+    function addAdmin(address _admin) external onlyOwner {
+        admins[_admin] = true;
+        emit AdminAdded(_admin, msg.sender);
+    }
+
+    /**
+     * @dev Take admin rights away (owner only)
+     */
+    function removeAdmin(address _admin) external onlyOwner {
+        require(_admin != owner, "Owner is always admin");
+        admins[_admin] = false;
+        emit AdminRemoved(_admin, msg.sender);
+    }
+
+    /**
+     * @dev Start handing the contract over; the new owner must call acceptOwnership
+     * @notice Nominating address(0) cancels a pending transfer
+     */
+    function transferOwnership(address _newOwner) external onlyOwner {
+        pendingOwner = _newOwner;
+        emit OwnershipTransferStarted(owner, _newOwner);
+    }
+
+    /**
+     * @dev Complete a transfer started by transferOwnership (pending owner only)
+     * @notice The previous owner stays admin until the new owner removes it
+     */
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Only the pending owner can accept");
+        address previousOwner = owner;
+        owner = msg.sender;
+        pendingOwner = address(0);
+        admins[msg.sender] = true;
+        emit OwnershipTransferred(previousOwner, msg.sender);
+    }
+
+    /**
+     * @dev Authorize a voter to participate in votes
+     */
+    function authorizeVoter(address _voter) external onlyAdmin {
+        authorizedVoters[_voter] = true;
+        emit VoterAuthorized(_voter, msg.sender);
+    }
+
+    /**
+     * @dev Authorize multiple voters at once
+     */
+    function authorizeVoters(address[] calldata _voters) external onlyAdmin {
+        for (uint256 i = 0; i < _voters.length; i++) {
+            authorizedVoters[_voters[i]] = true;
+            emit VoterAuthorized(_voters[i], msg.sender);
+        }
+    }
+
+    /**
+     * @dev Stop a voter from casting further votes; ballots already cast still count
+     */
+    function deauthorizeVoter(address _voter) external onlyAdmin {
+        authorizedVoters[_voter] = false;
+        emit VoterDeauthorized(_voter, msg.sender);
+    }
+
+    /**
+     * @dev Deauthorize multiple voters at once
+     */
+    function deauthorizeVoters(address[] calldata _voters) external onlyAdmin {
+        for (uint256 i = 0; i < _voters.length; i++) {
+            authorizedVoters[_voters[i]] = false;
+            emit VoterDeauthorized(_voters[i], msg.sender);
+        }
+    }
+
+    /**
+     * @dev Create a new proposal with multiple options
+     */
+    function createProposal(
+        string calldata _title,
+        string calldata _description,
+        string[] calldata _options,
+        uint256 _votingDuration
+    ) external onlyAdmin returns (uint256) {
+        require(_options.length >= 2, "At least 2 options required");
+        require(_options.length <= 10, "Maximum 10 options allowed");
+        require(_votingDuration > 0, "Voting duration must be positive");
+
+        uint256 proposalId = proposalCount++;
+        Proposal storage newProposal = proposals[proposalId];
+
+        newProposal.id = proposalId;
+        newProposal.title = _title;
+        newProposal.description = _description;
+
+        // Manually copy options array to avoid calldata to storage issue
+        for (uint256 i = 0; i < _options.length; i++) {
+            newProposal.options.push(_options[i]);
+        }
+
+        newProposal.startTime = block.timestamp;
+        newProposal.endTime = block.timestamp + _votingDuration;
+        newProposal.creator = msg.sender;
+        newProposal.active = true;
+
+        // Initialize encrypted vote counts for each option to 0
+        for (uint256 i = 0; i < _options.length; i++) {
+            newProposal.encryptedVoteCounts[i] = FHE.asEuint32(0);
+            // Only this contract may use the tallies; results leave through the decryption oracle
+            FHE.allowThis(newProposal.encryptedVoteCounts[i]);
+        }
+
+        emit ProposalCreated(proposalId, _title, msg.sender, newProposal.startTime, newProposal.endTime);
+
+        return proposalId;
+    }
+
+    /**
+     * @dev Cast an encrypted one-hot ballot
+     * @param _proposalId The proposal to vote on
+     * @param _encryptedBallot One encrypted value per option: 1 for the chosen option, 0 elsewhere
+     * @param _inputProof Zero-knowledge proof covering every handle in the ballot
+     * @notice The chosen option is never visible on-chain. A malformed ballot (entries above 1
+     * or a sum different from 1) is counted as all zeros instead of reverting, so its
+     * validity does not leak through the transaction status either.
+     */
+    function castVote(
+        uint256 _proposalId,
+        externalEuint32[] calldata _encryptedBallot,
+        bytes calldata _inputProof
+    ) external onlyAuthorizedVoter validProposal(_proposalId) votingPeriod(_proposalId) {
+        Proposal storage proposal = proposals[_proposalId];
+        require(!proposal.hasVoted[msg.sender], "Already voted");
+        require(_encryptedBallot.length == proposal.options.length, "Ballot length mismatch");
+
+        // Convert the encrypted inputs to euint32 and check the ballot is one-hot
+        euint32[] memory ballot = new euint32[](_encryptedBallot.length);
+        euint32 sum = FHE.asEuint32(0);
+        ebool valid = FHE.asEbool(true);
+        for (uint256 i = 0; i < _encryptedBallot.length; i++) {
+            ballot[i] = FHE.fromExternal(_encryptedBallot[i], _inputProof);
+            // Keep the ballot so the voter can decrypt and verify it later
+            FHE.allowThis(ballot[i]);
+            FHE.allow(ballot[i], msg.sender);
+            proposal.ballots[msg.sender].push(ballot[i]);
+            valid = FHE.and(valid, FHE.le(ballot[i], 1));
+            sum = FHE.add(sum, ballot[i]);
+        }
+        valid = FHE.and(valid, FHE.eq(sum, 1));
+
+        // Add every entry to its option using homomorphic addition
+        for (uint256 i = 0; i < ballot.length; i++) {
+            euint32 increment = FHE.select(valid, ballot[i], FHE.asEuint32(0));
+            proposal.encryptedVoteCounts[i] = FHE.add(proposal.encryptedVoteCounts[i], increment);
+
+            // Nobody else gets the running count: diffing it around a vote would reveal the ballot
+            FHE.allowThis(proposal.encryptedVoteCounts[i]);
+        }
+
+        proposal.hasVoted[msg.sender] = true;
+        proposal.totalVotes++;
+
+        emit VoteCast(_proposalId, msg.sender, proposal.totalVotes);
+    }
+
+    /**
+     * @dev Ask the decryption oracle to decrypt a proposal's encrypted tallies
+     * @param _proposalId The proposal to request decryption for
+     * @notice Results are written by resolveTallyCallback once the oracle answers,
+     * which emits ResultsRevealed. Until then the proposal is marked decryptionPending.
+     */
+    function requestDecryption(uint256 _proposalId) external onlyAdmin validProposal(_proposalId) returns (uint256) {
+        Proposal storage proposal = proposals[_proposalId];
+        require(block.timestamp > proposal.endTime || proposal.closedEarly, "Voting still active");
+        require(!proposal.resultsRevealed, "Results already revealed");
+        require(!proposal.decryptionPending, "Decryption already requested");
+
+        bytes32[] memory cts = new bytes32[](proposal.options.length);
+        for (uint256 i = 0; i < proposal.options.length; i++) {
+            cts[i] = FHE.toBytes32(proposal.encryptedVoteCounts[i]);
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.resolveTallyCallback.selector);
+        decryptionRequests[requestId] = _proposalId;
+        proposal.decryptionPending = true;
+
+        emit DecryptionRequested(_proposalId, requestId);
+        return requestId;
+    }
+
+    /**
+     * @dev Called by the decryption oracle with the decrypted tallies
+     * @param _requestId The id returned by FHE.requestDecryption
+     * @param _cleartexts ABI-encoded uint32 tallies, one 32-byte word per option
+     * @param _decryptionProof KMS signatures over the cleartexts
+     */
+    function resolveTallyCallback(
+        uint256 _requestId,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) external {
+        FHE.checkSignatures(_requestId, _cleartexts, _decryptionProof);
+
+        uint256 proposalId = decryptionRequests[_requestId];
+        Proposal storage proposal = proposals[proposalId];
+        require(proposal.decryptionPending, "No pending decryption");
+        require(_cleartexts.length == proposal.options.length * 32, "Results length mismatch");
+
+        delete proposal.revealedResults;
+        for (uint256 i = 0; i < proposal.options.length; i++) {
+            uint256 tally;
+            assembly {
+                tally := mload(add(add(_cleartexts, 32), mul(i, 32)))
+            }
+            proposal.revealedResults.push(tally);
+        }
+
+        delete decryptionRequests[_requestId];
+        proposal.decryptionPending = false;
+        proposal.resultsRevealed = true;
+
+        emit ResultsRevealed(proposalId, proposal.revealedResults);
+    }
+
+    /**
+     * @dev Get proposal information
+     */
+    function getProposal(uint256 _proposalId) external view returns (ProposalInfo memory) {
+        require(_proposalId < proposalCount, "Invalid proposal ID");
+        Proposal storage proposal = proposals[_proposalId];
+
+        return
+            ProposalInfo({
+                id: proposal.id,
+                title: proposal.title,
+                description: proposal.description,
+                options: proposal.options,
+                startTime: proposal.startTime,
+                endTime: proposal.endTime,
+                totalVotes: proposal.totalVotes,
+                creator: proposal.creator,
+                active: proposal.active,
+                resultsRevealed: proposal.resultsRevealed,
+                revealedResults: proposal.revealedResults,
+                decryptionPending: proposal.decryptionPending,
+                cancelled: proposal.cancelled,
+                closedEarly: proposal.closedEarly,
+                extended: proposal.extended
+            });
+    }
+
+    /**
+     * @dev Get all active proposals
+     */
+    function getActiveProposals() external view returns (ProposalInfo[] memory) {
+        uint256 activeCount = 0;
+
+        // Count active proposals
+        for (uint256 i = 0; i < proposalCount; i++) {
+            if (proposals[i].active) {
+                activeCount++;
+            }
+        }
+
+        ProposalInfo[] memory activeProposals = new ProposalInfo[](activeCount);
+        uint256 index = 0;
+
+        // Populate active proposals
+        for (uint256 i = 0; i < proposalCount; i++) {
+            if (proposals[i].active) {
+                Proposal storage proposal = proposals[i];
+                activeProposals[index] = ProposalInfo({
+                    id: proposal.id,
+                    title: proposal.title,
+                    description: proposal.description,
+                    options: proposal.options,
+                    startTime: proposal.startTime,
+                    endTime: proposal.endTime,
+                    totalVotes: proposal.totalVotes,
+                    creator: proposal.creator,
+                    active: proposal.active,
+                    resultsRevealed: proposal.resultsRevealed,
+                    revealedResults: proposal.revealedResults,
+                    decryptionPending: proposal.decryptionPending,
+                    cancelled: proposal.cancelled,
+                    closedEarly: proposal.closedEarly,
+                    extended: proposal.extended
+                });
+                index++;
+            }
+        }
+
+        return activeProposals;
+    }
+
+    /**
+     * @dev Check if user has voted on a proposal
+     */
+    function hasVoted(uint256 _proposalId, address _voter) external view returns (bool) {
+        require(_proposalId < proposalCount, "Invalid proposal ID");
+        return proposals[_proposalId].hasVoted[_voter];
+    }
+
+    /**
+     * @dev Get a voter's encrypted ballot
+     * @notice Handles are public but the ACL only lets the voter decrypt them (via re-encryption)
+     */
+    function getBallot(uint256 _proposalId, address _voter) external view returns (euint32[] memory) {
+        require(_proposalId < proposalCount, "Invalid proposal ID");
+        return proposals[_proposalId].ballots[_voter];
+    }
+
+    /**
+     * @dev Check if address is authorized voter
+     */
+    function isAuthorizedVoter(address _voter) external view returns (bool) {
+        return authorizedVoters[_voter];
+    }
+
+    /**
+     * @dev Check if address is admin
+     */
+    function isAdmin(address _admin) external view returns (bool) {
+        return admins[_admin];
+    }
+
+    /**
+     * @dev Deactivate a proposal (admin only)
+     */
+    function deactivateProposal(uint256 _proposalId) external onlyAdmin validProposal(_proposalId) {
+        proposals[_proposalId].active = false;
+    }
+
+    /**
+     * @dev Cancel a proposal before anyone has voted on it (admin only)
+     * @notice The proposal is deactivated for good; its tallies can never be revealed
+     */
+    function cancelProposal(
+        uint256 _proposalId,
+        CancelReason _reason
+    ) external onlyAdmin validProposal(_proposalId) beforeEnd(_proposalId) {
+        Proposal storage proposal = proposals[_proposalId];
+        require(proposal.totalVotes == 0, "Proposal already has votes");
+
+        proposal.active = false;
+        proposal.cancelled = true;
+
+        emit ProposalCancelled(_proposalId, msg.sender, _reason);
+    }
+
+    /**
+     * @dev End voting now instead of at endTime (admin only)
+     * @notice Results can be revealed straight away
+     */
+    function closeProposalEarly(
+        uint256 _proposalId,
+        CloseReason _reason
+    ) external onlyAdmin validProposal(_proposalId) votingPeriod(_proposalId) {
+        Proposal storage proposal = proposals[_proposalId];
+        proposal.endTime = block.timestamp;
+        proposal.closedEarly = true;
+
+        emit ProposalClosedEarly(_proposalId, msg.sender, _reason, block.timestamp);
+    }
+
+    /**
+     * @dev Push endTime back before voting ends (admin only)
+     * @param _extension Seconds added to the current endTime
+     */
+    function extendDeadline(
+        uint256 _proposalId,
+        uint256 _extension,
+        ExtendReason _reason
+    ) external onlyAdmin validProposal(_proposalId) beforeEnd(_proposalId) {
+        require(_extension > 0, "Extension must be positive");
+        Proposal storage proposal = proposals[_proposalId];
+        uint256 previousEndTime = proposal.endTime;
+        proposal.endTime = previousEndTime + _extension;
+        proposal.extended = true;
+
+        emit ProposalExtended(_proposalId, msg.sender, _reason, previousEndTime, proposal.endTime);
+    }
+
+    /**
+     * @dev Get encrypted vote count for a specific option (returns encrypted data)
+     * @notice This returns encrypted data - cannot be read directly
+     */
+    function getEncryptedVoteCount(uint256 _proposalId, uint256 _optionIndex) external view returns (euint32) {
+        require(_proposalId < proposalCount, "Invalid proposal ID");
+        require(_optionIndex < proposals[_proposalId].options.length, "Invalid option");
+        return proposals[_proposalId].encryptedVoteCounts[_optionIndex];
+    }
+}
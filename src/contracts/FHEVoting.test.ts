@@ -0,0 +1,89 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { BrowserProvider, Contract, ContractFactory, InterfaceAbi, JsonRpcSigner, hexlify, randomBytes } from 'ethers';
+import ganache from 'ganache';
+import solc from 'solc';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const require = createRequire(import.meta.url);
+const SOURCES = ['FHEVoting.sol', 'ZamaConfig.sol', 'ZamaOracleAddress.sol', 'devnet/FHEVotingDevnet.sol', 'devnet/MockCoprocessor.sol'];
+
+interface Artifact {
+  abi: InterfaceAbi;
+  evm: { bytecode: { object: string } };
+}
+
+// Compiles the contracts as they are in the tree, with @fhevm/solidity from node_modules
+const compile = (): Record<string, Record<string, Artifact>> => {
+  const sources = Object.fromEntries(SOURCES.map(file =>
+    [file, { content: readFileSync(new URL(file, import.meta.url), 'utf8') }]));
+  const output = JSON.parse(solc.compile(JSON.stringify({
+    language: 'Solidity',
+    sources,
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: 'shanghai',
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } }
+    }
+  }), { import: path => ({ contents: readFileSync(require.resolve(path), 'utf8') }) }));
+  const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === 'error');
+  if (errors.length > 0) throw new Error(errors.map((error: { formattedMessage: string }) => error.formattedMessage).join('\n'));
+  return output.contracts;
+};
+
+// FHEVotingDevnet over the mock coprocessor, whose ACL records every grant the library makes
+describe('FHEVoting access control', () => {
+  let eth: ReturnType<typeof ganache.provider>;
+  let creator: JsonRpcSigner;
+  let voter: JsonRpcSigner;
+  let acl: Contract;
+  let voting: Contract;
+
+  beforeAll(async () => {
+    const contracts = compile();
+    eth = ganache.provider({ logging: { quiet: true }, chain: { hardfork: 'shanghai' }, wallet: { totalAccounts: 2 } });
+    const provider = new BrowserProvider(eth);
+    [creator, voter] = await Promise.all([provider.getSigner(0), provider.getSigner(1)]);
+    const deploy = async (file: string, name: string, ...args: unknown[]) => {
+      const { abi, evm } = contracts[file][name];
+      const contract = await new ContractFactory(abi, evm.bytecode.object, creator).deploy(...args);
+      await contract.waitForDeployment();
+      return contract as Contract;
+    };
+
+    acl = await deploy('devnet/MockCoprocessor.sol', 'MockACL');
+    const executor = await deploy('devnet/MockCoprocessor.sol', 'MockFHEVMExecutor', creator.address);
+    const kmsVerifier = await deploy('devnet/MockCoprocessor.sol', 'MockKMSVerifier', creator.address);
+    const oracle = await deploy('devnet/MockCoprocessor.sol', 'MockDecryptionOracle');
+    voting = await deploy('devnet/FHEVotingDevnet.sol', 'FHEVotingDevnet', {
+      ACLAddress: await acl.getAddress(),
+      CoprocessorAddress: await executor.getAddress(),
+      DecryptionOracleAddress: await oracle.getAddress(),
+      KMSVerifierAddress: await kmsVerifier.getAddress()
+    });
+  }, 120_000);
+
+  afterAll(async () => {
+    await eth.disconnect();
+  });
+
+  it('never lets the proposal creator re-encrypt a tally', async () => {
+    await (await voting.createProposal('Budget', 'Next quarter budget', ['Yes', 'No'], 3600)).wait();
+    await (await voting.authorizeVoter(voter.address)).wait();
+    const tallies = async () => Promise.all([0, 1].map(option => voting.getEncryptedVoteCount(0, option)));
+    // The gateway only re-encrypts a handle for an account the ACL has persisted for it
+    const allowed = (handles: string[], account: string) => Promise.all(handles.map(handle => acl.persistedAllowed(handle, account)));
+
+    expect(await allowed(await tallies(), creator.address)).toEqual([false, false]);
+
+    const ballot = [hexlify(randomBytes(32)), hexlify(randomBytes(32))];
+    await (await (voting.connect(voter) as Contract).castVote(0, ballot, '0x')).wait();
+
+    const counted = await tallies();
+    expect(await allowed(counted, creator.address)).toEqual([false, false]);
+    expect(await allowed(counted, voter.address)).toEqual([false, false]);
+    expect(await allowed(counted, await voting.getAddress())).toEqual([true, true]);
+    // The voter still gets their own ballot back
+    expect(await allowed(await voting.getBallot(0, voter.address), voter.address)).toEqual([true, true]);
+  });
+});
@@ -3,22 +3,22 @@ pragma solidity ^0.8.24;
 
 import {SepoliaZamaOracleAddress} from "./ZamaOracleAddress.sol";
 import {FHE} from "@fhevm/solidity/lib/FHE.sol";
-import {FHEVMConfigStruct} from "@fhevm/solidity/lib/Impl.sol";
+import {CoprocessorConfig} from "@fhevm/solidity/lib/Impl.sol";
 
 /**
  * @title   ZamaConfig.
  * @notice  This library returns the FHEVM config for different networks
- *          with the contract addresses for (1) ACL, (2) FHEVMExecutor, (3) KMSVerifier, (4) InputVerifier
- *          which are deployed & maintained by Zama. It also returns the address of the decryption oracle.
+ *          with the contract addresses for (1) ACL, (2) FHEVMExecutor, (3) decryption oracle, (4) KMSVerifier
+ *          which are deployed & maintained by Zama.
  */
 library ZamaConfig {
-    function getSepoliaConfig() internal pure returns (FHEVMConfigStruct memory) {
+    function getSepoliaConfig() internal pure returns (CoprocessorConfig memory) {
         return
-            FHEVMConfigStruct({
+            CoprocessorConfig({
                 ACLAddress: 0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D,
-                FHEVMExecutorAddress: 0xCD3ab3bd6bcc0c0bf3E27912a92043e817B1cf69,
-                KMSVerifierAddress: 0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC,
-                InputVerifierAddress: 0x901F8942346f7AB3a01F6D7613119Bca447Bb030
+                CoprocessorAddress: 0xCD3ab3bd6bcc0c0bf3E27912a92043e817B1cf69,
+                DecryptionOracleAddress: SepoliaZamaOracleAddress,
+                KMSVerifierAddress: 0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC
             });
     }
 
@@ -26,15 +26,15 @@ library ZamaConfig {
         return SepoliaZamaOracleAddress;
     }
 
-    function getEthereumConfig() internal pure returns (FHEVMConfigStruct memory) {
+    function getEthereumConfig() internal pure returns (CoprocessorConfig memory) {
         /// @note The addresses below are placeholders and should be replaced with actual addresses
         /// once deployed on the Ethereum mainnet.
         return
-            FHEVMConfigStruct({
+            CoprocessorConfig({
                 ACLAddress: address(0),
-                FHEVMExecutorAddress: address(0),
-                KMSVerifierAddress: address(0),
-                InputVerifierAddress: address(0)
+                CoprocessorAddress: address(0),
+                DecryptionOracleAddress: address(0),
+                KMSVerifierAddress: address(0)
             });
     }
 
@@ -54,7 +54,6 @@ library ZamaConfig {
 contract SepoliaConfig {
     constructor() {
         FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
-        FHE.setDecryptionOracle(ZamaConfig.getSepoliaOracleAddress());
     }
 }
 
@@ -68,6 +67,5 @@ contract SepoliaConfig {
 contract EthereumConfig {
     constructor() {
         FHE.setCoprocessor(ZamaConfig.getEthereumConfig());
-        FHE.setDecryptionOracle(ZamaConfig.getEthereumOracleAddress());
     }
 }
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {CoprocessorConfig} from "@fhevm/solidity/lib/Impl.sol";
+import {FHEVoting} from "../FHEVoting.sol";
+
+/**
+ * @title FHEVotingDevnet
+ * @dev FHEVoting pointed at the local devnet's mock coprocessor instead of Zama's Sepolia
+ * contracts. Runs after the SepoliaConfig constructor, so these addresses win. The ABI is
+ * the same as FHEVoting's.
+ */
+contract FHEVotingDevnet is FHEVoting {
+    constructor(CoprocessorConfig memory _config) {
+        FHE.setCoprocessor(_config);
+    }
+}
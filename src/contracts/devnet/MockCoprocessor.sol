@@ -0,0 +1,244 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title Mock FHE coprocessor for the local devnet
+ * @dev Stand-ins for Zama's ACL, FHEVMExecutor, KMSVerifier and decryption oracle, with the
+ * function signatures the @fhevm/solidity library calls. Nothing is encrypted on-chain: the
+ * executor only hands out result handles and logs every operation, and the off-chain mock
+ * coprocessor (scripts/devnet-coprocessor.mjs) replays the log to know each handle's value.
+ * Never deploy these anywhere but a local chain.
+ */
+
+/**
+ * @dev Allows everything. Grants are recorded so they can be inspected, but never enforced.
+ */
+contract MockACL {
+    mapping(bytes32 => mapping(address => bool)) public persistedAllowed;
+    mapping(bytes32 => bool) public allowedForDecryption;
+
+    event Allowed(bytes32 indexed handle, address indexed account);
+    event AllowedForDecryption(bytes32[] handles);
+
+    function allow(bytes32 handle, address account) external {
+        persistedAllowed[handle][account] = true;
+        emit Allowed(handle, account);
+    }
+
+    function allowTransient(bytes32, address) external {}
+
+    function cleanTransientStorage() external {}
+
+    function allowForDecryption(bytes32[] memory handlesList) external {
+        for (uint256 i = 0; i < handlesList.length; i++) {
+            allowedForDecryption[handlesList[i]] = true;
+        }
+        emit AllowedForDecryption(handlesList);
+    }
+
+    function isAllowed(bytes32, address) external pure returns (bool) {
+        return true;
+    }
+
+    function isAllowedForDecryption(bytes32) external pure returns (bool) {
+        return true;
+    }
+}
+
+/**
+ * @dev Every operation returns a fresh handle and emits FheOperation with its operands, in
+ * the order the coprocessor must evaluate them. Types follow the library's FheType enum
+ * (0 = ebool, 4 = euint32, ...); comparisons produce an ebool.
+ */
+contract MockFHEVMExecutor {
+    enum Op {
+        Add, Sub, Mul, Div, Rem, BitAnd, BitOr, BitXor, Shl, Shr, Rotl, Rotr,
+        Eq, Ne, Ge, Gt, Le, Lt, Min, Max, Neg, Not, IfThenElse, Cast, TrivialEncrypt
+    }
+
+    uint8 private constant BOOL = 0;
+
+    address public immutable inputVerifier;
+    uint256 private nonce;
+    mapping(bytes32 => uint8) public typeOf;
+
+    // operands: [lhs, rhs, third]; for scalar ops rhs is the cleartext, for TrivialEncrypt lhs is
+    event FheOperation(bytes32 indexed result, Op indexed op, bytes32[3] operands, bool scalar, uint8 resultType);
+    // An encrypted input handed to `contractAddress` by `user`; the handle itself is the result
+    event InputVerified(bytes32 indexed handle, address indexed contractAddress, address indexed user, bytes inputProof, uint8 inputType);
+
+    constructor(address _inputVerifier) {
+        inputVerifier = _inputVerifier;
+    }
+
+    function getInputVerifierAddress() external view returns (address) {
+        return inputVerifier;
+    }
+
+    function fheAdd(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Add, lhs, rhs, scalarByte);
+    }
+
+    function fheSub(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Sub, lhs, rhs, scalarByte);
+    }
+
+    function fheMul(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Mul, lhs, rhs, scalarByte);
+    }
+
+    function fheDiv(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Div, lhs, rhs, scalarByte);
+    }
+
+    function fheRem(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Rem, lhs, rhs, scalarByte);
+    }
+
+    function fheBitAnd(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.BitAnd, lhs, rhs, scalarByte);
+    }
+
+    function fheBitOr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.BitOr, lhs, rhs, scalarByte);
+    }
+
+    function fheBitXor(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.BitXor, lhs, rhs, scalarByte);
+    }
+
+    function fheShl(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Shl, lhs, rhs, scalarByte);
+    }
+
+    function fheShr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Shr, lhs, rhs, scalarByte);
+    }
+
+    function fheRotl(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Rotl, lhs, rhs, scalarByte);
+    }
+
+    function fheRotr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Rotr, lhs, rhs, scalarByte);
+    }
+
+    function fheEq(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Eq, lhs, rhs, scalarByte);
+    }
+
+    function fheNe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Ne, lhs, rhs, scalarByte);
+    }
+
+    function fheGe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Ge, lhs, rhs, scalarByte);
+    }
+
+    function fheGt(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Gt, lhs, rhs, scalarByte);
+    }
+
+    function fheLe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Le, lhs, rhs, scalarByte);
+    }
+
+    function fheLt(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Lt, lhs, rhs, scalarByte);
+    }
+
+    function fheMin(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Min, lhs, rhs, scalarByte);
+    }
+
+    function fheMax(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) {
+        return binary(Op.Max, lhs, rhs, scalarByte);
+    }
+
+    function fheNeg(bytes32 ct) external returns (bytes32) {
+        return record(Op.Neg, [ct, bytes32(0), bytes32(0)], false, typeOf[ct]);
+    }
+
+    function fheNot(bytes32 ct) external returns (bytes32) {
+        return record(Op.Not, [ct, bytes32(0), bytes32(0)], false, typeOf[ct]);
+    }
+
+    function fheIfThenElse(bytes32 control, bytes32 ifTrue, bytes32 ifFalse) external returns (bytes32) {
+        return record(Op.IfThenElse, [control, ifTrue, ifFalse], false, typeOf[ifTrue]);
+    }
+
+    function cast(bytes32 ct, uint8 toType) external returns (bytes32) {
+        return record(Op.Cast, [ct, bytes32(0), bytes32(0)], false, toType);
+    }
+
+    function trivialEncrypt(uint256 pt, uint8 toType) external returns (bytes32) {
+        return record(Op.TrivialEncrypt, [bytes32(pt), bytes32(0), bytes32(0)], true, toType);
+    }
+
+    // The proof is checked off-chain by the mock coprocessor, which knows the mock encryption key
+    function verifyCiphertext(
+        bytes32 inputHandle,
+        address userAddress,
+        bytes memory inputProof,
+        uint8 inputType
+    ) external returns (bytes32) {
+        typeOf[inputHandle] = inputType;
+        emit InputVerified(inputHandle, msg.sender, userAddress, inputProof, inputType);
+        return inputHandle;
+    }
+
+    function binary(Op op, bytes32 lhs, bytes32 rhs, bytes1 scalarByte) private returns (bytes32) {
+        bool comparison = op >= Op.Eq && op <= Op.Lt;
+        return record(op, [lhs, rhs, bytes32(0)], scalarByte == 0x01, comparison ? BOOL : typeOf[lhs]);
+    }
+
+    function record(Op op, bytes32[3] memory operands, bool scalar, uint8 resultType) private returns (bytes32 result) {
+        result = keccak256(abi.encode(op, operands, scalar, block.chainid, address(this), nonce++));
+        typeOf[result] = resultType;
+        emit FheOperation(result, op, operands, scalar, resultType);
+    }
+}
+
+/**
+ * @dev Accepts a decryption when it is signed by the devnet's KMS key: an EIP-191 signature
+ * over keccak256(abi.encode(handles, cleartexts)).
+ */
+contract MockKMSVerifier {
+    address public immutable kmsSigner;
+
+    constructor(address _kmsSigner) {
+        kmsSigner = _kmsSigner;
+    }
+
+    function verifyDecryptionEIP712KMSSignatures(
+        bytes32[] memory handlesList,
+        bytes memory decryptedResult,
+        bytes memory decryptionProof
+    ) external view returns (bool) {
+        if (decryptionProof.length != 65) return false;
+        bytes32 digest = keccak256(
+            abi.encodePacked("\x19Ethereum Signed Message:\n32", keccak256(abi.encode(handlesList, decryptedResult)))
+        );
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(decryptionProof, 32))
+            s := mload(add(decryptionProof, 64))
+            v := byte(0, mload(add(decryptionProof, 96)))
+        }
+        return ecrecover(digest, v, r, s) == kmsSigner;
+    }
+}
+
+/**
+ * @dev Logs decryption requests; the mock coprocessor answers each one by calling
+ * `callbackSelector` on the requesting contract with the cleartexts and a KMS signature.
+ */
+contract MockDecryptionOracle {
+    event DecryptionRequest(uint256 indexed requestID, address indexed contractAddress, bytes32[] handles, bytes4 callbackSelector);
+
+    function requestDecryption(uint256 requestID, bytes32[] calldata ctsHandles, bytes4 callbackSelector) external payable {
+        emit DecryptionRequest(requestID, msg.sender, ctsHandles, callbackSelector);
+    }
+}
@@ -0,0 +1,135 @@
+import { JsonRpcSigner, ethers } from 'ethers';
+import {
+  AccountRoles,
+  CancelReason,
+  CastVoteOptions,
+  CloseReason,
+  ExtendReason,
+  LiveStatus,
+  Ownership,
+  Proposal,
+  ProposalUpdate,
+  RevealStatus,
+  UserProfile
+} from '@/types/voting';
+import { BallotBinding, BallotEnvelope } from './ballot';
+import { ChainConfig } from './chains';
+import { debugLog } from './debug';
+import { fhevmClient } from './fhevm';
+import type { BatchTransport } from './multicall';
+import type { ProposalPage } from './proposals';
+
+// contract: a deployed contract and a wallet; read-only: the chain's RPC; simulated: in memory
+export type VotingBackendKind = 'contract' | 'read-only' | 'simulated';
+
+/**
+ * Everything the app does with proposals, whatever holds them. VotingContract
+ * picks one implementation at connect time; nothing outside it should need
+ * to know which one is active. Writes throw ContractError for anything the
+ * contract would reject, and plain errors for anything else.
+ */
+export interface VotingBackend {
+  readonly kind: VotingBackendKind;
+  // Null without an account
+  getUserProfile(): Promise<UserProfile | null>;
+  getProposalCount(): Promise<number>;
+  getActiveProposals(): Promise<Proposal[]>;
+  // Newest first, including deactivated proposals; pass nextCursor back for the next page
+  getProposalPage(cursor: number | null, limit: number): Promise<ProposalPage<Proposal>>;
+  createProposal(title: string, description: string, options: string[], durationSeconds: number): Promise<boolean>;
+  castVote(proposalId: number, optionIndex: number, options?: CastVoteOptions): Promise<boolean>;
+  verifyMyVote(proposalId: number): Promise<number>;
+  revealResults(proposalId: number, onStatus?: (status: RevealStatus) => void): Promise<number[]>;
+  // Admin changes before voting ends; cancelling also needs it to have no votes, closing needs it started
+  cancelProposal(proposalId: number, reason: CancelReason): Promise<boolean>;
+  closeProposalEarly(proposalId: number, reason: CloseReason): Promise<boolean>;
+  extendDeadline(proposalId: number, extensionSeconds: number, reason: ExtendReason): Promise<boolean>;
+  getOwnership(): Promise<Ownership>;
+  // Current roles of each address, in the order given; works without a wallet
+  getRoles(addresses: string[]): Promise<AccountRoles[]>;
+  authorizeVoter(voter: string): Promise<boolean>;
+  authorizeVoters(voters: string[]): Promise<boolean>;
+  // Votes already cast by a deauthorized voter still count
+  deauthorizeVoter(voter: string): Promise<boolean>;
+  deauthorizeVoters(voters: string[]): Promise<boolean>;
+  // Owner only; the owner itself cannot be removed as admin
+  addAdmin(admin: string): Promise<boolean>;
+  removeAdmin(admin: string): Promise<boolean>;
+  // Two steps: the owner nominates (ZeroAddress cancels), the nominee accepts
+  transferOwnership(newOwner: string): Promise<boolean>;
+  acceptOwnership(): Promise<boolean>;
+  // Returns an unsubscribe function; backends without events report 'offline'
+  subscribeProposalUpdates(onUpdate: (update: ProposalUpdate) => void, onStatus: (status: LiveStatus) => void): () => void;
+  getReadStats(): { transport: BatchTransport | null; roundTrips: number } | null;
+  // Stops background work such as event indexing; called when the backend is replaced
+  dispose(): void;
+}
+
+// Where a backend runs: the chain, its provider, and the wallet's signer when there is one
+export interface BackendSession {
+  chain: ChainConfig;
+  provider: ethers.Provider | null;
+  signer: ethers.Signer | null;
+}
+
+export const requireSigner = (session: BackendSession): ethers.Signer => {
+  if (!session.signer) throw new Error('Wallet not connected');
+  return session.signer;
+};
+
+// The chain, contract and account a ballot for this proposal must be bound to right now
+export const ballotBinding = async (session: BackendSession, proposalId: number): Promise<BallotBinding> => {
+  const signer = requireSigner(session);
+  const contractAddress = session.chain.votingContractAddress;
+  // A wallet's signer keeps the address it was made with, so ask the wallet itself
+  if (signer instanceof JsonRpcSigner) {
+    const [accounts, chainId]: [string[], string] = await Promise.all([
+      signer.provider.send('eth_accounts', []),
+      signer.provider.send('eth_chainId', [])
+    ]);
+    if (accounts.length === 0) throw new Error('Wallet not connected');
+    return { chainId: Number(chainId), contractAddress, proposalId, voter: accounts[0] };
+  }
+  const network = await session.provider?.getNetwork();
+  return {
+    chainId: network ? Number(network.chainId) : session.chain.chainId,
+    contractAddress,
+    proposalId,
+    voter: await signer.getAddress()
+  };
+};
+
+// Encrypt a one-hot ballot bound to the wallet's current chain and account
+
+export const encryptVote = async (
+  session: BackendSession,
+  proposalId: number,
+  optionIndex: number,
+  optionCount: number,
+  { signal, onProgress }: CastVoteOptions
+): Promise<BallotEnvelope> => {
+  const binding = await ballotBinding(session, proposalId);
+  // optionIndex is the voter's secret: it is only ever passed to encryptBallot
+  const envelope = await fhevmClient.encryptBallot(optionIndex, optionCount, binding, { signal, onProgress });
+  debugLog('Ballot encryption completed', {
+    backend: fhevmClient.getBackend().kind,
+    handleCount: envelope.handles.length,
+    proofLength: envelope.inputProof.length
+  });
+  return envelope;
+};
+
+/**
+ * Check a ballot against where it is about to be sent. The binding is derived
+ * again instead of reusing the one it was encrypted for, because the wallet
+ * can switch account or chain while the ballot is being encrypted.
+ */
+export const verifyBallotForSending = async (session: BackendSession, envelope: BallotEnvelope): Promise<void> => {
+  fhevmClient.verifyBallot(envelope, await ballotBinding(session, envelope.proposalId));
+};
+
+// Decrypt the signer's own one-hot ballot and return the option index
+export const decryptOwnBallot = (session: BackendSession, proposalId: number, handles: string[]): Promise<number> => {
+  debugLog('Verifying own ballot', { proposalId, handleCount: handles.length });
+  return fhevmClient.decryptBallot(handles, session.chain.votingContractAddress, requireSigner(session));
+};
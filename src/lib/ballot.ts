@@ -0,0 +1,67 @@
+import { getAddress } from 'ethers';
+import { EncryptedInput } from './encryption';
+import { PrivacyError } from './errors';
+
+// Bump when the envelope's fields or their meaning change
+export const BALLOT_ENVELOPE_VERSION = 1;
+
+// Where a ballot may be used: one chain, one contract, one proposal, one voter
+export interface BallotBinding {
+  chainId: number;
+  contractAddress: string;
+  proposalId: number;
+  voter: string;
+}
+
+/**
+ * An encrypted ballot together with what it was encrypted for. The handles
+ * and proof are bound to (contract, voter) by the encrypted-input builder; the
+ * envelope adds the chain and proposal so the client can refuse to send a
+ * ballot anywhere else.
+ */
+export interface BallotEnvelope extends BallotBinding, EncryptedInput {
+  version: number;
+}
+
+export const sealBallot = (binding: BallotBinding, input: EncryptedInput): BallotEnvelope => ({
+  version: BALLOT_ENVELOPE_VERSION,
+  chainId: binding.chainId,
+  contractAddress: getAddress(binding.contractAddress),
+  proposalId: binding.proposalId,
+  voter: getAddress(binding.voter),
+  handles: input.handles,
+  inputProof: input.inputProof
+});
+
+/**
+ * Why the envelope must not be submitted for `expected`, or null when it
+ * matches.
+ */
+export const checkBallotBinding = (envelope: BallotEnvelope, expected: BallotBinding): string | null => {
+  if (envelope.version !== BALLOT_ENVELOPE_VERSION) {
+    return `unsupported ballot envelope version ${envelope.version}`;
+  }
+  if (envelope.chainId !== expected.chainId) {
+    return `ballot was encrypted for chain ${envelope.chainId}, not ${expected.chainId}`;
+  }
+  if (getAddress(envelope.contractAddress) !== getAddress(expected.contractAddress)) {
+    return 'ballot was encrypted for a different voting contract';
+  }
+  if (envelope.proposalId !== expected.proposalId) {
+    return `ballot was encrypted for proposal ${envelope.proposalId}, not ${expected.proposalId}`;
+  }
+  if (getAddress(envelope.voter) !== getAddress(expected.voter)) {
+    return 'ballot was encrypted for a different voter';
+  }
+  if (envelope.handles.length === 0 || !envelope.inputProof.length) {
+    return 'ballot has no ciphertexts or no input proof';
+  }
+  return null;
+};
+
+export const assertBallotBinding = (envelope: BallotEnvelope, expected: BallotBinding): void => {
+  const problem = checkBallotBinding(envelope, expected);
+  if (problem) {
+    throw new PrivacyError('BALLOT_MISMATCH', `Ballot not submitted: ${problem}`);
+  }
+};
@@ -0,0 +1,87 @@
+import { BaseContract, Contract, ContractRunner, Interface, Log } from 'ethers';
+import {
+  FHE_VOTING_ABI,
+  FHEVotingEventName,
+  FHEVotingEvents,
+  FHEVotingFunctions,
+  ProposalInfoStruct
+} from '@/contracts/FHEVoting.types';
+import { CancelReason, CloseReason, ExtendReason, Proposal } from '@/types/voting';
+import type { ViewCall } from './multicall';
+
+/**
+ * Typed view of the voting contract. Signatures come from the generated
+ * FHEVoting.types.ts, so regenerating after an ABI change surfaces every
+ * call site that no longer matches.
+ */
+export type FHEVotingContract = BaseContract & FHEVotingFunctions;
+
+export const votingInterface = new Interface(FHE_VOTING_ABI);
+
+// What a voting contract view returns once awaited, e.g. VotingViewResult<'hasVoted'> is boolean
+export type VotingViewResult<Method extends keyof FHEVotingFunctions> =
+  Awaited<ReturnType<FHEVotingFunctions[Method]>>;
+
+// A typed view call for ReadBatcher
+export const votingCall = <Method extends keyof FHEVotingFunctions>(
+  target: string,
+  method: Method,
+  ...args: Parameters<FHEVotingFunctions[Method]>
+): ViewCall => ({ target, iface: votingInterface, method, args });
+
+export const connectVotingContract = (address: string, runner: ContractRunner): FHEVotingContract =>
+  new Contract(address, votingInterface, runner) as unknown as FHEVotingContract;
+
+// A decoded log from the voting contract, discriminated by event name
+export type FHEVotingEvent = {
+  [Name in FHEVotingEventName]: { name: Name; args: FHEVotingEvents[Name]; log: Log };
+}[FHEVotingEventName];
+
+// ethers Results are proxied arrays; plain copies can be stored in IndexedDB
+const toPlain = (value: unknown): unknown =>
+  Array.isArray(value) ? Array.from(value, toPlain) : value;
+
+// Null for logs that are not voting contract events
+export const parseVotingLog = (log: Log): FHEVotingEvent | null => {
+  const parsed = votingInterface.parseLog(log);
+  if (!parsed) return null;
+  const args = Object.fromEntries(
+    Object.entries(parsed.args.toObject()).map(([key, value]) => [key, toPlain(value)])
+  );
+  return { name: parsed.name, args, log } as FHEVotingEvent;
+};
+
+// Everything in a Proposal that is stored on-chain; hasVoted depends on who is asking
+export type OnChainProposal = Omit<Proposal, 'hasVoted'>;
+
+/**
+ * ProposalInfo as returned by the contract -> Proposal. The `satisfies` makes
+ * tsc fail when a field is added to or removed from either side without
+ * updating this mapping.
+ */
+export const decodeProposal = (info: ProposalInfoStruct): OnChainProposal => ({
+  id: Number(info.id),
+  title: info.title,
+  description: info.description,
+  options: [...info.options],
+  startTime: Number(info.startTime) * 1000, // Convert to milliseconds
+  endTime: Number(info.endTime) * 1000,
+  totalVotes: Number(info.totalVotes),
+  creator: info.creator,
+  active: info.active,
+  resultsRevealed: info.resultsRevealed,
+  revealedResults: info.revealedResults.map(Number),
+  decryptionPending: info.decryptionPending,
+  cancelled: info.cancelled,
+  closedEarly: info.closedEarly,
+  extended: info.extended
+} satisfies Record<keyof ProposalInfoStruct, unknown>);
+
+// The contract's CancelReason, CloseReason and ExtendReason enums; a reason's index is its value
+export const CANCEL_REASONS: readonly CancelReason[] = ['created-in-error', 'duplicate', 'superseded', 'other'];
+export const CLOSE_REASONS: readonly CloseReason[] = ['decided', 'emergency', 'compromised', 'other'];
+export const EXTEND_REASONS: readonly ExtendReason[] = ['low-turnout', 'community-request', 'technical-issue', 'other'];
+
+// Unknown values (a newer contract) read as 'other'
+export const decodeReason = <Reason extends string>(reasons: readonly Reason[], value: bigint): Reason =>
+  reasons[Number(value)] ?? reasons[reasons.length - 1];
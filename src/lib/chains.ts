@@ -0,0 +1,106 @@
+import { MULTICALL3_ADDRESS } from './multicall';
+
+export interface ZamaAddresses {
+  aclAddress: string;
+  kmsVerifierAddress: string;
+  inputVerifierAddress: string;
+  executorAddress: string;
+  oracleAddress: string;
+}
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  blockExplorer: string | null;
+  faucet: string | null;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  zama: ZamaAddresses;
+  gateways: string[];
+  votingContractAddress: string;
+  // First block the event indexer scans; 0 (unset) leaves the indexer off
+  deploymentBlock: number;
+  // Blocks after which indexed events are treated as final (reorg depth)
+  confirmations: number;
+  // Multicall3 for batched reads; null falls back to JSON-RPC batches
+  multicall3Address: string | null;
+  // Who evaluates FHE operations: Zama's coprocessor, or the devnet's mock (scripts/devnet-coprocessor.mjs)
+  coprocessor: 'zama' | 'mock';
+}
+
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const env = import.meta.env;
+
+// Network configuration untuk Sepolia dengan Zama FHEVM
+const SEPOLIA: ChainConfig = {
+  chainId: 11155111,
+  name: 'Sepolia Testnet (Zama FHEVM)',
+  rpcUrls: [env.VITE_SEPOLIA_RPC_URL || 'https://sepolia.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161'],
+  blockExplorer: 'https://sepolia.etherscan.io',
+  faucet: 'https://sepoliafaucet.com',
+  nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+  zama: {
+    aclAddress: env.VITE_ZAMA_ACL_ADDRESS || '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+    kmsVerifierAddress: env.VITE_ZAMA_KMS_VERIFIER_ADDRESS || '0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC',
+    inputVerifierAddress: env.VITE_ZAMA_INPUT_VERIFIER_ADDRESS || '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+    executorAddress: env.VITE_ZAMA_EXECUTOR_ADDRESS || '0xCD3ab3bd6bcc0c0bf3E27912a92043e817B1cf69',
+    oracleAddress: env.VITE_ZAMA_ORACLE_ADDRESS || '0xa02Cda4Ca3a71D7C46997716F4283aa851C28812',
+  },
+  gateways: [
+    env.VITE_ZAMA_GATEWAY_PRIMARY || 'https://gateway.sepolia.zama.ai',
+    env.VITE_ZAMA_GATEWAY_FALLBACK || 'https://fhevm-gateway.zama.ai',
+    env.VITE_ZAMA_GATEWAY_BACKUP || 'https://api.zama.ai/fhevm'
+  ],
+  // Contract address - MUST be updated with actual deployed contract
+  votingContractAddress: env.VITE_CONTRACT_ADDRESS || ZERO_ADDRESS,
+  deploymentBlock: Number(env.VITE_CONTRACT_DEPLOYMENT_BLOCK || 0),
+  confirmations: 6,
+  multicall3Address: MULTICALL3_ADDRESS,
+  coprocessor: 'zama',
+};
+
+// Local FHE devnet (anvil / hardhat node with src/contracts/devnet deployed)
+const LOCAL_DEVNET: ChainConfig = {
+  chainId: Number(env.VITE_LOCAL_CHAIN_ID || 31337),
+  name: 'Local FHE Devnet',
+  rpcUrls: [env.VITE_LOCAL_RPC_URL || 'http://127.0.0.1:8545'],
+  blockExplorer: null,
+  faucet: null,
+  nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+  zama: {
+    aclAddress: env.VITE_LOCAL_ACL_ADDRESS || ZERO_ADDRESS,
+    kmsVerifierAddress: env.VITE_LOCAL_KMS_VERIFIER_ADDRESS || ZERO_ADDRESS,
+    inputVerifierAddress: env.VITE_LOCAL_INPUT_VERIFIER_ADDRESS || ZERO_ADDRESS,
+    executorAddress: env.VITE_LOCAL_EXECUTOR_ADDRESS || ZERO_ADDRESS,
+    oracleAddress: env.VITE_LOCAL_ORACLE_ADDRESS || ZERO_ADDRESS,
+  },
+  gateways: env.VITE_LOCAL_GATEWAY_URL ? [env.VITE_LOCAL_GATEWAY_URL] : [],
+  votingContractAddress: env.VITE_LOCAL_CONTRACT_ADDRESS || ZERO_ADDRESS,
+  deploymentBlock: Number(env.VITE_LOCAL_CONTRACT_DEPLOYMENT_BLOCK || 0),
+  confirmations: 0,
+  multicall3Address: env.VITE_LOCAL_MULTICALL3_ADDRESS || null,
+  coprocessor: 'mock',
+};
+
+/**
+ * Every network the app can talk to. Add an entry here to support a new one;
+ * nothing else in the app should hardcode chain ids or Zama addresses.
+ */
+export const CHAINS: ChainConfig[] = [SEPOLIA, LOCAL_DEVNET];
+
+export const DEFAULT_CHAIN: ChainConfig =
+  CHAINS.find(chain => chain.chainId === Number(env.VITE_DEFAULT_CHAIN_ID)) ?? SEPOLIA;
+
+export const getChain = (chainId: number): ChainConfig | null =>
+  CHAINS.find(chain => chain.chainId === chainId) ?? null;
+
+export const isSupportedChain = (chainId: number): boolean => getChain(chainId) !== null;
+
+export const hasDeployedContract = (chain: ChainConfig): boolean =>
+  chain.votingContractAddress !== ZERO_ADDRESS;
+
+// Backfilling from genesis would take thousands of getLogs calls, so the indexer needs a real deployment block
+export const hasIndexableHistory = (chain: ChainConfig): boolean => chain.deploymentBlock > 0;
+
+export const toHexChainId = (chainId: number): string => `0x${chainId.toString(16)}`;
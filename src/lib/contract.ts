@@ -1,144 +1,125 @@
 import { ethers } from 'ethers';
-import { Proposal, UserProfile } from '@/types/voting';
+import {
+  AccountRoles,
+  CancelReason,
+  CastVoteOptions,
+  CloseReason,
+  ExtendReason,
+  LiveStatus,
+  Ownership,
+  Proposal,
+  ProposalUpdate,
+  RevealStatus,
+  UserProfile,
+  WalletChange
+} from '@/types/voting';
 import { fhevmClient, debugLog } from './fhevm';
-
-// Simplified ABI for testing - matches the actual deployed contract
-const VOTING_CONTRACT_ABI = [
-  // Read functions
-  "function proposalCount() view returns (uint256)",
-  "function owner() view returns (address)",
-  "function isAuthorizedVoter(address voter) view returns (bool)",
-  "function isAdmin(address admin) view returns (bool)",
-  "function hasVoted(uint256 proposalId, address voter) view returns (bool)",
-  "function getProposal(uint256 proposalId) view returns (tuple(uint256 id, string title, string description, string[] options, uint256 startTime, uint256 endTime, uint256 totalVotes, address creator, bool active, bool resultsRevealed, uint256[] revealedResults))",
-  "function getActiveProposals() view returns (tuple(uint256 id, string title, string description, string[] options, uint256 startTime, uint256 endTime, uint256 totalVotes, address creator, bool active, bool resultsRevealed, uint256[] revealedResults)[])",
-  
-  // Write functions
-  "function authorizeVoter(address voter)",
-  "function authorizeVoters(address[] voters)",
-  "function createProposal(string title, string description, string[] options, uint256 duration) returns (uint256)",
-  "function castVote(uint256 proposalId, uint256 optionIndex, uint256 encryptedVote, bytes inputProof)",
-  "function setResults(uint256 proposalId, uint256[] results)",
-  
-  // Events
-  "event ProposalCreated(uint256 indexed proposalId, string title, address indexed creator, uint256 startTime, uint256 endTime)",
-  "event VoteCast(uint256 indexed proposalId, address indexed voter, uint256 totalVotes)",
-  "event ResultsRevealed(uint256 indexed proposalId, uint256[] results)"
-];
-
-// Network configuration untuk Sepolia dengan Zama FHEVM
-const SEPOLIA_CONFIG = {
-  chainId: 11155111,
-  name: 'Sepolia Testnet (Zama FHEVM)',
-  rpcUrl: import.meta.env.VITE_SEPOLIA_RPC_URL || 'https://sepolia.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-  blockExplorer: 'https://sepolia.etherscan.io',
-  faucet: 'https://sepoliafaucet.com',
-  zamaOracle: import.meta.env.VITE_ZAMA_ORACLE_ADDRESS || '0xa02Cda4Ca3a71D7C46997716F4283aa851C28812'
-};
-
-// Contract address - MUST be updated with actual deployed contract
-const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "0x0000000000000000000000000000000000000000";
-
-// Mock proposals for simulation mode
-const MOCK_PROPOSALS: Proposal[] = [
-  {
-    id: 0,
-    title: "Increase DAO Treasury Allocation",
-    description: "This proposal suggests increasing the DAO treasury allocation by 10% to fund more community initiatives and development projects. The additional funds would be used for grants, partnerships, and infrastructure improvements.",
-    options: ["Yes, increase by 10%", "No, keep current allocation", "Increase by 5% only", "Decrease by 5%"],
-    startTime: Date.now() - 3600000, // 1 hour ago
-    endTime: Date.now() + 86400000, // 24 hours from now
-    totalVotes: 12,
-    creator: "0x1234567890123456789012345678901234567890",
-    active: true,
-    resultsRevealed: false,
-    revealedResults: [],
-    hasVoted: false
-  },
-  {
-    id: 1,
-    title: "Implement New Governance Token Staking",
-    description: "Proposal to implement a new staking mechanism for governance tokens that would provide additional voting power and rewards for long-term holders. This would encourage more active participation in DAO governance.",
-    options: ["Implement with 2x voting power", "Implement with 1.5x voting power", "No staking mechanism", "Different reward structure"],
-    startTime: Date.now() + 3600000, // 1 hour from now
-    endTime: Date.now() + 172800000, // 48 hours from now
-    totalVotes: 0,
-    creator: "0x1234567890123456789012345678901234567890",
-    active: true,
-    resultsRevealed: false,
-    revealedResults: [],
-    hasVoted: false
-  },
-  {
-    id: 2,
-    title: "Partnership with DeFi Protocol",
-    description: "Vote on whether the DAO should enter into a strategic partnership with a major DeFi protocol to expand our ecosystem and provide more utility for token holders.",
-    options: ["Approve partnership", "Reject partnership", "Request more details", "Negotiate better terms"],
-    startTime: Date.now() - 172800000, // 48 hours ago
-    endTime: Date.now() - 3600000, // 1 hour ago (ended)
-    totalVotes: 45,
-    creator: "0x1234567890123456789012345678901234567890",
-    active: true,
-    resultsRevealed: true,
-    revealedResults: [28, 12, 3, 2],
-    hasVoted: true
-  }
-];
-
+import type { GatewayStatus } from './gateway';
+import { VotingBackend } from './backend';
+import { ContractVotingBackend, ReadOnlyVotingBackend } from './contractBackend';
+import { describeError } from './debug';
+import type { ProposalPage } from './proposals';
+import { SimulatedVotingBackend } from './simulation';
+import { TrackedTransaction, TransactionManager } from './transactions';
+import { EIP1193Provider, walletDiscovery } from './wallets';
+import {
+  CHAINS,
+  ChainConfig,
+  DEFAULT_CHAIN,
+  getChain,
+  hasDeployedContract,
+  toHexChainId
+} from './chains';
+
+// Proposals per archive page
+const PAGE_SIZE = 20;
+
+/**
+ * The app's connection: wallet, chain, and the VotingBackend chosen for
+ * them (the live contract, its RPC without a wallet, or the simulation).
+ * Proposal reads and writes are forwarded to that backend.
+ */
 export class VotingContract {
-  private contract: ethers.Contract | null = null;
-  private provider: ethers.BrowserProvider | null = null;
+  private backend: VotingBackend | null = null;
+  // A BrowserProvider with a wallet, or a JsonRpcProvider when browsing read-only
+  private provider: ethers.Provider | null = null;
   private signer: ethers.Signer | null = null;
+  // The injected wallet behind provider and signer; kept in read-only mode after an unsupported network
+  private wallet: EIP1193Provider | null = null;
+  private stopWatchingWallet: (() => void) | null = null;
+  private readonly walletListeners = new Set<(change: WalletChange) => void>();
+  private walletQueue: Promise<void> = Promise.resolve();
   private isFHEVMEnabled: boolean = false;
-  private isSimulationMode: boolean = false;
-
-  async connect(): Promise<boolean> {
+  private chain: ChainConfig = DEFAULT_CHAIN;
+  private pendingReveals = new Set<number>();
+  private readonly transactions = new TransactionManager();
+
+  /**
+   * Connect through `wallet`, or the wallet discovery prefers (the one the
+   * user picked last time, or the only one installed).
+   */
+  async connect(wallet?: EIP1193Provider): Promise<boolean> {
     try {
       debugLog('Starting wallet connection...');
       
-      if (!window.ethereum) {
-        throw new Error('MetaMask tidak ditemukan. Silakan install MetaMask terlebih dahulu.');
+      const injected = wallet ?? walletDiscovery.getPreferred()?.provider;
+      if (!injected) {
+        throw new Error('Wallet tidak ditemukan. Silakan install wallet browser terlebih dahulu.');
+      }
+      if (injected !== this.wallet) {
+        this.watchWallet(injected);
       }
+      this.wallet = injected;
+
+      let provider = new ethers.BrowserProvider(injected);
+      this.provider = provider;
+      
+      // Pick the registry entry for the wallet's network
+      const network = await provider.getNetwork();
+      const chainId = Number(network.chainId);
+      debugLog('Wallet network detected', { chainId, name: network.name });
+      
+      let chain = getChain(chainId);
+      if (!chain) {
+        if (hasDeployedContract(DEFAULT_CHAIN)) {
+          debugLog('Unsupported network, offering switch to default chain...', { chainId, target: DEFAULT_CHAIN.chainId });
+          await this.switchChain(DEFAULT_CHAIN);
+          // BrowserProvider pins the network it first saw, so start over on the new one
+          provider = new ethers.BrowserProvider(injected);
+          this.provider = provider;
+        }
+        chain = DEFAULT_CHAIN;
+      }
+      this.chain = chain;
 
       // Check if contract address is set
-      if (CONTRACT_ADDRESS === "0x0000000000000000000000000000000000000000") {
-        debugLog('⚠️ Contract address not set, using simulation mode');
-        this.isSimulationMode = true;
+      if (!hasDeployedContract(chain)) {
+        debugLog('⚠️ Contract address not set for this chain, using simulation mode', { chainId: chain.chainId });
         return this.initSimulationMode();
       }
-
-      this.provider = new ethers.BrowserProvider(window.ethereum);
       
       // Request account access
       debugLog('Requesting account access...');
-      await this.provider.send("eth_requestAccounts", []);
-      
-      // Check network
-      const network = await this.provider.getNetwork();
-      const chainId = Number(network.chainId);
-      
-      debugLog('Connected to network', { chainId, name: network.name });
+      await provider.send("eth_requestAccounts", []);
       
-      if (chainId !== SEPOLIA_CONFIG.chainId) {
-        debugLog('Wrong network detected, switching to Sepolia...');
-        await this.switchToSepolia();
-      }
-
-      this.signer = await this.provider.getSigner();
+      this.signer = await provider.getSigner();
       const userAddress = await this.signer.getAddress();
       debugLog('Signer obtained', { address: userAddress });
       
-      this.contract = new ethers.Contract(CONTRACT_ADDRESS, VOTING_CONTRACT_ABI, this.signer);
-      debugLog('Contract instance created', { address: CONTRACT_ADDRESS });
+      const backend = new ContractVotingBackend(chain, provider, this.signer, this.transactions);
+      this.useBackend(backend);
+      debugLog('Contract instance created', { address: chain.votingContractAddress, chainId: chain.chainId });
       
       // Initialize FHEVM client untuk encryption
       try {
         debugLog('Initializing FHEVM client...');
-        await fhevmClient.init(this.provider);
-        this.isFHEVMEnabled = fhevmClient.isInitialized() && !fhevmClient.isSimulationMode();
+        await fhevmClient.init(provider, { chain });
+        this.isFHEVMEnabled = fhevmClient.canEncrypt();
         
         if (this.isFHEVMEnabled) {
           debugLog('✅ FHEVM client initialized successfully');
+        } else if (fhevmClient.isStrictPrivacy()) {
+          debugLog('⚠️ FHEVM unavailable, strict privacy will refuse to submit votes');
         } else {
           debugLog('⚠️ FHEVM client running in simulation mode');
         }
@@ -152,15 +133,14 @@ export class VotingContract {
       // Test contract connection
       try {
         debugLog('Testing contract connection...');
-        const proposalCount = await this.contract.proposalCount();
-        debugLog('✅ Contract connection successful', { proposalCount: proposalCount.toString() });
+        const proposalCount = await backend.getProposalCount();
+        debugLog('✅ Contract connection successful', { proposalCount });
       } catch (error) {
         debugLog('❌ Contract connection failed:', error);
         
         // Check if it's a contract not deployed error
-        if (error.message.includes('could not decode result data')) {
+        if (describeError(error).includes('could not decode result data')) {
           debugLog('⚠️ Contract not deployed at address, switching to simulation mode');
-          this.isSimulationMode = true;
           return this.initSimulationMode();
         }
         
@@ -174,17 +154,152 @@ export class VotingContract {
     }
   }
 
+  /**
+   * Browse proposals and results without a wallet, through the chain's own
+   * RPC endpoint. Nothing can be signed; connect() later upgrades the same
+   * instance to a signing session.
+   */
+  async connectReadOnly(chain: ChainConfig = DEFAULT_CHAIN): Promise<boolean> {
+    this.disconnect();
+    return this.enterReadOnly(chain);
+  }
+
+  // Forget the wallet and its account; reads keep working until the next connect
+  disconnect(): void {
+    this.stopWatchingWallet?.();
+    this.stopWatchingWallet = null;
+    this.wallet = null;
+    this.signer = null;
+  }
+
+  // Replaces the backend, stopping the old one's background indexing
+  private useBackend(backend: VotingBackend): void {
+    this.backend?.dispose();
+    this.backend = backend;
+  }
+
+  // Drop the signer but keep watching the wallet, so switching back reconnects
+  private async enterReadOnly(chain: ChainConfig): Promise<boolean> {
+    debugLog('Starting read-only session...', { chainId: chain.chainId });
+    this.chain = chain;
+    this.signer = null;
+    this.isFHEVMEnabled = false;
+
+    if (!hasDeployedContract(chain)) {
+      debugLog('⚠️ Contract address not set for this chain, browsing simulated proposals', { chainId: chain.chainId });
+      this.provider = null;
+      this.useBackend(new SimulatedVotingBackend({ chain, provider: null, signer: null }));
+      return true;
+    }
+
+    const provider = new ethers.JsonRpcProvider(chain.rpcUrls[0], chain.chainId, { staticNetwork: true });
+    this.provider = provider;
+    const backend = new ReadOnlyVotingBackend(chain, provider);
+    this.useBackend(backend);
+
+    try {
+      const proposalCount = await backend.getProposalCount();
+      debugLog('✅ Read-only connection successful', { proposalCount });
+      return true;
+    } catch (error) {
+      debugLog('❌ Read-only connection failed:', error);
+      throw new Error(`Could not reach the voting contract on ${chain.name}.`);
+    }
+  }
+
+  /**
+   * Account and network changes made in the wallet after connecting. The
+   * signer, contract and FHE instance are rebuilt before listeners hear about
+   * it; an unknown network drops to read-only on the default chain.
+   */
+  subscribeWalletChanges(listener: (change: WalletChange) => void): () => void {
+    this.walletListeners.add(listener);
+    return () => {
+      this.walletListeners.delete(listener);
+    };
+  }
+
+  // Ask the wallet to move to the default chain; its chainChanged event reconnects
+  async switchToDefaultChain(): Promise<void> {
+    await this.switchChain(DEFAULT_CHAIN);
+  }
+
+  private watchWallet(wallet: EIP1193Provider): void {
+    this.stopWatchingWallet?.();
+    // Handle one change at a time; each rebuild awaits the wallet
+    const queue = (handle: () => Promise<WalletChange | null>) => {
+      this.walletQueue = this.walletQueue
+        .then(handle)
+        .then(change => {
+          if (change) this.walletListeners.forEach(listener => listener(change));
+        })
+        .catch(error => debugLog('⚠️ Could not apply wallet change', error));
+    };
+    const onAccountsChanged = (accounts: unknown) => queue(() => this.applyAccountsChanged(accounts as string[]));
+    const onChainChanged = (chainId: unknown) => queue(() => this.applyChainChanged(Number(chainId)));
+
+    wallet.on?.('accountsChanged', onAccountsChanged);
+    wallet.on?.('chainChanged', onChainChanged);
+    this.stopWatchingWallet = () => {
+      wallet.removeListener?.('accountsChanged', onAccountsChanged);
+      wallet.removeListener?.('chainChanged', onChainChanged);
+    };
+  }
+
+  private async applyAccountsChanged(accounts: string[]): Promise<WalletChange | null> {
+    if (!this.wallet) return null;
+    debugLog('Wallet accounts changed', { accounts });
+
+    if (accounts.length === 0) {
+      // Locked, or this site was disconnected in the wallet
+      await this.enterReadOnly(this.chain);
+      return { type: 'disconnected' };
+    }
+    const address = ethers.getAddress(accounts[0]);
+    if (this.signer && await this.signer.getAddress() === address) return null;
+
+    return this.reconnect({ type: 'account', address });
+  }
+
+  private async applyChainChanged(chainId: number): Promise<WalletChange | null> {
+    if (!this.wallet) return null;
+    debugLog('Wallet network changed', { chainId });
+    // connect() may have switched the network itself
+    if (this.signer && chainId === this.chain.chainId) return null;
+
+    const chain = getChain(chainId);
+    if (!chain) {
+      await this.enterReadOnly(DEFAULT_CHAIN);
+      return { type: 'unsupported-chain', chainId };
+    }
+    return this.reconnect({ type: 'chain', chainId, name: chain.name });
+  }
+
+  // A fresh signer, contract and FHE instance for the wallet's current account and network
+  private async reconnect(change: WalletChange): Promise<WalletChange> {
+    try {
+      await this.connect(this.wallet!);
+      return change;
+    } catch (error) {
+      debugLog('❌ Reconnecting after a wallet change failed:', error);
+      await this.enterReadOnly(this.chain);
+      return { type: 'disconnected' };
+    }
+  }
+
   private async initSimulationMode(): Promise<boolean> {
     debugLog('🔧 Initializing simulation mode...');
     
     try {
       // Create a mock provider for simulation
-      this.provider = new ethers.BrowserProvider(window.ethereum);
-      await this.provider.send("eth_requestAccounts", []);
-      this.signer = await this.provider.getSigner();
+      const provider = new ethers.BrowserProvider(this.wallet!);
+      this.provider = provider;
+      await provider.send("eth_requestAccounts", []);
+      this.signer = await provider.getSigner();
       
       // Initialize FHEVM in simulation mode
-      await fhevmClient.init(this.provider);
+      await fhevmClient.init(provider, { simulation: true, chain: this.chain });
+      this.useBackend(new SimulatedVotingBackend({ chain: this.chain, provider, signer: this.signer }));
       
       debugLog('✅ Simulation mode initialized successfully');
       return true;
@@ -194,167 +309,61 @@ export class VotingContract {
     }
   }
 
-  async switchToSepolia(): Promise<void> {
-    if (!window.ethereum) return;
+  async switchChain(chain: ChainConfig): Promise<void> {
+    if (!this.wallet) return;
 
     try {
-      debugLog('Attempting to switch to Sepolia...');
+      debugLog(`Attempting to switch to ${chain.name}...`);
       
-      await window.ethereum.request({
+      await this.wallet.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: `0x${SEPOLIA_CONFIG.chainId.toString(16)}` }],
+        params: [{ chainId: toHexChainId(chain.chainId) }],
       });
       
-      debugLog('✅ Successfully switched to Sepolia');
+      debugLog(`✅ Successfully switched to ${chain.name}`);
     } catch (switchError: any) {
       debugLog('Switch failed, attempting to add network...', switchError);
       
       // Network belum ditambahkan ke MetaMask
       if (switchError.code === 4902) {
         try {
-          await window.ethereum.request({
+          await this.wallet.request({
             method: 'wallet_addEthereumChain',
             params: [
               {
-                chainId: `0x${SEPOLIA_CONFIG.chainId.toString(16)}`,
-                chainName: SEPOLIA_CONFIG.name,
-                rpcUrls: [SEPOLIA_CONFIG.rpcUrl],
-                blockExplorerUrls: [SEPOLIA_CONFIG.blockExplorer],
-                nativeCurrency: {
-                  name: 'ETH',
-                  symbol: 'ETH',
-                  decimals: 18,
-                },
+                chainId: toHexChainId(chain.chainId),
+                chainName: chain.name,
+                rpcUrls: chain.rpcUrls,
+                blockExplorerUrls: chain.blockExplorer ? [chain.blockExplorer] : undefined,
+                nativeCurrency: chain.nativeCurrency,
               },
             ],
           });
-          debugLog('✅ Successfully added and switched to Sepolia');
+          debugLog(`✅ Successfully added and switched to ${chain.name}`);
         } catch (addError) {
           debugLog('❌ Failed to add network:', addError);
-          throw new Error(`Gagal menambahkan jaringan ${SEPOLIA_CONFIG.name} ke MetaMask`);
+          throw new Error(`Gagal menambahkan jaringan ${chain.name} ke MetaMask`);
         }
       } else {
-        throw new Error(`Gagal beralih ke jaringan ${SEPOLIA_CONFIG.name}`);
+        throw new Error(`Gagal beralih ke jaringan ${chain.name}`);
       }
     }
   }
 
   async getUserProfile(): Promise<UserProfile | null> {
-    if (!this.signer) return null;
-
-    try {
-      debugLog('Getting user profile...');
-      
-      const address = await this.signer.getAddress();
-      debugLog('User address', { address });
-      
-      if (this.isSimulationMode) {
-        // Return mock profile for simulation
-        const profile = {
-          address,
-          isAuthorized: true,
-          isAdmin: true,
-          votedProposals: [2] // User has voted on proposal 2
-        };
-        debugLog('Simulation mode: returning mock profile', profile);
-        return profile;
-      }
-
-      const [isAuthorized, isAdmin] = await Promise.all([
-        this.contract!.isAuthorizedVoter(address),
-        this.contract!.isAdmin(address)
-      ]);
-
-      debugLog('User permissions', { isAuthorized, isAdmin });
-
-      // Get voted proposals
-      const proposalCount = await this.contract!.proposalCount();
-      const votedProposals: number[] = [];
-
-      debugLog('Checking voted proposals', { totalProposals: proposalCount.toString() });
-
-      for (let i = 0; i < proposalCount; i++) {
-        try {
-          const hasVoted = await this.contract!.hasVoted(i, address);
-          if (hasVoted) {
-            votedProposals.push(i);
-          }
-        } catch (error) {
-          debugLog(`Error checking vote status for proposal ${i}:`, error);
-        }
-      }
-
-      const profile = {
-        address,
-        isAuthorized,
-        isAdmin,
-        votedProposals
-      };
-
-      debugLog('User profile created', profile);
-      return profile;
-    } catch (error) {
-      debugLog('❌ Failed to get user profile:', error);
-      return null;
-    }
+    return this.backend ? this.backend.getUserProfile() : null;
   }
 
   async getActiveProposals(): Promise<Proposal[]> {
-    if (this.isSimulationMode) {
-      // Return mock proposals for simulation with user vote status
-      const userAddress = this.signer ? await this.signer.getAddress() : null;
-      const mockProposals = MOCK_PROPOSALS.map(proposal => ({
-        ...proposal,
-        hasVoted: proposal.id === 2 // User has voted on proposal 2
-      }));
-      
-      debugLog('Simulation mode: returning mock proposals', mockProposals);
-      return mockProposals;
-    }
-
-    if (!this.contract) return [];
-
-    try {
-      debugLog('Fetching active proposals...');
-      
-      const proposalsData = await this.contract.getActiveProposals();
-      const userAddress = this.signer ? await this.signer.getAddress() : null;
-
-      const proposals: Proposal[] = [];
-
-      for (const proposalData of proposalsData) {
-        let hasVoted = false;
-        
-        if (userAddress) {
-          try {
-            hasVoted = await this.contract.hasVoted(proposalData.id, userAddress);
-          } catch (error) {
-            debugLog(`Error checking vote status for proposal ${proposalData.id}:`, error);
-          }
-        }
-
-        proposals.push({
-          id: Number(proposalData.id),
-          title: proposalData.title,
-          description: proposalData.description,
-          options: proposalData.options,
-          startTime: Number(proposalData.startTime) * 1000, // Convert to milliseconds
-          endTime: Number(proposalData.endTime) * 1000,
-          totalVotes: Number(proposalData.totalVotes),
-          creator: proposalData.creator,
-          active: proposalData.active,
-          resultsRevealed: proposalData.resultsRevealed,
-          revealedResults: proposalData.revealedResults.map((r: any) => Number(r)),
-          hasVoted
-        });
-      }
+    return this.backend ? this.backend.getActiveProposals() : [];
+  }
 
-      debugLog('Active proposals fetched', { count: proposals.length });
-      return proposals;
-    } catch (error) {
-      debugLog('❌ Failed to get proposals:', error);
-      return [];
-    }
+  /**
+   * One page of every proposal ever created, newest first, including
+   * deactivated ones. Pass the returned nextCursor to load the next page.
+   */
+  async getProposalPage(cursor: number | null = null, limit: number = PAGE_SIZE): Promise<ProposalPage<Proposal>> {
+    return this.backend ? this.backend.getProposalPage(cursor, limit) : { proposals: [], nextCursor: null };
   }
 
   async createProposal(
@@ -363,241 +372,116 @@ export class VotingContract {
     options: string[],
     duration: number
   ): Promise<boolean> {
-    if (this.isSimulationMode) {
-      debugLog('🔧 Simulation mode: creating proposal', { title, description, options, duration });
-      // Simulate successful creation
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Add new proposal to mock data
-      const newProposal: Proposal = {
-        id: MOCK_PROPOSALS.length,
-        title,
-        description,
-        options,
-        startTime: Date.now(),
-        endTime: Date.now() + (duration * 60 * 60 * 1000), // Convert hours to milliseconds
-        totalVotes: 0,
-        creator: await this.signer?.getAddress() || "0x0000000000000000000000000000000000000000",
-        active: true,
-        resultsRevealed: false,
-        revealedResults: [],
-        hasVoted: false
-      };
-      
-      MOCK_PROPOSALS.push(newProposal);
-      debugLog('Mock proposal added', newProposal);
-      
-      return true;
-    }
+    return this.backend ? this.backend.createProposal(title, description, options, duration) : false;
+  }
 
-    if (!this.contract) return false;
+  async castVote(proposalId: number, optionIndex: number, options: CastVoteOptions = {}): Promise<boolean> {
+    // optionIndex is the voter's secret: backends only ever pass it to encryptBallot
+    return this.backend ? this.backend.castVote(proposalId, optionIndex, options) : false;
+  }
+
+  /**
+   * Decrypt the connected voter's own ballot for a proposal and return the
+   * option index. Requires the voter's signature; nobody else can do this.
+   */
+  async verifyMyVote(proposalId: number): Promise<number> {
+    if (!this.backend) throw new Error('Contract not connected');
+    return this.backend.verifyMyVote(proposalId);
+  }
 
+  /**
+   * Reveal a proposal's results: ask the decryption oracle to decrypt the
+   * encrypted tallies, then wait for its answer. Decryption is asynchronous,
+   * so progress is reported through onStatus.
+   */
+  async revealResults(
+    proposalId: number,
+    onStatus?: (status: RevealStatus) => void
+  ): Promise<number[]> {
+    if (!this.backend) throw new Error('Contract not connected');
     try {
-      debugLog('Creating proposal', { title, description, options, duration });
-      
-      const tx = await this.contract.createProposal(title, description, options, duration);
-      debugLog('Transaction sent', { hash: tx.hash });
-      
-      const receipt = await tx.wait();
-      debugLog('Transaction confirmed', { 
-        status: receipt.status, 
-        gasUsed: receipt.gasUsed?.toString() 
+      return await this.backend.revealResults(proposalId, status => {
+        if (status === 'requested') this.pendingReveals.add(proposalId);
+        onStatus?.(status);
       });
-      
-      return receipt.status === 1;
-    } catch (error) {
-      debugLog('❌ Failed to create proposal:', error);
-      throw error;
+    } finally {
+      this.pendingReveals.delete(proposalId);
     }
   }
 
-  async castVote(proposalId: number, optionIndex: number): Promise<boolean> {
-    if (this.isSimulationMode) {
-      debugLog('🔧 Simulation mode: casting vote', { proposalId, optionIndex });
-      // Simulate vote casting with encryption
-      const { encryptedVote, proof } = await fhevmClient.encryptVote(1);
-      debugLog('Simulated encrypted vote', { 
-        encryptedVoteLength: encryptedVote.length,
-        proofLength: proof.length 
-      });
-      
-      // Update mock proposal
-      const proposal = MOCK_PROPOSALS.find(p => p.id === proposalId);
-      if (proposal) {
-        proposal.hasVoted = true;
-        proposal.totalVotes++;
-      }
-      
-      // Simulate transaction delay
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      return true;
-    }
+  isRevealPending(proposalId: number): boolean {
+    return this.pendingReveals.has(proposalId);
+  }
 
-    if (!this.contract) return false;
+  async cancelProposal(proposalId: number, reason: CancelReason): Promise<boolean> {
+    return this.backend ? this.backend.cancelProposal(proposalId, reason) : false;
+  }
 
-    try {
-      debugLog('Casting vote', { proposalId, optionIndex, fhevmEnabled: this.isFHEVMEnabled });
-      
-      let tx;
-      
-      if (this.isFHEVMEnabled && fhevmClient.isInitialized()) {
-        // Gunakan FHE encryption untuk privacy sesungguhnya
-        debugLog('🔐 Using FHE encryption for vote...');
-        
-        try {
-          const { encryptedVote, proof } = await fhevmClient.encryptVote(1); // Vote value of 1
-          
-          // Convert ke format yang dibutuhkan contract
-          const encryptedVoteHex = fhevmClient.createExternalInput(encryptedVote);
-          const proofHex = fhevmClient.toHexString(proof);
-          
-          debugLog('FHE encryption completed', {
-            encryptedVoteLength: encryptedVoteHex.length,
-            proofLength: proofHex.length
-          });
-          
-          tx = await this.contract.castVote(proposalId, optionIndex, encryptedVoteHex, proofHex);
-          debugLog('✅ FHE encrypted vote cast successfully');
-        } catch (fheError) {
-          debugLog('❌ FHE encryption failed, falling back to simulation:', fheError);
-          // Fallback ke simulasi jika FHE gagal
-          const simulatedEncryption = ethers.randomBytes(32);
-          const simulatedProof = ethers.randomBytes(32);
-          tx = await this.contract.castVote(proposalId, optionIndex, ethers.hexlify(simulatedEncryption), ethers.hexlify(simulatedProof));
-        }
-      } else {
-        // Fallback untuk testing (simulasi encryption)
-        debugLog('🔒 Using simulated encryption...');
-        
-        const simulatedEncryption = ethers.randomBytes(32);
-        const simulatedProof = ethers.randomBytes(32);
-        tx = await this.contract.castVote(proposalId, optionIndex, ethers.hexlify(simulatedEncryption), ethers.hexlify(simulatedProof));
-      }
-      
-      debugLog('Vote transaction sent', { hash: tx.hash });
-      
-      const receipt = await tx.wait();
-      debugLog('Vote transaction confirmed', { 
-        status: receipt.status, 
-        gasUsed: receipt.gasUsed?.toString() 
-      });
-      
-      return receipt.status === 1;
-    } catch (error) {
-      debugLog('❌ Failed to cast vote:', error);
-      throw error;
-    }
+  async closeProposalEarly(proposalId: number, reason: CloseReason): Promise<boolean> {
+    return this.backend ? this.backend.closeProposalEarly(proposalId, reason) : false;
   }
 
-  async revealResults(proposalId: number): Promise<boolean> {
-    if (this.isSimulationMode) {
-      debugLog('🔧 Simulation mode: revealing results', { proposalId });
-      
-      // Update mock proposal with results
-      const proposal = MOCK_PROPOSALS.find(p => p.id === proposalId);
-      if (proposal && !proposal.resultsRevealed) {
-        proposal.resultsRevealed = true;
-        // Generate random results based on total votes
-        const totalVotes = proposal.totalVotes;
-        const results = proposal.options.map(() => Math.floor(Math.random() * totalVotes));
-        // Ensure total matches
-        const sum = results.reduce((a, b) => a + b, 0);
-        if (sum !== totalVotes && totalVotes > 0) {
-          results[0] += totalVotes - sum;
-        }
-        proposal.revealedResults = results;
-      }
-      
-      // Simulate result revelation
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      return true;
-    }
+  async extendDeadline(proposalId: number, extensionSeconds: number, reason: ExtendReason): Promise<boolean> {
+    return this.backend ? this.backend.extendDeadline(proposalId, extensionSeconds, reason) : false;
+  }
 
-    if (!this.contract) return false;
+  async authorizeVoter(voterAddress: string): Promise<boolean> {
+    return this.backend ? this.backend.authorizeVoter(voterAddress) : false;
+  }
 
-    try {
-      debugLog('Revealing results for proposal', { proposalId });
-      
-      // For now, we'll use setResults with dummy data since we don't have real decryption
-      // In production, this would trigger the actual decryption process
-      const dummyResults = [5, 3, 2]; // Example results
-      
-      const tx = await this.contract.setResults(proposalId, dummyResults);
-      debugLog('Reveal transaction sent', { hash: tx.hash });
-      
-      const receipt = await tx.wait();
-      debugLog('Reveal transaction confirmed', { 
-        status: receipt.status, 
-        gasUsed: receipt.gasUsed?.toString() 
-      });
-      
-      return receipt.status === 1;
-    } catch (error) {
-      debugLog('❌ Failed to reveal results:', error);
-      throw error;
-    }
+  async authorizeVoters(voterAddresses: string[]): Promise<boolean> {
+    return this.backend ? this.backend.authorizeVoters(voterAddresses) : false;
   }
 
-  async authorizeVoter(voterAddress: string): Promise<boolean> {
-    if (this.isSimulationMode) {
-      debugLog('🔧 Simulation mode: authorizing voter', { voterAddress });
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return true;
-    }
+  async getOwnership(): Promise<Ownership> {
+    if (!this.backend) throw new Error('Contract not connected');
+    return this.backend.getOwnership();
+  }
 
-    if (!this.contract) return false;
+  // Read before any role change so the admin sees what it will affect
+  async getRoles(addresses: string[]): Promise<AccountRoles[]> {
+    if (!this.backend) throw new Error('Contract not connected');
+    return this.backend.getRoles(addresses);
+  }
 
-    try {
-      debugLog('Authorizing voter', { voterAddress });
-      
-      const tx = await this.contract.authorizeVoter(voterAddress);
-      const receipt = await tx.wait();
-      
-      debugLog('Voter authorization completed', { 
-        status: receipt.status, 
-        gasUsed: receipt.gasUsed?.toString() 
-      });
-      
-      return receipt.status === 1;
-    } catch (error) {
-      debugLog('❌ Failed to authorize voter:', error);
-      throw error;
-    }
+  async deauthorizeVoter(voterAddress: string): Promise<boolean> {
+    return this.backend ? this.backend.deauthorizeVoter(voterAddress) : false;
   }
 
-  async authorizeVoters(voterAddresses: string[]): Promise<boolean> {
-    if (this.isSimulationMode) {
-      debugLog('🔧 Simulation mode: authorizing multiple voters', { count: voterAddresses.length });
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      return true;
-    }
+  async deauthorizeVoters(voterAddresses: string[]): Promise<boolean> {
+    return this.backend ? this.backend.deauthorizeVoters(voterAddresses) : false;
+  }
 
-    if (!this.contract) return false;
+  async addAdmin(adminAddress: string): Promise<boolean> {
+    return this.backend ? this.backend.addAdmin(adminAddress) : false;
+  }
 
-    try {
-      debugLog('Authorizing multiple voters', { count: voterAddresses.length });
-      
-      const tx = await this.contract.authorizeVoters(voterAddresses);
-      const receipt = await tx.wait();
-      
-      debugLog('Bulk voter authorization completed', { 
-        status: receipt.status, 
-        gasUsed: receipt.gasUsed?.toString() 
-      });
-      
-      return receipt.status === 1;
-    } catch (error) {
-      debugLog('❌ Failed to authorize voters:', error);
-      throw error;
-    }
+  async removeAdmin(adminAddress: string): Promise<boolean> {
+    return this.backend ? this.backend.removeAdmin(adminAddress) : false;
+  }
+
+  /**
+   * Offer ownership to another address; it only changes hands once that
+   * address calls acceptOwnership. Passing ZeroAddress withdraws the offer.
+   */
+  async transferOwnership(newOwner: string): Promise<boolean> {
+    return this.backend ? this.backend.transferOwnership(newOwner) : false;
+  }
+
+  async acceptOwnership(): Promise<boolean> {
+    return this.backend ? this.backend.acceptOwnership() : false;
   }
 
   getContractAddress(): string {
-    return CONTRACT_ADDRESS;
+    return this.chain.votingContractAddress;
   }
 
-  getCurrentNetwork(): any {
-    return SEPOLIA_CONFIG;
+  getCurrentNetwork(): ChainConfig {
+    return this.chain;
+  }
+
+  getSupportedChains(): ChainConfig[] {
+    return CHAINS;
   }
 
   isFHEVM(): boolean {
@@ -605,27 +489,33 @@ export class VotingContract {
   }
 
   isSimulation(): boolean {
-    return this.isSimulationMode;
+    return this.backend?.kind === 'simulated';
+  }
+
+  // True while browsing without a wallet
+  isReadOnly(): boolean {
+    return !this.signer;
   }
 
-  getBlockExplorerUrl(txHash: string): string {
-    return `${SEPOLIA_CONFIG.blockExplorer}/tx/${txHash}`;
+  getBlockExplorerUrl(txHash: string): string | null {
+    return this.chain.blockExplorer ? `${this.chain.blockExplorer}/tx/${txHash}` : null;
   }
 
-  getFaucetUrl(): string {
-    return SEPOLIA_CONFIG.faucet;
+  getFaucetUrl(): string | null {
+    return this.chain.faucet;
   }
 
   getDebugInfo() {
     return {
-      contractAddress: CONTRACT_ADDRESS,
-      network: SEPOLIA_CONFIG,
+      contractAddress: this.chain.votingContractAddress,
+      network: this.chain,
       isFHEVMEnabled: this.isFHEVMEnabled,
-      isSimulationMode: this.isSimulationMode,
-      hasContract: !!this.contract,
+      backend: this.backend?.kind ?? null,
+      isSimulationMode: this.isSimulation(),
+      strictPrivacy: fhevmClient.isStrictPrivacy(),
       hasProvider: !!this.provider,
       hasSigner: !!this.signer,
-      mockProposalsCount: MOCK_PROPOSALS.length,
+      batchedReads: this.backend?.getReadStats() ?? null,
       fhevmDebug: fhevmClient.getDebugInfo()
     };
   }
@@ -634,13 +524,53 @@ export class VotingContract {
   async testGateways() {
     return await fhevmClient.testGateways();
   }
-}
 
-export const votingContract = new VotingContract();
+  getPublicKeyInfo() {
+    return fhevmClient.getPublicKeyInfo();
+  }
+
+  // Transactions sent on the current chain, newest first; returns an unsubscribe function
+  subscribeTransactions(listener: (transactions: TrackedTransaction[]) => void): () => void {
+    return this.transactions.subscribe(transactions => {
+      listener(transactions.filter(t => t.chainId === this.chain.chainId));
+    });
+  }
 
-// Extend window type untuk ethereum
-declare global {
-  interface Window {
-    ethereum?: any;
+  // Final status of each transaction; `awaited` means its sender reports the outcome itself
+  subscribeSettledTransactions(listener: (transaction: TrackedTransaction, awaited: boolean) => void): () => void {
+    return this.transactions.subscribeSettled(listener);
   }
-}
\ No newline at end of file
+
+  // Wait again for transactions that were still pending when the page was last closed
+  async resumeTransactions(): Promise<void> {
+    if (this.backend?.kind !== 'contract' || !this.provider || !this.signer) return;
+    await this.transactions.resume(this.provider, this.chain.chainId, await this.signer.getAddress());
+  }
+
+  clearSettledTransactions(): void {
+    this.transactions.clearSettled();
+  }
+
+  // Live gateway health; returns an unsubscribe function
+  subscribeGatewayStatus(listener: (statuses: GatewayStatus[]) => void): () => void {
+    return fhevmClient.getGatewayManager().subscribe(listener);
+  }
+
+  /**
+   * Push proposal changes from contract events (votes, new proposals,
+   * decryption requests, revealed results); returns an unsubscribe function.
+   * Simulation mode has no events and reports 'offline'.
+   */
+  subscribeProposalUpdates(
+    onUpdate: (update: ProposalUpdate) => void,
+    onStatus: (status: LiveStatus) => void = () => {}
+  ): () => void {
+    if (!this.backend) {
+      onStatus('offline');
+      return () => {};
+    }
+    return this.backend.subscribeProposalUpdates(onUpdate, onStatus);
+  }
+}
+
+export const votingContract = new VotingContract();
@@ -0,0 +1,197 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { BrowserProvider, Wallet, getBytes } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { connectVotingContract } from './bindings';
+import { EncryptOptions, MockEncryptionBackend } from './encryption';
+import { ContractVotingBackend, ReadOnlyVotingBackend } from './contractBackend';
+import { fhevmClient } from './fhevm';
+import { EventIndexer } from './indexer';
+import { MockEip1193Provider } from './mockWallet';
+import { TransactionManager } from './transactions';
+import { MockVotingChain, TEST_CHAIN, VOTING_ADDRESS, testAccount } from '@/test/mockVotingChain';
+import { describeVotingBackend } from '@/test/votingBackendConformance';
+
+let chain: MockVotingChain;
+
+// Contract backend per account, read-only backend for visitors, all over one mock chain
+describeVotingBackend('contract and read-only', {
+  async setup(owner) {
+    chain = new MockVotingChain(owner.address);
+    await fhevmClient.init(chain, { backend: new MockEncryptionBackend(), chain: TEST_CHAIN });
+  },
+  connect(account) {
+    return account
+      ? new ContractVotingBackend(TEST_CHAIN, chain, account.connect(chain), new TransactionManager())
+      : new ReadOnlyVotingBackend(TEST_CHAIN, chain);
+  },
+  teardown() {
+    chain.destroy();
+  }
+});
+
+describe('ContractVotingBackend.castVote', () => {
+  const owner = testAccount('owner');
+  const voters = ['first', 'second', 'third', 'fourth'].map(testAccount);
+  const connect = (account: Wallet) =>
+    new ContractVotingBackend(TEST_CHAIN, chain, account.connect(chain), new TransactionManager());
+
+  beforeEach(async () => {
+    chain = new MockVotingChain(owner.address);
+    await fhevmClient.init(chain, { backend: new MockEncryptionBackend(), chain: TEST_CHAIN });
+    await connect(owner).authorizeVoters(voters.map(voter => voter.address));
+    await connect(owner).createProposal('Budget', 'Next quarter budget', ['Yes', 'No', 'Abstain'], 3600);
+  });
+
+  afterEach(() => {
+    chain.destroy();
+  });
+
+  it('stores a one-hot ballot only the voter can read', async () => {
+    const [voter, other] = voters;
+    expect(await connect(voter).castVote(0, 1)).toBe(true);
+
+    const handles = [...await connectVotingContract(VOTING_ADDRESS, chain).getBallot(0, voter.address)];
+    expect(handles.map(handle => new MockEncryptionBackend().decrypt32(getBytes(handle)))).toEqual([0, 1, 0]);
+    expect(await connect(voter).verifyMyVote(0)).toBe(1);
+    await expect(fhevmClient.decryptBallot(handles, VOTING_ADDRESS, other)).rejects.toThrow('User is not allowed to decrypt this handle');
+  });
+
+  it('refuses to send a ballot encrypted for another voter', async () => {
+    const [voter, other] = voters;
+    // A backend that binds every input to someone else
+    class MisboundBackend extends MockEncryptionBackend {
+      encrypt32(values: number[], contractAddress: string, _userAddress: string, options?: EncryptOptions) {
+        return super.encrypt32(values, contractAddress, other.address, options);
+      }
+    }
+    await fhevmClient.init(chain, { backend: new MisboundBackend(), chain: TEST_CHAIN });
+    const sent = chain.getRequestCount('eth_sendRawTransaction');
+
+    await expect(connect(voter).castVote(0, 0)).rejects.toMatchObject({ name: 'PrivacyError', reason: 'BALLOT_MISMATCH' });
+    expect(chain.getRequestCount('eth_sendRawTransaction')).toBe(sent);
+    expect((await connect(voter).getUserProfile())!.votedProposals).toEqual([]);
+  });
+
+  it('refuses to send a ballot when the wallet switches account or chain during encryption', async () => {
+    const [voter, other] = voters;
+    // A browser wallet whose reads go to the mock chain
+    const wallet = new MockEip1193Provider({
+      accounts: [voter.address],
+      chainId: TEST_CHAIN.chainId,
+      rpcUrl: 'http://rpc.test',
+      fetch: async (_url, init) => {
+        const { id, method, params } = JSON.parse(init!.body as string);
+        return Response.json({ jsonrpc: '2.0', id, result: await chain.send(method, params) });
+      }
+    });
+    let switchWallet = () => {};
+    class SwitchingBackend extends MockEncryptionBackend {
+      async encrypt32(values: number[], contractAddress: string, userAddress: string, options?: EncryptOptions) {
+        const input = await super.encrypt32(values, contractAddress, userAddress, options);
+        switchWallet();
+        return input;
+      }
+    }
+    await fhevmClient.init(chain, { backend: new SwitchingBackend(), chain: TEST_CHAIN });
+    const provider = new BrowserProvider(wallet);
+    const backend = new ContractVotingBackend(TEST_CHAIN, provider, await provider.getSigner(), new TransactionManager());
+    const estimates = chain.getRequestCount('eth_estimateGas');
+
+    switchWallet = () => wallet.setAccounts([other.address]);
+    await expect(backend.castVote(0, 1)).rejects.toThrow('Ballot not submitted: ballot was encrypted for a different voter');
+
+    wallet.setAccounts([voter.address]);
+    switchWallet = () => wallet.setChainId(11155111);
+    await expect(backend.castVote(0, 1)).rejects.toThrow('Ballot not submitted: ballot was encrypted for chain 31337, not 11155111');
+
+    // Rejected before the preflight, so nothing reached the chain
+    expect(chain.getRequestCount('eth_estimateGas')).toBe(estimates);
+  });
+
+  it('tallies each ballot toward the chosen option', async () => {
+    const choices = [2, 0, 2, 2];
+    for (const [i, voter] of voters.entries()) await connect(voter).castVote(0, choices[i]);
+    await connect(owner).closeProposalEarly(0, 'decided');
+
+    expect(await connect(owner).revealResults(0)).toEqual([1, 0, 3]);
+    const [proposal] = (await connect(owner).getProposalPage(0, 1)).proposals;
+    expect(proposal).toMatchObject({ totalVotes: 4, resultsRevealed: true, revealedResults: [1, 0, 3] });
+  });
+});
+
+describe('ContractVotingBackend with the event indexer', () => {
+  const owner = testAccount('owner');
+  const voter = testAccount('first');
+  // Deployed after the genesis block, so its history gets indexed
+  const INDEXED_CHAIN = { ...TEST_CHAIN, deploymentBlock: 1 };
+
+  beforeEach(async () => {
+    chain = new MockVotingChain(owner.address);
+    await fhevmClient.init(chain, { backend: new MockEncryptionBackend(), chain: TEST_CHAIN });
+    const admin = new ContractVotingBackend(TEST_CHAIN, chain, owner.connect(chain), new TransactionManager());
+    await admin.authorizeVoter(voter.address);
+    await admin.createProposal('Budget', 'Next quarter budget', ['Yes', 'No'], 3600);
+    await admin.createProposal('Offsite', 'Where to meet', ['Lisbon', 'Porto'], 3600);
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    chain.destroy();
+  });
+
+  it('syncs in the background and answers vote flags from the index until disposed', async () => {
+    const unindexed = new ContractVotingBackend(TEST_CHAIN, chain, voter.connect(chain), new TransactionManager());
+    await unindexed.castVote(1, 0);
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const sync = vi.spyOn(EventIndexer.prototype, 'sync');
+
+    const backend = new ContractVotingBackend(INDEXED_CHAIN, chain, voter.connect(chain), new TransactionManager());
+    expect(sync).toHaveBeenCalledTimes(1);
+    await sync.mock.results[0].value;
+
+    const calls = chain.getRequestCount('eth_call');
+    const heads = chain.getRequestCount('eth_blockNumber');
+    expect((await backend.getUserProfile())!.votedProposals).toEqual([1]);
+    // The profile reads and hasVoted for the open proposal the index has no vote on; no head check
+    expect(chain.getRequestCount('eth_call')).toBe(calls + 2);
+    expect(chain.getRequestCount('eth_blockNumber')).toBe(heads);
+
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(sync).toHaveBeenCalledTimes(2);
+    await sync.mock.results[1].value;
+
+    backend.dispose();
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(sync).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads votes cast since the last sync from the contract until voting has ended', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    const sync = vi.spyOn(EventIndexer.prototype, 'sync');
+    const admin = new ContractVotingBackend(TEST_CHAIN, chain, owner.connect(chain), new TransactionManager());
+    const backend = new ContractVotingBackend(INDEXED_CHAIN, chain, voter.connect(chain), new TransactionManager());
+    await sync.mock.results[0].value;
+
+    // Mined after the sync, so only the contract knows about it
+    await backend.castVote(0, 1);
+    expect((await backend.getUserProfile())!.votedProposals).toEqual([0]);
+
+    await admin.closeProposalEarly(0, 'decided');
+    await admin.closeProposalEarly(1, 'decided');
+    await vi.advanceTimersByTimeAsync(15000);
+    await sync.mock.results[1].value;
+    // A block from after both closed, for the next sync's head
+    await admin.authorizeVoter(testAccount('second').address);
+    await vi.advanceTimersByTimeAsync(15000);
+    await sync.mock.results[2].value;
+
+    const calls = chain.getRequestCount('eth_call');
+    expect((await backend.getUserProfile())!.votedProposals).toEqual([0]);
+    // Both closed before the indexer's head, so the index answers alone
+    expect(chain.getRequestCount('eth_call')).toBe(calls + 1);
+    backend.dispose();
+  });
+});
@@ -0,0 +1,771 @@
+import { ethers } from 'ethers';
+import {
+  AccountRoles,
+  CancelReason,
+  CastVoteOptions,
+  CloseReason,
+  ExtendReason,
+  LiveStatus,
+  Ownership,
+  Proposal,
+  ProposalUpdate,
+  RevealStatus,
+  UserProfile
+} from '@/types/voting';
+import { FHEVotingFunctions } from '@/contracts/FHEVoting.types';
+import { BackendSession, VotingBackend, decryptOwnBallot, encryptVote, verifyBallotForSending } from './backend';
+import {
+  CANCEL_REASONS,
+  CLOSE_REASONS,
+  EXTEND_REASONS,
+  FHEVotingContract,
+  FHEVotingEvent,
+  VotingViewResult,
+  connectVotingContract,
+  decodeProposal,
+  parseVotingLog,
+  votingCall
+} from './bindings';
+import { ChainConfig, hasIndexableHistory } from './chains';
+import { debugLog } from './debug';
+import { fhevmClient } from './fhevm';
+import { EventIndexer } from './indexer';
+import { ProposalFeed } from './liveUpdates';
+import { ReadBatcher } from './multicall';
+import { ProposalPage, ProposalRepository } from './proposals';
+import { decodeContractError } from './reverts';
+import { TransactionManager } from './transactions';
+
+// Decryption by the oracle normally takes seconds to minutes. The oracle answers
+// on-chain, so the reveal waits on the contract over RPC; no gateway is involved
+const REVEAL_TIMEOUT_MS = 10 * 60 * 1000;
+const REVEAL_POLL_MS = 5000;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Reads shared by the live and read-only backends; `runner` is the signer when there is one
+class ContractReader {
+  readonly contract: FHEVotingContract;
+  // Null without a deployment block: backfilling from genesis would hit RPC rate limits
+  private readonly indexer: EventIndexer | null;
+  private readonly reads: ReadBatcher;
+  private readonly proposals: ProposalRepository;
+
+  constructor(
+    private readonly chain: ChainConfig,
+    private readonly provider: ethers.Provider,
+    runner: ethers.ContractRunner
+  ) {
+    this.contract = connectVotingContract(chain.votingContractAddress, runner);
+    this.indexer = hasIndexableHistory(chain) ? new EventIndexer(provider, chain) : null;
+    // Syncs in the background from the start, so reads find it loaded without checking the head
+    this.indexer?.start();
+    this.reads = new ReadBatcher(provider, {
+      multicallAddress: chain.multicall3Address,
+      rpcUrl: chain.rpcUrls[0] ?? null,
+      batchSize: Number(import.meta.env.VITE_RPC_BATCH_SIZE || 100)
+    });
+    this.proposals = new ProposalRepository(this.reads, chain.votingContractAddress);
+  }
+
+  async getProposalCount(): Promise<number> {
+    return Number(await this.contract.proposalCount());
+  }
+
+  async getUserProfile(address: string): Promise<UserProfile | null> {
+    try {
+      debugLog('Getting user profile...', { address });
+
+      const target = this.chain.votingContractAddress;
+      const [isAuthorized, isAdmin, owner, pendingOwner, proposalCount] = await this.reads.values([
+        votingCall(target, 'isAuthorizedVoter', address),
+        votingCall(target, 'isAdmin', address),
+        votingCall(target, 'owner'),
+        votingCall(target, 'pendingOwner'),
+        votingCall(target, 'proposalCount')
+      ]) as [boolean, boolean, string, string, bigint];
+
+      const isOwner = sameAddress(owner, address);
+      const isPendingOwner = sameAddress(pendingOwner, address);
+      debugLog('User permissions', { isAuthorized, isAdmin, isOwner, isPendingOwner });
+
+      const ids = Array.from({ length: Number(proposalCount) }, (_, i) => i);
+      const votedProposals = [...await this.votedAmong(ids, address)];
+
+      const profile = {
+        address,
+        isAuthorized,
+        isAdmin,
+        isOwner,
+        isPendingOwner,
+        votedProposals
+      };
+
+      debugLog('User profile created', profile);
+      return profile;
+    } catch (error) {
+      debugLog('❌ Failed to get user profile:', error);
+      return null;
+    }
+  }
+
+  async getOwnership(): Promise<Ownership> {
+    const target = this.chain.votingContractAddress;
+    const [owner, pendingOwner] = await this.reads.values([
+      votingCall(target, 'owner'),
+      votingCall(target, 'pendingOwner')
+    ]) as [string, string];
+    return { owner, pendingOwner: pendingOwner === ethers.ZeroAddress ? null : pendingOwner };
+  }
+
+  // Two reads per address plus the owner slots, in one batch
+  async getRoles(addresses: string[]): Promise<AccountRoles[]> {
+    const target = this.chain.votingContractAddress;
+    const values = await this.reads.values([
+      votingCall(target, 'owner'),
+      votingCall(target, 'pendingOwner'),
+      ...addresses.flatMap(address => [
+        votingCall(target, 'isAuthorizedVoter', address),
+        votingCall(target, 'isAdmin', address)
+      ])
+    ]);
+    const [owner, pendingOwner] = values as [string, string];
+    return addresses.map((address, i) => ({
+      address,
+      isAuthorized: values[2 + i * 2] as boolean,
+      isAdmin: values[3 + i * 2] as boolean,
+      isOwner: sameAddress(owner, address),
+      isPendingOwner: sameAddress(pendingOwner, address)
+    }));
+  }
+
+  async getActiveProposals(voter: string | null): Promise<Proposal[]> {
+    try {
+      debugLog('Fetching active proposals...');
+
+      const proposalsData = await this.contract.getActiveProposals();
+      const votedProposals = voter
+        ? await this.votedAmong(proposalsData.map(p => Number(p.id)), voter)
+        : new Set<number>();
+
+      const proposals: Proposal[] = proposalsData.map(proposalData => ({
+        ...decodeProposal(proposalData),
+        hasVoted: votedProposals.has(Number(proposalData.id))
+      }));
+
+      debugLog('Active proposals fetched', { count: proposals.length });
+      return proposals;
+    } catch (error) {
+      debugLog('❌ Failed to get proposals:', error);
+      return [];
+    }
+  }
+
+  async getProposalPage(cursor: number | null, limit: number, voter: string | null): Promise<ProposalPage<Proposal>> {
+    const page = await this.proposals.getPage(cursor, limit);
+    const voted = voter
+      ? await this.votedAmong(page.proposals.map(p => p.id), voter)
+      : new Set<number>();
+    return {
+      proposals: page.proposals.map(proposal => ({ ...proposal, hasVoted: voted.has(proposal.id) })),
+      nextCursor: page.nextCursor
+    };
+  }
+
+  subscribeProposalUpdates(
+    onUpdate: (update: ProposalUpdate) => void,
+    onStatus: (status: LiveStatus) => void
+  ): () => void {
+    const contract = this.contract;
+    const feed = new ProposalFeed(contract, this.provider, {
+      loadProposal: async proposalId => {
+        try {
+          return { ...decodeProposal(await contract.getProposal(proposalId)), hasVoted: false };
+        } catch (error) {
+          debugLog(`Could not load new proposal ${proposalId}`, error);
+          return null;
+        }
+      },
+      onUpdate: update => {
+        // A cached archive entry may be stale once an event touches it
+        if (update.type !== 'created') this.proposals.invalidate(update.proposalId);
+        onUpdate(update);
+      },
+      onStatus
+    });
+    void feed.start();
+    return () => feed.stop();
+  }
+
+  getReadStats() {
+    return this.reads.getStats();
+  }
+
+  dispose(): void {
+    this.indexer?.stop();
+  }
+
+  /**
+   * Which of these proposals the voter has voted on. Once the indexer has
+   * synced, it answers for proposals whose voting had ended by its last
+   * head; votes since then are not indexed yet, so proposals still open
+   * then (or not indexed at all) are read from the contract in one batch.
+   * Reads never wait for the first sync.
+   */
+  private async votedAmong(proposalIds: number[], voter: string): Promise<Set<number>> {
+    const indexer = this.indexer?.isLoaded() ? this.indexer : null;
+    if (!indexer) {
+      return this.readVoted(proposalIds, voter);
+    }
+
+    const indexed = new Set(indexer.getVotedProposals(voter));
+    const { headTime } = indexer.getState();
+    const unsettled = proposalIds.filter(id => {
+      const end = indexer.getVotingEnd(id);
+      return !indexed.has(id) && (end === null || headTime === null || end >= headTime);
+    });
+    const recent = unsettled.length > 0 ? await this.readVoted(unsettled, voter) : new Set<number>();
+    return new Set(proposalIds.filter(id => indexed.has(id) || recent.has(id)));
+  }
+
+  private async readVoted(proposalIds: number[], voter: string): Promise<Set<number>> {
+    const target = this.chain.votingContractAddress;
+    const results = await this.reads.all<VotingViewResult<'hasVoted'>>(
+      proposalIds.map(id => votingCall(target, 'hasVoted', id, voter))
+    );
+    return new Set(proposalIds.filter((id, i) => {
+      const result = results[i];
+      if (!result.ok) debugLog(`Error checking vote status for proposal ${id}:`, result.error);
+      return result.ok && result.value;
+    }));
+  }
+}
+
+const walletRequired = (): never => {
+  throw new Error('Wallet not connected');
+};
+
+// Browsing a deployed contract through the chain's own RPC; every write needs a wallet
+export class ReadOnlyVotingBackend implements VotingBackend {
+  readonly kind = 'read-only';
+  private readonly reader: ContractReader;
+
+  constructor(chain: ChainConfig, provider: ethers.Provider) {
+    this.reader = new ContractReader(chain, provider, provider);
+  }
+
+  async getUserProfile(): Promise<UserProfile | null> {
+    return null;
+  }
+
+  getProposalCount(): Promise<number> {
+    return this.reader.getProposalCount();
+  }
+
+  getActiveProposals(): Promise<Proposal[]> {
+    return this.reader.getActiveProposals(null);
+  }
+
+  getProposalPage(cursor: number | null, limit: number): Promise<ProposalPage<Proposal>> {
+    return this.reader.getProposalPage(cursor, limit, null);
+  }
+
+  async createProposal(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async castVote(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async verifyMyVote(): Promise<number> {
+    return walletRequired();
+  }
+
+  async revealResults(): Promise<number[]> {
+    return walletRequired();
+  }
+
+  async cancelProposal(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async closeProposalEarly(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async extendDeadline(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  getOwnership(): Promise<Ownership> {
+    return this.reader.getOwnership();
+  }
+
+  getRoles(addresses: string[]): Promise<AccountRoles[]> {
+    return this.reader.getRoles(addresses);
+  }
+
+  async authorizeVoter(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async authorizeVoters(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async deauthorizeVoter(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async deauthorizeVoters(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async addAdmin(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async removeAdmin(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async transferOwnership(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  async acceptOwnership(): Promise<boolean> {
+    return walletRequired();
+  }
+
+  subscribeProposalUpdates(
+    onUpdate: (update: ProposalUpdate) => void,
+    onStatus: (status: LiveStatus) => void
+  ): () => void {
+    return this.reader.subscribeProposalUpdates(onUpdate, onStatus);
+  }
+
+  getReadStats() {
+    return this.reader.getReadStats();
+  }
+
+  dispose(): void {
+    this.reader.dispose();
+  }
+}
+
+/**
+ * The deployed FHEVoting contract through the user's wallet. Every write is
+ * preflighted with estimateGas, tracked by the TransactionManager, and has
+ * its revert decoded into a ContractError.
+ */
+export class ContractVotingBackend implements VotingBackend {
+  readonly kind = 'contract';
+  private readonly reader: ContractReader;
+  private readonly contract: FHEVotingContract;
+  private readonly session: BackendSession;
+
+  constructor(
+    chain: ChainConfig,
+    provider: ethers.Provider,
+    private readonly signer: ethers.Signer,
+    private readonly transactions: TransactionManager
+  ) {
+    this.reader = new ContractReader(chain, provider, signer);
+    this.contract = this.reader.contract;
+    this.session = { chain, provider, signer };
+  }
+
+  async getUserProfile(): Promise<UserProfile | null> {
+    return this.reader.getUserProfile(await this.signer.getAddress());
+  }
+
+  getProposalCount(): Promise<number> {
+    return this.reader.getProposalCount();
+  }
+
+  async getActiveProposals(): Promise<Proposal[]> {
+    return this.reader.getActiveProposals(await this.signer.getAddress());
+  }
+
+  async getProposalPage(cursor: number | null, limit: number): Promise<ProposalPage<Proposal>> {
+    return this.reader.getProposalPage(cursor, limit, await this.signer.getAddress());
+  }
+
+  async createProposal(
+    title: string,
+    description: string,
+    options: string[],
+    duration: number
+  ): Promise<boolean> {
+    try {
+      debugLog('Creating proposal', { title, description, options, duration });
+
+      await this.preflight('createProposal', title, description, options, duration);
+      const tx = await this.contract.createProposal(title, description, options, duration);
+      debugLog('Transaction sent', { hash: tx.hash });
+
+      const receipt = await this.transactions.track(tx, { kind: 'create-proposal', title });
+      debugLog('Transaction confirmed', {
+        status: receipt.status,
+        gasUsed: receipt.gasUsed?.toString()
+      });
+
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to create proposal:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async castVote(proposalId: number, optionIndex: number, options: CastVoteOptions = {}): Promise<boolean> {
+    const { signal, onProgress } = options;
+    try {
+      debugLog('Casting vote', { proposalId });
+
+      const proposalData = await this.contract.getProposal(proposalId);
+
+      // The FHEVM client decides how the ballot is encrypted and refuses when it cannot be protected
+      const envelope = await encryptVote(this.session, proposalId, optionIndex, proposalData.options.length, options);
+      const { encryptedBallot, inputProof } = fhevmClient.toContractInput(envelope);
+
+      // Last point where cancelling is possible
+      signal?.throwIfAborted();
+      await verifyBallotForSending(this.session, envelope);
+      await this.preflight('castVote', proposalId, encryptedBallot, inputProof);
+      onProgress?.('submitting');
+      const tx = await this.contract.castVote(proposalId, encryptedBallot, inputProof);
+      debugLog('Vote transaction sent', { hash: tx.hash });
+
+      onProgress?.('confirming');
+      const receipt = await this.transactions.track(tx, { kind: 'cast-vote', proposalId });
+      debugLog('Vote transaction confirmed', {
+        status: receipt.status,
+        gasUsed: receipt.gasUsed?.toString()
+      });
+
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to cast vote:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async verifyMyVote(proposalId: number): Promise<number> {
+    const handles = [...await this.contract.getBallot(proposalId, await this.signer.getAddress())];
+    return decryptOwnBallot(this.session, proposalId, handles);
+  }
+
+  async revealResults(
+    proposalId: number,
+    onStatus?: (status: RevealStatus) => void
+  ): Promise<number[]> {
+    try {
+      debugLog('Requesting decryption of tallies', { proposalId });
+
+      const proposalData = await this.contract.getProposal(proposalId);
+      const optionCount = proposalData.options.length;
+
+      if (!proposalData.decryptionPending && !proposalData.resultsRevealed) {
+        onStatus?.('requesting');
+        await this.preflight('requestDecryption', proposalId);
+        const tx = await this.contract.requestDecryption(proposalId);
+        debugLog('Decryption request sent', { hash: tx.hash });
+
+        const receipt = await this.transactions.track(tx, { kind: 'request-decryption', proposalId });
+        const requested = receipt.logs
+          .map(parseVotingLog)
+          .find((event): event is Extract<FHEVotingEvent, { name: 'DecryptionRequested' }> =>
+            event?.name === 'DecryptionRequested'
+          );
+        debugLog('Decryption request confirmed', {
+          status: receipt.status,
+          requestId: requested?.args.requestId.toString(),
+          gasUsed: receipt.gasUsed?.toString()
+        });
+        if (receipt.status !== 1) {
+          throw new Error('Decryption request transaction failed');
+        }
+      }
+
+      onStatus?.('requested');
+
+      // Only wait once the request is confirmed; the first poll catches an oracle that was already done
+      const results = await this.waitForReveal(proposalId);
+      if (results.length !== optionCount) {
+        throw new Error(`Oracle returned ${results.length} results for ${optionCount} options`);
+      }
+
+      debugLog('✅ Results revealed', { proposalId, results });
+      onStatus?.('revealed');
+      return results;
+    } catch (error) {
+      debugLog('❌ Failed to reveal results:', error);
+      onStatus?.('failed');
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async cancelProposal(proposalId: number, reason: CancelReason): Promise<boolean> {
+    try {
+      debugLog('Cancelling proposal', { proposalId, reason });
+
+      const reasonCode = CANCEL_REASONS.indexOf(reason);
+      await this.preflight('cancelProposal', proposalId, reasonCode);
+      const tx = await this.contract.cancelProposal(proposalId, reasonCode);
+      const receipt = await this.transactions.track(tx, { kind: 'cancel-proposal', proposalId });
+
+      debugLog('Proposal cancelled', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to cancel proposal:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async closeProposalEarly(proposalId: number, reason: CloseReason): Promise<boolean> {
+    try {
+      debugLog('Closing proposal early', { proposalId, reason });
+
+      const reasonCode = CLOSE_REASONS.indexOf(reason);
+      await this.preflight('closeProposalEarly', proposalId, reasonCode);
+      const tx = await this.contract.closeProposalEarly(proposalId, reasonCode);
+      const receipt = await this.transactions.track(tx, { kind: 'close-proposal', proposalId });
+
+      debugLog('Proposal closed', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to close proposal:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async extendDeadline(proposalId: number, extensionSeconds: number, reason: ExtendReason): Promise<boolean> {
+    try {
+      debugLog('Extending proposal deadline', { proposalId, extensionSeconds, reason });
+
+      const reasonCode = EXTEND_REASONS.indexOf(reason);
+      await this.preflight('extendDeadline', proposalId, extensionSeconds, reasonCode);
+      const tx = await this.contract.extendDeadline(proposalId, extensionSeconds, reasonCode);
+      const receipt = await this.transactions.track(tx, { kind: 'extend-proposal', proposalId });
+
+      debugLog('Proposal deadline extended', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to extend proposal:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  getOwnership(): Promise<Ownership> {
+    return this.reader.getOwnership();
+  }
+
+  getRoles(addresses: string[]): Promise<AccountRoles[]> {
+    return this.reader.getRoles(addresses);
+  }
+
+  async authorizeVoter(voterAddress: string): Promise<boolean> {
+    try {
+      debugLog('Authorizing voter', { voterAddress });
+
+      await this.preflight('authorizeVoter', voterAddress);
+      const tx = await this.contract.authorizeVoter(voterAddress);
+      const receipt = await this.transactions.track(tx, { kind: 'authorize-voter', voter: voterAddress });
+
+      debugLog('Voter authorization completed', {
+        status: receipt.status,
+        gasUsed: receipt.gasUsed?.toString()
+      });
+
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to authorize voter:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async authorizeVoters(voterAddresses: string[]): Promise<boolean> {
+    try {
+      debugLog('Authorizing multiple voters', { count: voterAddresses.length });
+
+      await this.preflight('authorizeVoters', voterAddresses);
+      const tx = await this.contract.authorizeVoters(voterAddresses);
+      const receipt = await this.transactions.track(tx, { kind: 'authorize-voters', count: voterAddresses.length });
+
+      debugLog('Bulk voter authorization completed', {
+        status: receipt.status,
+        gasUsed: receipt.gasUsed?.toString()
+      });
+
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to authorize voters:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async deauthorizeVoter(voterAddress: string): Promise<boolean> {
+    try {
+      debugLog('Deauthorizing voter', { voterAddress });
+
+      await this.preflight('deauthorizeVoter', voterAddress);
+      const tx = await this.contract.deauthorizeVoter(voterAddress);
+      const receipt = await this.transactions.track(tx, { kind: 'deauthorize-voter', voter: voterAddress });
+
+      debugLog('Voter deauthorized', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to deauthorize voter:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async deauthorizeVoters(voterAddresses: string[]): Promise<boolean> {
+    try {
+      debugLog('Deauthorizing multiple voters', { count: voterAddresses.length });
+
+      await this.preflight('deauthorizeVoters', voterAddresses);
+      const tx = await this.contract.deauthorizeVoters(voterAddresses);
+      const receipt = await this.transactions.track(tx, { kind: 'deauthorize-voters', count: voterAddresses.length });
+
+      debugLog('Bulk voter deauthorization completed', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to deauthorize voters:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async addAdmin(adminAddress: string): Promise<boolean> {
+    try {
+      debugLog('Adding admin', { adminAddress });
+
+      await this.preflight('addAdmin', adminAddress);
+      const tx = await this.contract.addAdmin(adminAddress);
+      const receipt = await this.transactions.track(tx, { kind: 'add-admin', admin: adminAddress });
+
+      debugLog('Admin added', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to add admin:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async removeAdmin(adminAddress: string): Promise<boolean> {
+    try {
+      debugLog('Removing admin', { adminAddress });
+
+      await this.preflight('removeAdmin', adminAddress);
+      const tx = await this.contract.removeAdmin(adminAddress);
+      const receipt = await this.transactions.track(tx, { kind: 'remove-admin', admin: adminAddress });
+
+      debugLog('Admin removed', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to remove admin:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async transferOwnership(newOwner: string): Promise<boolean> {
+    try {
+      debugLog('Starting ownership transfer', { newOwner });
+
+      await this.preflight('transferOwnership', newOwner);
+      const tx = await this.contract.transferOwnership(newOwner);
+      const receipt = await this.transactions.track(tx, { kind: 'transfer-ownership', newOwner });
+
+      debugLog('Ownership transfer started', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to start ownership transfer:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  async acceptOwnership(): Promise<boolean> {
+    try {
+      debugLog('Accepting ownership');
+
+      await this.preflight('acceptOwnership');
+      const tx = await this.contract.acceptOwnership();
+      const receipt = await this.transactions.track(tx, { kind: 'accept-ownership' });
+
+      debugLog('Ownership accepted', { status: receipt.status, gasUsed: receipt.gasUsed?.toString() });
+      return receipt.status === 1;
+    } catch (error) {
+      debugLog('❌ Failed to accept ownership:', error);
+      throw decodeContractError(error) ?? error;
+    }
+  }
+
+  subscribeProposalUpdates(
+    onUpdate: (update: ProposalUpdate) => void,
+    onStatus: (status: LiveStatus) => void
+  ): () => void {
+    return this.reader.subscribeProposalUpdates(onUpdate, onStatus);
+  }
+
+  getReadStats() {
+    return this.reader.getReadStats();
+  }
+
+  dispose(): void {
+    this.reader.dispose();
+  }
+
+  // Simulate a write against the current state, so a revert is reported before the wallet prompt
+  private async preflight<Method extends keyof FHEVotingFunctions>(
+    method: Method,
+    ...args: Parameters<FHEVotingFunctions[Method]>
+  ): Promise<void> {
+    try {
+      await this.contract.getFunction(method).estimateGas(...args);
+    } catch (error) {
+      const decoded = decodeContractError(error, true);
+      debugLog(`Preflight of ${method} failed`, decoded ?? error);
+      throw decoded ?? error;
+    }
+  }
+
+  // Resolves with the tallies from ResultsRevealed, or from getProposal if they are already there
+  private waitForReveal(proposalId: number, timeoutMs: number = REVEAL_TIMEOUT_MS): Promise<number[]> {
+    const contract = this.contract;
+    const filter = contract.filters.ResultsRevealed(proposalId);
+
+    return new Promise<number[]>((resolve, reject) => {
+      let settled = false;
+      const finish = (outcome: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        clearInterval(poll);
+        contract.off(filter, onRevealed).catch(() => {});
+        outcome();
+      };
+      const onRevealed = (_proposalId: bigint, results: bigint[]) => {
+        finish(() => resolve(results.map(Number)));
+      };
+      const checkProposal = async () => {
+        try {
+          const proposalData = await contract.getProposal(proposalId);
+          if (proposalData.resultsRevealed) {
+            finish(() => resolve(proposalData.revealedResults.map(Number)));
+          }
+        } catch (error) {
+          debugLog('Reveal poll failed', error);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        finish(() => reject(new Error('Timed out waiting for the decryption oracle')));
+      }, timeoutMs);
+      // Events are the fast path; polling covers providers that drop them
+      const poll = setInterval(checkProposal, REVEAL_POLL_MS);
+      contract.on(filter, onRevealed).catch(error => debugLog('Could not subscribe to ResultsRevealed', error));
+      void checkProposal();
+    });
+  }
+}
@@ -0,0 +1,9 @@
+// Debug logging utility
+export const debugLog = (message: string, data?: any) => {
+  if (import.meta.env.VITE_DEBUG_MODE === 'true') {
+    console.log(`[FHEVM Debug] ${message}`, data || '');
+  }
+};
+
+export const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
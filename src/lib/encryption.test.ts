@@ -0,0 +1,125 @@
+import { Wallet, hexlify } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import { DisabledEncryptionBackend, MockEncryptionBackend } from './encryption';
+
+const VOTING_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const OTHER_CONTRACT = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const voter = Wallet.createRandom();
+const outsider = Wallet.createRandom();
+
+describe('MockEncryptionBackend', () => {
+  it('round-trips uint32 values through its handles', async () => {
+    const backend = new MockEncryptionBackend();
+    const { handles, inputProof } = await backend.encrypt32([0, 1, 0xffffffff], VOTING_ADDRESS, voter.address);
+
+    expect(handles.map(handle => handle.length)).toEqual([32, 32, 32]);
+    expect(handles.map(handle => backend.decrypt32(handle))).toEqual([0, 1, 0xffffffff]);
+    expect(inputProof).toHaveLength(32);
+  });
+
+  it('never gives equal ciphertexts for equal values', async () => {
+    const backend = new MockEncryptionBackend();
+    const { handles } = await backend.encrypt32([0, 0], VOTING_ADDRESS, voter.address);
+    const [forOutsider] = (await backend.encrypt32([0], VOTING_ADDRESS, outsider.address)).handles;
+
+    expect(hexlify(handles[0])).not.toBe(hexlify(handles[1]));
+    expect(hexlify(forOutsider)).not.toBe(hexlify(handles[0]));
+  });
+
+  it('binds every handle to the contract and user it was made for', async () => {
+    const backend = new MockEncryptionBackend();
+    const { handles } = await backend.encrypt32([0, 1], VOTING_ADDRESS, voter.address);
+
+    expect(handles.every(handle => backend.isBoundTo(handle, VOTING_ADDRESS, voter.address))).toBe(true);
+    expect(backend.isBoundTo(handles[0], VOTING_ADDRESS, outsider.address)).toBe(false);
+    expect(backend.isBoundTo(handles[0], OTHER_CONTRACT, voter.address)).toBe(false);
+    expect(new MockEncryptionBackend('another-key').isBoundTo(handles[0], VOTING_ADDRESS, voter.address)).toBe(false);
+  });
+
+  it('ties the input proof to the contract and user', async () => {
+    const backend = new MockEncryptionBackend();
+    const [forVoter, forOutsider, forOtherContract] = await Promise.all([
+      backend.encrypt32([1], VOTING_ADDRESS, voter.address),
+      backend.encrypt32([1], VOTING_ADDRESS, outsider.address),
+      backend.encrypt32([1], OTHER_CONTRACT, voter.address)
+    ]);
+
+    const proofs = new Set([forVoter, forOutsider, forOtherContract].map(input => hexlify(input.inputProof)));
+    expect(proofs.size).toBe(3);
+  });
+
+  it('refuses anything but uint32 values', async () => {
+    const backend = new MockEncryptionBackend();
+    await expect(backend.encrypt32([-1], VOTING_ADDRESS, voter.address)).rejects.toThrow('Value must be a uint32');
+    await expect(backend.encrypt32([1.5], VOTING_ADDRESS, voter.address)).rejects.toThrow('Value must be a uint32');
+    await expect(backend.encrypt32([2 ** 32], VOTING_ADDRESS, voter.address)).rejects.toThrow('Value must be a uint32');
+    expect(() => backend.decrypt32(new Uint8Array(31))).toThrow('Mock handle must be 32 bytes');
+  });
+
+  it('verifies an input only for the contract and user it was made for', async () => {
+    const backend = new MockEncryptionBackend();
+    const input = await backend.encrypt32([0, 1], VOTING_ADDRESS, voter.address);
+
+    expect(backend.verifyInput(input, VOTING_ADDRESS, voter.address)).toBe(true);
+    expect(backend.verifyInput(input, VOTING_ADDRESS, outsider.address)).toBe(false);
+    expect(backend.verifyInput(input, OTHER_CONTRACT, voter.address)).toBe(false);
+    expect(new MockEncryptionBackend('another-key').verifyInput(input, VOTING_ADDRESS, voter.address)).toBe(false);
+
+    const tampered = input.inputProof.slice();
+    tampered[0] ^= 1;
+    expect(backend.verifyInput({ ...input, inputProof: tampered }, VOTING_ADDRESS, voter.address)).toBe(false);
+    // The proof covers exactly these handles, in this order
+    expect(backend.verifyInput({ ...input, handles: input.handles.slice().reverse() }, VOTING_ADDRESS, voter.address)).toBe(false);
+    expect(backend.verifyInput({ ...input, handles: input.handles.slice(1) }, VOTING_ADDRESS, voter.address)).toBe(false);
+  });
+
+  it('decrypts for the user after an EIP-712 authorization', async () => {
+    const backend = new MockEncryptionBackend();
+    const { handles } = await backend.encrypt32([0, 1, 0], VOTING_ADDRESS, voter.address);
+    const signTypedData = vi.spyOn(voter, 'signTypedData');
+
+    expect(await backend.userDecrypt(handles.map(hexlify), VOTING_ADDRESS, voter)).toEqual([0n, 1n, 0n]);
+    expect(signTypedData).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Authorization token', verifyingContract: VOTING_ADDRESS }),
+      { Reencrypt: [{ name: 'publicKey', type: 'bytes' }] },
+      { publicKey: expect.stringMatching(/^0x[0-9a-f]{64}$/) }
+    );
+  });
+
+  it('refuses an authorization signed by someone else', async () => {
+    const backend = new MockEncryptionBackend();
+    const { handles } = await backend.encrypt32([1, 0], VOTING_ADDRESS, voter.address);
+    // Claims to be the voter but signs with its own key
+    const impostor = new Wallet(outsider.privateKey);
+    impostor.getAddress = async () => voter.address;
+
+    await expect(backend.userDecrypt(handles.map(hexlify), VOTING_ADDRESS, impostor))
+      .rejects.toThrow('Re-encryption authorization was not signed by the user');
+  });
+
+  it('refuses to decrypt handles of another user or contract', async () => {
+    const backend = new MockEncryptionBackend();
+    const { handles } = await backend.encrypt32([1, 0], VOTING_ADDRESS, voter.address);
+
+    await expect(backend.userDecrypt(handles.map(hexlify), VOTING_ADDRESS, outsider))
+      .rejects.toThrow('User is not allowed to decrypt this handle');
+    await expect(backend.userDecrypt(handles.map(hexlify), OTHER_CONTRACT, voter))
+      .rejects.toThrow('User is not allowed to decrypt this handle');
+  });
+});
+
+describe('DisabledEncryptionBackend', () => {
+  it('refuses every encryption and decryption with its reason', async () => {
+    const backend = new DisabledEncryptionBackend('no public key');
+
+    await expect(backend.encrypt32()).rejects.toMatchObject({
+      name: 'PrivacyError',
+      reason: 'FHE_UNAVAILABLE',
+      message: 'FHE encryption is unavailable: no public key'
+    });
+    await expect(backend.userDecrypt()).rejects.toMatchObject({
+      reason: 'FHE_UNAVAILABLE',
+      message: 'FHE decryption is unavailable: no public key'
+    });
+  });
+});
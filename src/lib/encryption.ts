@@ -0,0 +1,333 @@
+import {
+  Signer,
+  concat,
+  getBytes,
+  hexlify,
+  keccak256,
+  randomBytes,
+  solidityPacked,
+  toBeHex,
+  toUtf8Bytes,
+  verifyTypedData
+} from 'ethers';
+import type { FhevmInstance } from 'fhevmjs';
+import { debugLog, describeError } from './debug';
+import { PrivacyError, isAbortError } from './errors';
+
+export type EncryptionBackendKind = 'fhevmjs' | 'mock' | 'disabled';
+
+export const ENCRYPTION_BACKEND_KINDS: EncryptionBackendKind[] = ['fhevmjs', 'mock', 'disabled'];
+
+// Handles plus one input proof covering all of them, as consumed by the contract
+export interface EncryptedInput {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+// Steps of one encryption, in order, as reported to the UI
+export type EncryptionStage = 'loading-keys' | 'encrypting' | 'generating-proof';
+
+export interface EncryptOptions {
+  // Aborting rejects with an AbortError; nothing is returned for a cancelled request
+  signal?: AbortSignal;
+  onProgress?: (stage: EncryptionStage) => void;
+}
+
+/**
+ * Something that can turn plaintext uint32 values into contract inputs.
+ * FHEVMClient picks one implementation at init time; nothing outside it should
+ * need to know which one is active.
+ */
+export interface EncryptionBackend {
+  readonly kind: EncryptionBackendKind;
+  // True only when the output is real FHE ciphertexts with a verifiable proof
+  readonly isConfidential: boolean;
+  encrypt32(
+    values: number[],
+    contractAddress: string,
+    userAddress: string,
+    options?: EncryptOptions
+  ): Promise<EncryptedInput>;
+  /**
+   * Decrypt handles the signer is allowed to read, without revealing them to
+   * anyone else: the signer authorizes a throwaway keypair with an EIP-712
+   * signature and the values are re-encrypted to that keypair.
+   */
+  userDecrypt(handles: string[], contractAddress: string, signer: Signer): Promise<bigint[]>;
+  // Release resources (a worker) when the backend is replaced
+  dispose?(): void;
+}
+
+export interface FhevmjsConfig {
+  chainId: number;
+  publicKey: string;
+  aclAddress: string;
+  gatewayUrl?: string;
+}
+
+// EIP-712 authorization for re-encryption, same shape as fhevmjs' createEIP712
+export const reencryptAuthorization = (chainId: number, contractAddress: string, publicKey: string) => ({
+  domain: {
+    name: 'Authorization token',
+    version: '1',
+    chainId,
+    verifyingContract: contractAddress
+  },
+  types: {
+    Reencrypt: [{ name: 'publicKey', type: 'bytes' }]
+  },
+  message: { publicKey }
+});
+
+// Give queued messages (a cancel, in a worker) a chance to run between steps
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Real encryption through fhevmjs' encrypted-input builder. Blocks the thread
+ * it runs on; the app runs it inside the encryption worker.
+ */
+export class FhevmjsBackend implements EncryptionBackend {
+  readonly kind = 'fhevmjs';
+  readonly isConfidential = true;
+
+  private constructor(private readonly instance: FhevmInstance) {}
+
+  static async create(config: FhevmjsConfig): Promise<FhevmjsBackend> {
+    debugLog('Attempting to load fhevmjs...');
+
+    // Try dynamic import with error handling
+    let fhevmModule;
+    try {
+      fhevmModule = await import('fhevmjs');
+    } catch (importError) {
+      debugLog('❌ Failed to import fhevmjs', importError);
+      throw importError;
+    }
+
+    const { createInstance } = fhevmModule;
+
+    debugLog('Creating FHEVM instance with config', {
+      chainId: config.chainId,
+      hasCreateInstance: typeof createInstance === 'function'
+    });
+
+    const instance = await createInstance(config);
+    debugLog('✅ FHEVM instance created successfully');
+    return new FhevmjsBackend(instance);
+  }
+
+  getInstance(): FhevmInstance {
+    return this.instance;
+  }
+
+  async encrypt32(
+    values: number[],
+    contractAddress: string,
+    userAddress: string,
+    options: EncryptOptions = {}
+  ): Promise<EncryptedInput> {
+    const { signal, onProgress } = options;
+    let handles: Uint8Array[];
+    let inputProof: Uint8Array;
+    try {
+      signal?.throwIfAborted();
+      onProgress?.('encrypting');
+      const input = this.instance.createEncryptedInput(contractAddress, userAddress);
+      for (const value of values) {
+        input.add32(value);
+      }
+
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+      onProgress?.('generating-proof');
+      ({ handles, inputProof } = input.encrypt());
+      signal?.throwIfAborted();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      debugLog('❌ fhevmjs encryption failed', error);
+      throw new PrivacyError('ENCRYPTION_FAILED', `FHE encryption failed: ${describeError(error)}`, { cause: error });
+    }
+
+    if (handles?.length !== values.length || handles.some(handle => !handle?.length)) {
+      throw new PrivacyError('ENCRYPTION_FAILED', 'fhevmjs did not return a ciphertext for every value');
+    }
+    if (!inputProof?.length) {
+      throw new PrivacyError('MISSING_PROOF', 'fhevmjs did not return an input proof');
+    }
+
+    return { handles, inputProof };
+  }
+
+  async userDecrypt(handles: string[], contractAddress: string, signer: Signer): Promise<bigint[]> {
+    const userAddress = await signer.getAddress();
+    const { publicKey, privateKey } = this.instance.generateKeypair();
+    const eip712 = this.instance.createEIP712(publicKey, contractAddress);
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { Reencrypt: eip712.types.Reencrypt },
+      eip712.message
+    );
+
+    // One signature authorizes every handle; the private key never leaves this tab.
+    // fhevmjs posts each request to its own gateway URL, not through GatewayManager
+    const values: bigint[] = [];
+    for (const handle of handles) {
+      values.push(await this.instance.reencrypt(
+        BigInt(handle),
+        privateKey,
+        publicKey,
+        signature,
+        contractAddress,
+        userAddress
+      ));
+    }
+    return values;
+  }
+}
+
+/**
+ * Deterministic stand-in for tests and simulation mode. Handles look like
+ * ciphertexts but anyone holding the mock secret can decrypt them, so they
+ * offer no privacy at all.
+ *
+ * Handle layout: a 20-byte tag derived from (secret, contract, user, nonce),
+ * the 8-byte nonce, then the value XOR a 4-byte mask derived from the first
+ * 28 bytes. The tag lets the mock check which contract and user a handle
+ * belongs to, like the ACL does on-chain.
+ */
+export class MockEncryptionBackend implements EncryptionBackend {
+  readonly kind = 'mock';
+  readonly isConfidential = false;
+
+  private readonly secret: Uint8Array;
+  private counter = 0;
+
+  constructor(secret: string = 'fhevoting-mock-key') {
+    this.secret = getBytes(keccak256(toUtf8Bytes(secret)));
+  }
+
+  async encrypt32(
+    values: number[],
+    contractAddress: string,
+    userAddress: string,
+    options: EncryptOptions = {}
+  ): Promise<EncryptedInput> {
+    options.signal?.throwIfAborted();
+    options.onProgress?.('encrypting');
+    const handles = values.map(value => this.seal(value, contractAddress, userAddress));
+    const inputProof = getBytes(this.proof(handles, contractAddress, userAddress));
+    options.onProgress?.('generating-proof');
+    return { handles, inputProof };
+  }
+
+  decrypt32(handle: Uint8Array): number {
+    if (handle.length !== 32) {
+      throw new Error('Mock handle must be 32 bytes');
+    }
+    const mask = this.mask(handle.slice(0, 28));
+    const sealed = handle.slice(28);
+    const bytes = sealed.map((byte, i) => byte ^ mask[i]);
+    return new DataView(bytes.buffer).getUint32(0);
+  }
+
+  // Was this handle produced for this contract and user?
+  isBoundTo(handle: Uint8Array, contractAddress: string, userAddress: string): boolean {
+    if (handle.length !== 32) return false;
+    const nonce = new DataView(handle.slice(20, 28).buffer).getBigUint64(0);
+    return hexlify(handle.slice(0, 20)) === hexlify(this.tag(contractAddress, userAddress, nonce));
+  }
+
+  /**
+   * What the on-chain input verifier does for real ciphertexts: every handle
+   * must be bound to this contract and user, and the proof must cover exactly
+   * these handles. A ballot replayed by another account fails here.
+   */
+  verifyInput(input: EncryptedInput, contractAddress: string, userAddress: string): boolean {
+    if (!input.handles.every(handle => this.isBoundTo(handle, contractAddress, userAddress))) {
+      return false;
+    }
+    return hexlify(input.inputProof) === this.proof(input.handles, contractAddress, userAddress);
+  }
+
+  async userDecrypt(handles: string[], contractAddress: string, signer: Signer): Promise<bigint[]> {
+    const userAddress = await signer.getAddress();
+    const chainId = Number((await signer.provider?.getNetwork())?.chainId ?? 0);
+
+    // Same authorization flow as the real gateway, so the UI path is exercised end to end
+    const publicKey = hexlify(randomBytes(32));
+    const { domain, types, message } = reencryptAuthorization(chainId, contractAddress, publicKey);
+    const signature = await signer.signTypedData(domain, types, message);
+    if (verifyTypedData(domain, types, message, signature).toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error('Re-encryption authorization was not signed by the user');
+    }
+
+    return handles.map(handle => {
+      const bytes = getBytes(handle);
+      if (!this.isBoundTo(bytes, contractAddress, userAddress)) {
+        throw new Error('User is not allowed to decrypt this handle');
+      }
+      return BigInt(this.decrypt32(bytes));
+    });
+  }
+
+  private seal(value: number, contractAddress: string, userAddress: string): Uint8Array {
+    if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+      throw new Error('Value must be a uint32');
+    }
+    const nonce = BigInt(this.counter++);
+    const prefix = getBytes(concat([this.tag(contractAddress, userAddress, nonce), toBeHex(nonce, 8)]));
+    const mask = this.mask(prefix);
+    const plain = new Uint8Array(4);
+    new DataView(plain.buffer).setUint32(0, value);
+    return getBytes(concat([prefix, plain.map((byte, i) => byte ^ mask[i])]));
+  }
+
+  private proof(handles: Uint8Array[], contractAddress: string, userAddress: string): string {
+    return keccak256(concat([
+      this.secret,
+      ...handles,
+      solidityPacked(['address', 'address'], [contractAddress, userAddress])
+    ]));
+  }
+
+  private tag(contractAddress: string, userAddress: string, nonce: bigint): Uint8Array {
+    return getBytes(keccak256(solidityPacked(
+      ['bytes32', 'address', 'address', 'uint64'],
+      [this.secret, contractAddress, userAddress, nonce]
+    ))).slice(0, 20);
+  }
+
+  private mask(prefix: Uint8Array): Uint8Array {
+    return getBytes(keccak256(concat([this.secret, prefix]))).slice(0, 4);
+  }
+}
+
+/**
+ * Backend used when encryption must not happen: every call throws with the
+ * reason the real backend could not be set up.
+ */
+export class DisabledEncryptionBackend implements EncryptionBackend {
+  readonly kind = 'disabled';
+  readonly isConfidential = false;
+
+  constructor(readonly reason: string) {}
+
+  async encrypt32(): Promise<EncryptedInput> {
+    throw new PrivacyError('FHE_UNAVAILABLE', `FHE encryption is unavailable: ${this.reason}`);
+  }
+
+  async userDecrypt(): Promise<bigint[]> {
+    throw new PrivacyError('FHE_UNAVAILABLE', `FHE decryption is unavailable: ${this.reason}`);
+  }
+}
+
+// Backend requested through VITE_FHE_BACKEND, if any
+export const getConfiguredBackendKind = (): EncryptionBackendKind | null => {
+  const configured = import.meta.env.VITE_FHE_BACKEND;
+  if (!configured) return null;
+  if ((ENCRYPTION_BACKEND_KINDS as string[]).includes(configured)) {
+    return configured as EncryptionBackendKind;
+  }
+  debugLog('⚠️ Unknown VITE_FHE_BACKEND, ignoring', { configured });
+  return null;
+};
@@ -0,0 +1,82 @@
+// Hosts fhevmjs off the main thread; see WorkerEncryptionBackend for the other side
+import { describeError } from './debug';
+import { FhevmjsBackend } from './encryption';
+import { isAbortError, isPrivacyError } from './errors';
+import type { WorkerRequest, WorkerResponse } from './encryptionWorker';
+
+let backend: Promise<FhevmjsBackend> | null = null;
+const running = new Map<number, AbortController>();
+
+const post = (response: WorkerResponse) => self.postMessage(response);
+
+const getBackend = (): Promise<FhevmjsBackend> => {
+  if (!backend) {
+    throw new Error('Encryption worker is not initialized');
+  }
+  return backend;
+};
+
+async function handle(request: WorkerRequest): Promise<unknown> {
+  switch (request.type) {
+    case 'init':
+      backend = FhevmjsBackend.create(request.config);
+      await backend;
+      return null;
+
+    case 'encrypt': {
+      const controller = new AbortController();
+      running.set(request.id, controller);
+      try {
+        post({ id: request.id, type: 'progress', stage: 'loading-keys' });
+        const ready = await getBackend();
+        return await ready.encrypt32(request.values, request.contractAddress, request.userAddress, {
+          signal: controller.signal,
+          onProgress: stage => post({ id: request.id, type: 'progress', stage })
+        });
+      } finally {
+        running.delete(request.id);
+      }
+    }
+
+    case 'generate-keypair':
+      return (await getBackend()).getInstance().generateKeypair();
+
+    case 'reencrypt': {
+      const instance = (await getBackend()).getInstance();
+      const values: bigint[] = [];
+      for (const handle of request.handles) {
+        values.push(await instance.reencrypt(
+          BigInt(handle),
+          request.privateKey,
+          request.publicKey,
+          request.signature,
+          request.contractAddress,
+          request.userAddress
+        ));
+      }
+      return values;
+    }
+
+    case 'cancel':
+      running.get(request.target)?.abort();
+      return null;
+  }
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  try {
+    const result = await handle(request);
+    if (request.type !== 'cancel') {
+      post({ id: request.id, type: 'result', result });
+    }
+  } catch (error) {
+    post({
+      id: request.id,
+      type: 'error',
+      message: describeError(error),
+      reason: isPrivacyError(error) ? error.reason : null,
+      aborted: isAbortError(error)
+    });
+  }
+};
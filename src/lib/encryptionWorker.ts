@@ -0,0 +1,176 @@
+import { Signer } from 'ethers';
+import { debugLog } from './debug';
+import { PrivacyError, PrivacyErrorReason } from './errors';
+import {
+  EncryptOptions,
+  EncryptedInput,
+  EncryptionBackend,
+  EncryptionStage,
+  FhevmjsConfig,
+  reencryptAuthorization
+} from './encryption';
+
+// Messages the main thread sends to the encryption worker
+export type WorkerRequestBody =
+  | { type: 'init'; config: FhevmjsConfig }
+  | { type: 'encrypt'; values: number[]; contractAddress: string; userAddress: string }
+  | { type: 'generate-keypair' }
+  | {
+      type: 'reencrypt';
+      handles: string[];
+      privateKey: string;
+      publicKey: string;
+      signature: string;
+      contractAddress: string;
+      userAddress: string;
+    }
+  // Stop request `target`; never answered
+  | { type: 'cancel'; target: number };
+
+export type WorkerRequest = WorkerRequestBody & { id: number };
+
+// Every request except cancel gets exactly one result or error, possibly preceded by progress
+export type WorkerResponse =
+  | { id: number; type: 'progress'; stage: EncryptionStage }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string; reason: PrivacyErrorReason | null; aborted: boolean };
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (stage: EncryptionStage) => void;
+}
+
+export const supportsEncryptionWorker = (): boolean => typeof Worker !== 'undefined';
+
+/**
+ * fhevmjs running in a dedicated worker, so loading keys and generating proofs
+ * never freeze the UI. Same promise API as the in-thread FhevmjsBackend, plus
+ * progress events and cancellation through EncryptOptions.
+ */
+export class WorkerEncryptionBackend implements EncryptionBackend {
+  readonly kind = 'fhevmjs';
+  readonly isConfidential = true;
+
+  private readonly pending = new Map<number, PendingCall>();
+  private nextId = 1;
+
+  private constructor(private readonly worker: Worker, private readonly chainId: number) {
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.onMessage(event.data);
+    worker.onerror = event => {
+      debugLog('❌ Encryption worker crashed', event.message);
+      this.failAll(new Error(`Encryption worker crashed: ${event.message || 'unknown error'}`));
+    };
+  }
+
+  // Resolves once fhevmjs has loaded the public key inside the worker
+  static async create(config: FhevmjsConfig): Promise<WorkerEncryptionBackend> {
+    const worker = new Worker(new URL('./encryption.worker.ts', import.meta.url), { type: 'module' });
+    const backend = new WorkerEncryptionBackend(worker, config.chainId);
+    try {
+      await backend.call({ type: 'init', config });
+    } catch (error) {
+      backend.dispose();
+      throw error;
+    }
+    debugLog('✅ Encryption worker ready');
+    return backend;
+  }
+
+  encrypt32(
+    values: number[],
+    contractAddress: string,
+    userAddress: string,
+    options: EncryptOptions = {}
+  ): Promise<EncryptedInput> {
+    return this.call<EncryptedInput>({ type: 'encrypt', values, contractAddress, userAddress }, options);
+  }
+
+  async userDecrypt(handles: string[], contractAddress: string, signer: Signer): Promise<bigint[]> {
+    const userAddress = await signer.getAddress();
+    const { publicKey, privateKey } = await this.call<{ publicKey: string; privateKey: string }>({
+      type: 'generate-keypair'
+    });
+    // fhevmjs keys are bare hex; its EIP-712 message carries them 0x-prefixed
+    const { domain, types, message } = reencryptAuthorization(this.chainId, contractAddress, `0x${publicKey}`);
+    const signature = await signer.signTypedData(domain, types, message);
+
+    return this.call<bigint[]>({
+      type: 'reencrypt',
+      handles,
+      privateKey,
+      publicKey,
+      signature,
+      contractAddress,
+      userAddress
+    });
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+    this.failAll(new Error('Encryption worker was shut down'));
+  }
+
+  private call<T>(body: WorkerRequestBody, options: EncryptOptions = {}): Promise<T> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        // The worker drops the result; the caller is released straight away
+        this.pending.delete(id);
+        this.post({ type: 'cancel', target: id });
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as T);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress
+      });
+      this.post(body, id);
+    });
+  }
+
+  private post(body: WorkerRequestBody, id: number = this.nextId++): void {
+    const request: WorkerRequest = { ...body, id };
+    this.worker.postMessage(request);
+  }
+
+  private onMessage(response: WorkerResponse): void {
+    const call = this.pending.get(response.id);
+    if (!call) return; // cancelled
+
+    if (response.type === 'progress') {
+      call.onProgress?.(response.stage);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.type === 'result') {
+      call.resolve(response.result);
+    } else if (response.aborted) {
+      call.reject(new DOMException(response.message, 'AbortError'));
+    } else if (response.reason) {
+      call.reject(new PrivacyError(response.reason, response.message));
+    } else {
+      call.reject(new Error(response.message));
+    }
+  }
+
+  private failAll(error: Error): void {
+    const calls = [...this.pending.values()];
+    this.pending.clear();
+    calls.forEach(call => call.reject(error));
+  }
+}
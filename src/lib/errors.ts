@@ -0,0 +1,70 @@
+// Reasons a vote can be refused before it reaches the chain
+export type PrivacyErrorReason =
+  | 'FHE_UNAVAILABLE'
+  | 'ENCRYPTION_FAILED'
+  | 'MISSING_PROOF'
+  | 'SIMULATION_NOT_ALLOWED'
+  | 'BALLOT_MISMATCH';
+
+/**
+ * Raised in strict privacy mode when a ballot could not be protected by real
+ * fhevmjs ciphertexts and proofs, or when a ballot is not bound to the vote it
+ * is being sent for. Nothing has been submitted when this is thrown.
+ */
+export class PrivacyError extends Error {
+  readonly reason: PrivacyErrorReason;
+
+  constructor(reason: PrivacyErrorReason, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'PrivacyError';
+    this.reason = reason;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export const isPrivacyError = (error: unknown): error is PrivacyError =>
+  error instanceof PrivacyError;
+
+// Thrown by AbortSignal.throwIfAborted() and by cancelled encryptions
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Why the voting contract refused a call, decoded from its revert data
+export type ContractErrorReason =
+  | 'ALREADY_VOTED'
+  | 'NOT_AUTHORIZED'
+  | 'VOTING_CLOSED'
+  | 'VOTING_STILL_OPEN'
+  | 'PROPOSAL_NOT_FOUND'
+  | 'PROPOSAL_INACTIVE'
+  | 'RESULTS_ALREADY_REVEALED'
+  | 'DECRYPTION_PENDING'
+  | 'PROPOSAL_HAS_VOTES'
+  | 'INVALID_ARGUMENTS'
+  | 'PANIC'
+  | 'UNKNOWN';
+
+/**
+ * A revert from the voting contract with a message fit for the user. When
+ * `preflight` is true it came from simulating the call, so nothing was sent
+ * and the wallet was never asked to sign.
+ */
+export class ContractError extends Error {
+  readonly reason: ContractErrorReason;
+  readonly preflight: boolean;
+
+  constructor(reason: ContractErrorReason, message: string, options?: { preflight?: boolean; cause?: unknown }) {
+    super(message);
+    this.name = 'ContractError';
+    this.reason = reason;
+    this.preflight = options?.preflight ?? false;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export const isContractError = (error: unknown): error is ContractError =>
+  error instanceof ContractError;
@@ -0,0 +1,102 @@
+import { BrowserProvider, Wallet, hexlify } from 'ethers';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { sealBallot, type BallotBinding } from './ballot';
+import { DisabledEncryptionBackend, MockEncryptionBackend } from './encryption';
+import { FHEVMClient } from './fhevm';
+
+const VOTING_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const voter = Wallet.createRandom();
+const outsider = Wallet.createRandom();
+// Never called: a ready-made backend needs no chain
+const provider = new BrowserProvider({ request: async () => null });
+
+const binding: BallotBinding = {
+  chainId: 31337,
+  contractAddress: VOTING_ADDRESS,
+  proposalId: 4,
+  voter: voter.address
+};
+
+describe('FHEVMClient ballots', () => {
+  let backend: MockEncryptionBackend;
+  let client: FHEVMClient;
+
+  beforeEach(async () => {
+    backend = new MockEncryptionBackend();
+    client = new FHEVMClient();
+    await client.init(provider, { backend, simulation: true });
+  });
+
+  it('encrypts a ballot as one handle per option with a single 1', async () => {
+    const envelope = await client.encryptBallot(2, 4, binding);
+
+    expect(envelope).toMatchObject({ ...binding, version: 1 });
+    expect(envelope.handles.map(handle => backend.decrypt32(handle))).toEqual([0, 0, 1, 0]);
+    expect(backend.verifyInput(envelope, VOTING_ADDRESS, voter.address)).toBe(true);
+
+    const { encryptedBallot, inputProof } = client.toContractInput(envelope);
+    expect(encryptedBallot).toEqual(envelope.handles.map(hexlify));
+    expect(inputProof).toBe(hexlify(envelope.inputProof));
+  });
+
+  it('refuses an option outside the ballot', async () => {
+    await expect(client.encryptBallot(4, 4, binding)).rejects.toThrow('Invalid option');
+    await expect(client.encryptBallot(-1, 4, binding)).rejects.toThrow('Invalid option');
+    await expect(client.encryptBallot(0, 1, binding)).rejects.toThrow('Ballot must have at least 2 options');
+  });
+
+  it('accepts a ballot only for the binding it was encrypted for', async () => {
+    const envelope = await client.encryptBallot(0, 2, binding);
+    expect(() => client.verifyBallot(envelope, binding)).not.toThrow();
+
+    expect(() => client.verifyBallot(envelope, { ...binding, proposalId: 5 }))
+      .toThrow('Ballot not submitted: ballot was encrypted for proposal 4, not 5');
+    expect(() => client.verifyBallot(envelope, { ...binding, chainId: 1 }))
+      .toThrow('Ballot not submitted: ballot was encrypted for chain 31337, not 1');
+    expect(() => client.verifyBallot(envelope, { ...binding, voter: outsider.address }))
+      .toThrow(expect.objectContaining({ name: 'PrivacyError', reason: 'BALLOT_MISMATCH' }));
+  });
+
+  it('refuses a ballot whose proof is not valid for the voter', async () => {
+    // Someone else's ciphertexts, relabelled for this voter
+    const stolen = await backend.encrypt32([1, 0], VOTING_ADDRESS, outsider.address);
+    expect(() => client.verifyBallot(sealBallot(binding, stolen), binding))
+      .toThrow('Ballot not submitted: input proof is not valid for this voter');
+
+    const envelope = await client.encryptBallot(1, 2, binding);
+    const inputProof = envelope.inputProof.slice();
+    inputProof[31] ^= 1;
+    expect(() => client.verifyBallot({ ...envelope, inputProof }, binding))
+      .toThrow(expect.objectContaining({ name: 'PrivacyError', reason: 'BALLOT_MISMATCH' }));
+  });
+
+  it('refuses mock ciphertexts under strict privacy', async () => {
+    await client.init(provider, { backend, strictPrivacy: true });
+
+    await expect(client.encryptBallot(0, 2, binding))
+      .rejects.toMatchObject({ name: 'PrivacyError', reason: 'SIMULATION_NOT_ALLOWED' });
+  });
+
+  it('passes on why encryption is unavailable', async () => {
+    await client.init(provider, { backend: new DisabledEncryptionBackend('no public key'), strictPrivacy: true });
+
+    await expect(client.encryptBallot(0, 2, binding))
+      .rejects.toMatchObject({ name: 'PrivacyError', reason: 'FHE_UNAVAILABLE' });
+  });
+
+  it('decrypts the voter\'s own ballot back to the chosen option', async () => {
+    const envelope = await client.encryptBallot(1, 3, binding);
+    const handles = envelope.handles.map(hexlify);
+
+    expect(await client.decryptBallot(handles, VOTING_ADDRESS, voter)).toBe(1);
+    await expect(client.decryptBallot(handles, VOTING_ADDRESS, outsider)).rejects.toThrow('User is not allowed to decrypt this handle');
+    await expect(client.decryptBallot([], VOTING_ADDRESS, voter)).rejects.toThrow('No ballot found for this account');
+  });
+
+  it('refuses to read a stored ballot that is not one-hot', async () => {
+    const { handles } = await backend.encrypt32([1, 1, 0], VOTING_ADDRESS, voter.address);
+
+    await expect(client.decryptBallot(handles.map(hexlify), VOTING_ADDRESS, voter))
+      .rejects.toThrow('Stored ballot is not a valid one-hot vector');
+  });
+});
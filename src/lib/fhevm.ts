@@ -1,237 +1,440 @@
-import { BrowserProvider } from 'ethers';
-
-// Debug logging utility
-const debugLog = (message: string, data?: any) => {
-  if (import.meta.env.VITE_DEBUG_MODE === 'true') {
-    console.log(`[FHEVM Debug] ${message}`, data || '');
-  }
-};
-
-// Zama configuration from environment variables
-const ZAMA_CONFIG = {
-  oracleAddress: import.meta.env.VITE_ZAMA_ORACLE_ADDRESS || '0xa02Cda4Ca3a71D7C46997716F4283aa851C28812',
-  aclAddress: import.meta.env.VITE_ZAMA_ACL_ADDRESS || '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
-  executorAddress: import.meta.env.VITE_ZAMA_EXECUTOR_ADDRESS || '0xCD3ab3bd6bcc0c0bf3E27912a92043e817B1cf69',
-  kmsVerifierAddress: import.meta.env.VITE_ZAMA_KMS_VERIFIER_ADDRESS || '0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC',
-  inputVerifierAddress: import.meta.env.VITE_ZAMA_INPUT_VERIFIER_ADDRESS || '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
-  gateways: [
-    import.meta.env.VITE_ZAMA_GATEWAY_PRIMARY || 'https://gateway.sepolia.zama.ai',
-    import.meta.env.VITE_ZAMA_GATEWAY_FALLBACK || 'https://fhevm-gateway.zama.ai',
-    import.meta.env.VITE_ZAMA_GATEWAY_BACKUP || 'https://api.zama.ai/fhevm'
-  ]
-};
-
-// Hardcoded public key for Sepolia testnet (fallback when gateway is down)
-const SEPOLIA_FALLBACK_PUBLIC_KEY = "0x8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b8b";
+import { Provider, Signer } from 'ethers';
+import { debugLog, describeError } from './debug';
+import { PrivacyError, isAbortError, isPrivacyError } from './errors';
+import { WorkerEncryptionBackend, supportsEncryptionWorker } from './encryptionWorker';
+import {
+  DisabledEncryptionBackend,
+  EncryptOptions,
+  EncryptedInput,
+  EncryptionBackend,
+  EncryptionBackendKind,
+  FhevmjsBackend,
+  MockEncryptionBackend,
+  getConfiguredBackendKind
+} from './encryption';
+import { BallotBinding, BallotEnvelope, assertBallotBinding, sealBallot } from './ballot';
+import { GatewayManager, GatewayStatus } from './gateway';
+import { ChainConfig, DEFAULT_CHAIN, getChain } from './chains';
+import {
+  PublicKeyRecord,
+  PublicKeyStore,
+  checkPublicKey,
+  fingerprintPublicKey,
+  publicKeyId
+} from './keystore';
+
+// Cached public keys are used for a day, and checked for rotation in the background after an hour
+const PUBLIC_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const PUBLIC_KEY_REVALIDATE_MS = 60 * 60 * 1000;
+
+export type PublicKeySource = 'cache' | 'gateway' | 'none';
+
+export interface FHEVMInitOptions {
+  // The app itself is running in simulation mode (no live contract)
+  simulation?: boolean;
+  // Refuse simulated ciphertexts; defaults to VITE_STRICT_PRIVACY, on unless set to 'false'
+  strictPrivacy?: boolean;
+  // Backend to use instead of VITE_FHE_BACKEND, or a ready-made one (tests)
+  backend?: EncryptionBackendKind | EncryptionBackend;
+  // Registry entry for the connected network; looked up from the provider when omitted
+  chain?: ChainConfig;
+}
 
 export class FHEVMClient {
-  private instance: any = null;
-  private provider: BrowserProvider | null = null;
+  private backend: EncryptionBackend = new DisabledEncryptionBackend('FHEVM client not initialized');
+  private provider: Provider | null = null;
   private isReady: boolean = false;
-  private publicKey: string | null = null;
-  private isDevelopmentMode: boolean = false;
-
-  async init(provider: BrowserProvider): Promise<void> {
+  private publicKey: PublicKeyRecord | null = null;
+  private publicKeySource: PublicKeySource = 'none';
+  private readonly keyStore = new PublicKeyStore();
+  private explicitSimulation: boolean = false;
+  private strictPrivacy: boolean = true;
+  private initError: string | null = null;
+  private chain: ChainConfig = DEFAULT_CHAIN;
+  private readonly gateways = new GatewayManager(DEFAULT_CHAIN.gateways);
+
+  async init(provider: Provider, options: FHEVMInitOptions = {}): Promise<void> {
     this.provider = provider;
-    this.isDevelopmentMode = import.meta.env.VITE_DEVELOPMENT_MODE === 'true';
+    this.isReady = false;
+    this.initError = null;
+    this.publicKey = null;
+    this.publicKeySource = 'none';
+    this.explicitSimulation = options.simulation === true || import.meta.env.VITE_DEVELOPMENT_MODE === 'true';
+    this.strictPrivacy = options.strictPrivacy ?? import.meta.env.VITE_STRICT_PRIVACY !== 'false';
+    if (options.chain) {
+      this.useChain(options.chain);
+    }
+
+    if (options.backend && typeof options.backend !== 'string') {
+      this.useBackend(options.backend);
+      this.isReady = true;
+      debugLog('Using provided encryption backend', { backend: this.backend.kind });
+      return;
+    }
+
+    // The devnet's mock coprocessor can only read ciphertexts from the mock backend
+    const kind = options.backend ??
+      (this.chain.coprocessor === 'mock' ? 'mock' : null) ??
+      getConfiguredBackendKind() ??
+      (this.explicitSimulation ? 'mock' : 'fhevmjs');
     
-    try {
-      debugLog('Starting FHEVM initialization...', {
-        developmentMode: this.isDevelopmentMode,
-        zamaConfig: ZAMA_CONFIG
-      });
-      
-      // Get network info
-      const network = await provider.getNetwork();
-      const chainId = Number(network.chainId);
-      
-      debugLog('Network detected', { chainId, name: network.name });
-      
-      if (chainId !== 11155111) {
-        debugLog('⚠️ Warning: FHEVM is optimized for Sepolia (11155111)', { currentChain: chainId });
+    debugLog('Starting FHEVM initialization...', {
+      backend: kind,
+      strictPrivacy: this.strictPrivacy,
+      chainId: options.chain?.chainId
+    });
+
+    if (kind === 'mock') {
+      this.useBackend(new MockEncryptionBackend());
+    } else if (kind === 'disabled') {
+      this.useBackend(new DisabledEncryptionBackend('encryption is disabled by configuration'));
+    } else {
+      try {
+        this.useBackend(await this.createFhevmjsBackend(provider));
+      } catch (error) {
+        this.initError = describeError(error);
+        this.useBackend(this.fallbackBackend(this.initError));
+        debugLog('❌ fhevmjs initialization failed', {
+          error,
+          fallback: this.backend.kind
+        });
       }
+    }
 
-      // Try to get public key from multiple sources
-      await this.fetchPublicKeyWithFallbacks();
+    this.isReady = true;
+    debugLog('✅ FHEVM client initialization completed', {
+      backend: this.backend.kind,
+      hasPublicKey: !!this.publicKey
+    });
+  }
 
-      // Try to initialize fhevmjs only if not in development mode
-      if (!this.isDevelopmentMode) {
-        try {
-          await this.initializeFHEVMJS();
-        } catch (fhevmError) {
-          debugLog('❌ fhevmjs initialization failed, switching to development mode', fhevmError);
-          this.isDevelopmentMode = true;
-        }
+  private async createFhevmjsBackend(provider: Provider): Promise<EncryptionBackend> {
+    // Get network info
+    const network = await provider.getNetwork();
+    const chainId = Number(network.chainId);
+    
+    debugLog('Network detected', { chainId, name: network.name });
+    
+    if (this.chain.chainId !== chainId) {
+      const chain = getChain(chainId);
+      if (!chain) {
+        throw new Error(`Chain ${chainId} is not in the chain registry`);
       }
+      this.useChain(chain);
+    }
 
-      if (this.isDevelopmentMode) {
-        debugLog('🔧 Running in development/simulation mode');
-        this.isReady = true; // Mark as ready for simulation
-      }
+    // Cached key when fresh, otherwise the gateways
+    await this.loadPublicKey(chainId);
+    const keyProblem = checkPublicKey(this.publicKey?.publicKey);
+    if (keyProblem) {
+      throw new Error(`No usable FHE public key: ${keyProblem}`);
+    }
 
-      debugLog('✅ FHEVM client initialization completed', {
-        isReady: this.isReady,
-        developmentMode: this.isDevelopmentMode,
-        hasPublicKey: !!this.publicKey
-      });
-    } catch (error) {
-      debugLog('❌ FHEVM initialization failed, falling back to simulation mode', error);
-      this.isDevelopmentMode = true;
-      this.isReady = true; // Still ready for simulation
+    return this.createBackendForKey(this.publicKey!);
+  }
+
+  private useBackend(backend: EncryptionBackend): void {
+    if (backend !== this.backend) {
+      this.backend.dispose?.();
     }
+    this.backend = backend;
+  }
+
+  private useChain(chain: ChainConfig): void {
+    this.chain = chain;
+    this.gateways.setGateways(chain.gateways);
+  }
+
+  private createBackendForKey(record: PublicKeyRecord): Promise<EncryptionBackend> {
+    // Create instance with the connected chain's Zama configuration
+    const config = {
+      chainId: record.chainId,
+      publicKey: record.publicKey,
+      aclAddress: record.aclAddress,
+      // fhevmjs sends re-encryption requests itself, outside GatewayManager; point it at the healthiest gateway
+      gatewayUrl: this.gateways.getBestGateway() ?? undefined,
+    };
+    // Off the main thread when the browser allows it, so the dashboard stays responsive
+    return supportsEncryptionWorker()
+      ? WorkerEncryptionBackend.create(config)
+      : FhevmjsBackend.create(config);
   }
 
-  private async initializeFHEVMJS(): Promise<void> {
+  // What to use when fhevmjs is unavailable: the mock in explicit simulation, nothing otherwise
+  private fallbackBackend(reason: string): EncryptionBackend {
+    if (this.explicitSimulation) {
+      return new MockEncryptionBackend();
+    }
+    return new DisabledEncryptionBackend(reason);
+  }
+
+  private async loadPublicKey(chainId: number): Promise<void> {
+    const aclAddress = this.chain.zama.aclAddress;
+    let cached: PublicKeyRecord | null = null;
     try {
-      debugLog('Attempting to load fhevmjs...');
-      
-      // Try dynamic import with error handling
-      let fhevmModule;
-      try {
-        fhevmModule = await import('fhevmjs');
-      } catch (importError) {
-        debugLog('❌ Failed to import fhevmjs, using simulation mode', importError);
-        throw importError;
+      cached = await this.keyStore.get(chainId, aclAddress);
+    } catch (error) {
+      debugLog('⚠️ Public key cache unavailable', error);
+    }
+
+    const now = Date.now();
+    if (cached && now < cached.expiresAt) {
+      this.publicKey = cached;
+      this.publicKeySource = 'cache';
+      debugLog('✅ Using cached public key', { fingerprint: cached.fingerprint });
+
+      if (now - cached.fetchedAt > PUBLIC_KEY_REVALIDATE_MS) {
+        void this.refreshPublicKey().catch(error => debugLog('⚠️ Public key revalidation failed', error));
       }
+      return;
+    }
 
-      const { createInstance } = fhevmModule;
-      
-      debugLog('Creating FHEVM instance with config', {
-        chainId: 11155111,
-        publicKey: this.publicKey ? 'Available' : 'Using fallback',
-        hasCreateInstance: typeof createInstance === 'function'
-      });
-
-      // Create instance for Sepolia with Zama configuration
-      this.instance = await createInstance({
-        chainId: 11155111, // Sepolia
-        publicKey: this.publicKey || SEPOLIA_FALLBACK_PUBLIC_KEY,
-        aclAddress: ZAMA_CONFIG.aclAddress,
-      });
-      
-      this.isReady = true;
-      debugLog('✅ FHEVM instance created successfully');
+    const fetched = await this.fetchPublicKeyWithFallbacks(chainId);
+    if (fetched) {
+      if (cached && cached.fingerprint !== fetched.fingerprint) {
+        debugLog('🔄 FHE public key rotated', { from: cached.fingerprint, to: fetched.fingerprint });
+      }
+      await this.storePublicKey(fetched);
+      this.publicKey = fetched;
+      this.publicKeySource = 'gateway';
+      return;
+    }
+
+    // Never fall back to an expired or placeholder key
+    this.publicKey = null;
+    this.publicKeySource = 'none';
+  }
+
+  /**
+   * Fetch the key from the gateways even if the cache is fresh. When its
+   * fingerprint changed the key was rotated: the cache is replaced and the
+   * fhevmjs backend is rebuilt so no ciphertext is made under the old key.
+   */
+  async refreshPublicKey(): Promise<boolean> {
+    if (!this.provider) return false;
+
+    const chainId = Number((await this.provider.getNetwork()).chainId);
+    const fetched = await this.fetchPublicKeyWithFallbacks(chainId);
+    if (!fetched) return false;
+
+    const rotated = !!this.publicKey && this.publicKey.fingerprint !== fetched.fingerprint;
+    await this.storePublicKey(fetched);
+    this.publicKey = fetched;
+    this.publicKeySource = 'gateway';
+
+    if (rotated) {
+      debugLog('🔄 FHE public key rotated, rebuilding encryption backend', { fingerprint: fetched.fingerprint });
+      if (this.backend.kind === 'fhevmjs') {
+        try {
+          this.useBackend(await this.createBackendForKey(fetched));
+        } catch (error) {
+          this.initError = describeError(error);
+          this.useBackend(this.fallbackBackend(this.initError));
+        }
+      }
+    }
+    return rotated;
+  }
+
+  private async storePublicKey(record: PublicKeyRecord): Promise<void> {
+    try {
+      await this.keyStore.put(record);
     } catch (error) {
-      debugLog('❌ FHEVM instance creation failed', error);
-      throw error;
+      debugLog('⚠️ Could not cache public key', error);
     }
   }
 
-  private async fetchPublicKeyWithFallbacks(): Promise<void> {
+  private async fetchPublicKeyWithFallbacks(chainId: number): Promise<PublicKeyRecord | null> {
     debugLog('Fetching public key from Zama infrastructure...');
     
-    // Try multiple gateway endpoints
-    for (const gateway of ZAMA_CONFIG.gateways) {
-      try {
-        debugLog(`Trying gateway: ${gateway}`);
-        
-        const response = await fetch(`${gateway}/public-key`, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          timeout: 5000, // 5 second timeout
+    // The gateway manager tries endpoints best-first with real deadlines
+    try {
+      const data = await this.gateways.requestJson<Record<string, string>>('/public-key', { method: 'GET' });
+      const publicKey = data.publicKey || data.public_key || data.key;
+      const keyProblem = checkPublicKey(publicKey);
+      
+      if (!keyProblem) {
+        const fetchedAt = Date.now();
+        const record: PublicKeyRecord = {
+          id: publicKeyId(chainId, this.chain.zama.aclAddress),
+          chainId,
+          aclAddress: this.chain.zama.aclAddress,
+          publicKey,
+          fingerprint: fingerprintPublicKey(publicKey),
+          fetchedAt,
+          expiresAt: fetchedAt + PUBLIC_KEY_TTL_MS
+        };
+        debugLog('✅ Public key fetched successfully', { 
+          keyLength: publicKey.length,
+          fingerprint: record.fingerprint
         });
-
-        if (response.ok) {
-          const data = await response.json();
-          this.publicKey = data.publicKey || data.public_key || data.key;
-          
-          if (this.publicKey) {
-            debugLog('✅ Public key fetched successfully', { 
-              gateway, 
-              keyLength: this.publicKey.length 
-            });
-            return;
-          }
-        }
-        
-        debugLog(`❌ Gateway ${gateway} failed with status: ${response.status}`);
-      } catch (error) {
-        debugLog(`❌ Gateway ${gateway} failed:`, error);
-        continue;
+        return record;
       }
+      debugLog('❌ Gateway returned an unusable public key', { problem: keyProblem });
+    } catch (error) {
+      debugLog('❌ All gateways failed:', error);
     }
 
-    // All gateways failed, use fallback
-    debugLog('⚠️ All gateways failed, using hardcoded fallback public key');
-    this.publicKey = SEPOLIA_FALLBACK_PUBLIC_KEY;
+    debugLog('⚠️ No public key available, FHE encryption will be refused');
+    return null;
   }
 
-  async encrypt32(value: number): Promise<{ data: Uint8Array; proof: Uint8Array }> {
-    debugLog('Encrypting value', { value, developmentMode: this.isDevelopmentMode });
+  getPublicKeyInfo(): { source: PublicKeySource; fingerprint: string | null; fetchedAt: number | null; expiresAt: number | null } {
+    return {
+      source: this.publicKeySource,
+      fingerprint: this.publicKey?.fingerprint ?? null,
+      fetchedAt: this.publicKey?.fetchedAt ?? null,
+      expiresAt: this.publicKey?.expiresAt ?? null
+    };
+  }
 
-    if (this.isDevelopmentMode || !this.isReady || !this.instance) {
-      debugLog('🔧 Using simulation encryption');
-      return this.simulateEncryption(value);
+  async encrypt32(
+    value: number,
+    contractAddress: string,
+    userAddress: string,
+    options: EncryptOptions = {}
+  ): Promise<{ data: Uint8Array; proof: Uint8Array }> {
+    // Never log the plaintext value: it may be a voter's choice
+    debugLog('Encrypting value', { backend: this.backend.kind });
+
+    const { handles, inputProof } = await this.encryptValues([value], contractAddress, userAddress, options);
+    return { data: handles[0], proof: inputProof };
+  }
+
+  /**
+   * Encrypt a ballot as a one-hot vector: one encrypted 0/1 per option, with a
+   * single input proof covering every handle. The encrypted-input builder binds
+   * the ciphertexts to the binding's contract and voter, and the returned
+   * envelope records the chain and proposal too. The chosen option never leaves
+   * this method in clear. Progress and cancellation go through options.
+   */
+  async encryptBallot(
+    optionIndex: number,
+    optionCount: number,
+    binding: BallotBinding,
+    options: EncryptOptions = {}
+  ): Promise<BallotEnvelope> {
+    if (!Number.isInteger(optionCount) || optionCount < 2) {
+      throw new Error('Ballot must have at least 2 options');
+    }
+    if (!Number.isInteger(optionIndex) || optionIndex < 0 || optionIndex >= optionCount) {
+      throw new Error('Invalid option');
     }
 
-    try {
-      debugLog('🔐 Encrypting value with FHEVM', { value });
-      
-      // Encrypt the value using fhevmjs
-      const encrypted = this.instance.encrypt32(value);
-      
-      debugLog('✅ Encryption successful', { 
-        dataLength: encrypted.data?.length,
-        proofLength: encrypted.proof?.length 
-      });
-      
-      return {
-        data: encrypted.data,
-        proof: encrypted.proof || new Uint8Array(0)
-      };
-    } catch (error) {
-      debugLog('❌ Encryption failed, using simulation', error);
-      return this.simulateEncryption(value);
+    debugLog('Encrypting ballot', { optionCount, backend: this.backend.kind });
+
+    const values = Array.from({ length: optionCount }, (_, i) => (i === optionIndex ? 1 : 0));
+    const encrypted = await this.encryptValues(values, binding.contractAddress, binding.voter, options);
+
+    debugLog('✅ Ballot encrypted', {
+      handleCount: encrypted.handles.length,
+      proofLength: encrypted.inputProof.length
+    });
+
+    return sealBallot(binding, encrypted);
+  }
+
+  /**
+   * Refuse a ballot that is not bound to `expected`. With the mock backend the
+   * handles and proof are checked too, standing in for the on-chain input
+   * verifier; real proofs are checked by the contract.
+   */
+  verifyBallot(envelope: BallotEnvelope, expected: BallotBinding): void {
+    assertBallotBinding(envelope, expected);
+    if (
+      this.backend instanceof MockEncryptionBackend &&
+      !this.backend.verifyInput(envelope, expected.contractAddress, expected.voter)
+    ) {
+      throw new PrivacyError('BALLOT_MISMATCH', 'Ballot not submitted: input proof is not valid for this voter');
     }
   }
 
-  private simulateEncryption(value: number): { data: Uint8Array; proof: Uint8Array } {
-    debugLog('🔒 Using simulated encryption', { value });
-    
-    // Create deterministic but secure-looking simulation
-    const data = new Uint8Array(32);
-    const proof = new Uint8Array(32);
-    
-    // Fill with pseudo-random data based on value and timestamp
-    const seed = value + Date.now();
-    for (let i = 0; i < 32; i++) {
-      data[i] = (seed * 7 + i * 13) % 256;
-      proof[i] = (seed * 11 + i * 17) % 256;
+  private async encryptValues(
+    values: number[],
+    contractAddress: string,
+    userAddress: string,
+    options: EncryptOptions
+  ): Promise<EncryptedInput> {
+    // Simulated ciphertexts are only acceptable when explicitly simulating or when strict mode is off
+    if (this.backend.kind === 'mock' && this.isStrictPrivacy()) {
+      throw new PrivacyError(
+        'SIMULATION_NOT_ALLOWED',
+        'Simulated encryption is not allowed outside simulation mode'
+      );
+    }
+
+    try {
+      return await this.backend.encrypt32(values, contractAddress, userAddress, options);
+    } catch (error) {
+      // A cancelled vote is not a failure and must not fall back to anything
+      if (isAbortError(error)) throw error;
+      // Mock ciphertexts must never reach a live contract, so only explicit simulation falls back
+      if (!this.explicitSimulation || this.backend.kind !== 'fhevmjs') {
+        throw isPrivacyError(error)
+          ? error
+          : new PrivacyError('ENCRYPTION_FAILED', `FHE encryption failed: ${describeError(error)}`, { cause: error });
+      }
+      debugLog('❌ Encryption failed, using mock backend', error);
+      return new MockEncryptionBackend().encrypt32(values, contractAddress, userAddress, options);
     }
-    
-    return { data, proof };
   }
 
-  async encryptVote(vote: number): Promise<{ encryptedVote: Uint8Array; proof: Uint8Array }> {
-    if (vote !== 0 && vote !== 1) {
-      throw new Error('Vote must be 0 or 1');
+  /**
+   * Decrypt the voter's own one-hot ballot and return the chosen option. Only
+   * the signer can authorize this, and the result stays in the browser.
+   */
+  async decryptBallot(handles: string[], contractAddress: string, signer: Signer): Promise<number> {
+    if (handles.length === 0) {
+      throw new Error('No ballot found for this account');
     }
 
-    debugLog('Encrypting vote', { vote, mode: this.isDevelopmentMode ? 'simulation' : 'fhevm' });
-    
-    const encrypted = await this.encrypt32(vote);
-    return {
-      encryptedVote: encrypted.data,
-      proof: encrypted.proof
-    };
+    debugLog('Requesting user decryption of ballot', { handleCount: handles.length, backend: this.backend.kind });
+    const values = await this.backend.userDecrypt(handles, contractAddress, signer);
+
+    const chosen = values.flatMap((value, index) => (value === 1n ? [index] : []));
+    if (chosen.length !== 1 || values.some(value => value > 1n)) {
+      throw new Error('Stored ballot is not a valid one-hot vector');
+    }
+    return chosen[0];
   }
 
   isInitialized(): boolean {
     return this.isReady;
   }
 
+  // The in-thread fhevmjs instance; null when it lives in the encryption worker
   getInstance() {
-    return this.instance;
+    return this.backend instanceof FhevmjsBackend ? this.backend.getInstance() : null;
+  }
+
+  getBackend(): EncryptionBackend {
+    return this.backend;
   }
 
   getZamaConfig() {
-    return ZAMA_CONFIG;
+    return { ...this.chain.zama, gateways: this.chain.gateways };
+  }
+
+  getChain(): ChainConfig {
+    return this.chain;
   }
 
   isSimulationMode(): boolean {
-    return this.isDevelopmentMode;
+    return this.backend.kind === 'mock';
+  }
+
+  // Off in simulation and on mock-coprocessor chains, where nothing is really encrypted anyway
+  isStrictPrivacy(): boolean {
+    return this.strictPrivacy && !this.explicitSimulation && this.chain.coprocessor !== 'mock';
+  }
+
+  // Can real fhevmjs ciphertexts and proofs be produced right now?
+  canEncrypt(): boolean {
+    return this.isReady && this.backend.isConfidential;
+  }
+
+  getInitError(): string | null {
+    return this.initError;
   }
 
   // Helper method untuk convert Uint8Array ke hex string
@@ -264,44 +467,38 @@ export class FHEVMClient {
     return bytes;
   }
 
-  // Create external input format for contract
-  createExternalInput(encryptedData: Uint8Array): string {
-    const hex = this.toHexString(encryptedData);
-    debugLog('Creating external input', { hex });
-    return hex;
+  // Contract arguments for a checked ballot envelope
+  toContractInput(envelope: BallotEnvelope): { encryptedBallot: string[]; inputProof: string } {
+    return {
+      encryptedBallot: envelope.handles.map(handle => this.toHexString(handle)),
+      inputProof: this.toHexString(envelope.inputProof)
+    };
   }
 
   // Get debug information
   getDebugInfo() {
     return {
       isReady: this.isReady,
-      hasInstance: !!this.instance,
-      hasPublicKey: !!this.publicKey,
-      isDevelopmentMode: this.isDevelopmentMode,
-      zamaConfig: ZAMA_CONFIG,
+      backend: this.backend.kind,
+      confidential: this.backend.isConfidential,
+      strictPrivacy: this.isStrictPrivacy(),
+      initError: this.initError,
+      chainId: this.chain.chainId,
+      zamaConfig: this.getZamaConfig(),
+      gateways: this.gateways.getStatus(),
       provider: !!this.provider,
-      publicKeySource: this.publicKey === SEPOLIA_FALLBACK_PUBLIC_KEY ? 'fallback' : 'gateway'
+      publicKeySource: this.publicKeySource,
+      publicKeyFingerprint: this.publicKey?.fingerprint ?? null
     };
   }
 
   // Test gateway connectivity
-  async testGateways(): Promise<{ [key: string]: boolean }> {
-    const results: { [key: string]: boolean } = {};
-    
-    for (const gateway of ZAMA_CONFIG.gateways) {
-      try {
-        const response = await fetch(`${gateway}/health`, { 
-          method: 'GET',
-          timeout: 3000 
-        });
-        results[gateway] = response.ok;
-      } catch {
-        results[gateway] = false;
-      }
-    }
-    
-    debugLog('Gateway connectivity test results', results);
-    return results;
+  async testGateways(): Promise<GatewayStatus[]> {
+    return this.gateways.probe(3000);
+  }
+
+  getGatewayManager(): GatewayManager {
+    return this.gateways;
   }
 }
 
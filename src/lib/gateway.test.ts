@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GatewayError, GatewayManager } from './gateway';
+
+const FAST = 'https://fast.gateway.test';
+const SLOW = 'https://slow.gateway.test';
+const DOWN = 'https://down.gateway.test';
+
+type Behaviour = { latencyMs: number } | 'fail' | 'hang';
+
+/**
+ * Gateways on fake timers: each answers after its latency, fails with a 503
+ * or never answers until the request is aborted.
+ */
+const network = (behaviours: Record<string, Behaviour>) => {
+  const requests: string[] = [];
+
+  const fetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = String(input);
+    requests.push(url);
+    const behaviour = behaviours[new URL(url).origin];
+    if (behaviour === 'fail') return Promise.resolve(new Response('unavailable', { status: 503 }));
+    return new Promise((resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      if (behaviour !== 'hang') setTimeout(() => resolve(Response.json({ url })), behaviour.latencyMs);
+    });
+  };
+
+  return { behaviours, requests, options: { fetch, now: () => Date.now() } };
+};
+
+// Run the timers a request is waiting on, attempt deadlines included
+const run = async <T>(promise: Promise<T>): Promise<T> => {
+  promise.catch(() => undefined);
+  await vi.runAllTimersAsync();
+  return promise;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('GatewayManager', () => {
+  it('aborts an attempt at its deadline and moves on', async () => {
+    const net = network({ [DOWN]: 'hang', [FAST]: { latencyMs: 10 } });
+    const gateways = new GatewayManager([DOWN, FAST], { ...net.options, timeoutMs: 200 });
+
+    expect(await run(gateways.requestJson('/keys'))).toEqual({ url: `${FAST}/keys` });
+
+    expect(net.requests).toEqual([`${DOWN}/keys`, `${FAST}/keys`]);
+    const [fast, down] = gateways.getStatus();
+    expect(fast).toMatchObject({ url: FAST, successes: 1, latencyMs: 10 });
+    expect(down).toMatchObject({ url: DOWN, failures: 1, lastError: 'Timed out after 200ms', state: 'closed' });
+  });
+
+  it('sends requests to the fastest healthy gateway first', async () => {
+    const net = network({ [SLOW]: { latencyMs: 400 }, [FAST]: { latencyMs: 50 } });
+    const gateways = new GatewayManager([SLOW, FAST], net.options);
+
+    await run(gateways.probe());
+
+    expect(gateways.getStatus().map(status => [status.url, status.latencyMs])).toEqual([[FAST, 50], [SLOW, 400]]);
+    expect(gateways.getBestGateway()).toBe(FAST);
+    await run(gateways.request('/keys'));
+    expect(net.requests.at(-1)).toBe(`${FAST}/keys`);
+  });
+
+  it('opens the circuit after repeated failures', async () => {
+    const net = network({ [DOWN]: 'fail' });
+    const gateways = new GatewayManager([DOWN], { ...net.options, failureThreshold: 3, cooldownMs: 1000 });
+
+    for (let i = 0; i < 2; i++) await expect(run(gateways.request('/keys'))).rejects.toThrow(GatewayError);
+    expect(gateways.getStatus()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+
+    await expect(run(gateways.request('/keys'))).rejects.toThrow('All gateways failed for /keys');
+    expect(gateways.getStatus()[0]).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      lastError: 'HTTP 503',
+      retryAt: Date.now() + 1000
+    });
+
+    // Refused without calling the gateway while the circuit is open
+    await expect(run(gateways.request('/keys'))).rejects.toThrow('All gateways are unavailable (circuits open)');
+    expect(gateways.getBestGateway()).toBeNull();
+    expect(net.requests).toHaveLength(3);
+  });
+
+  it('lets one trial request through after the cooldown', async () => {
+    const net = network({ [DOWN]: 'fail', [SLOW]: { latencyMs: 400 } });
+    const gateways = new GatewayManager([DOWN, SLOW], { ...net.options, failureThreshold: 1, cooldownMs: 1000 });
+
+    await run(gateways.request('/keys'));
+    expect(gateways.getStatus().map(status => [status.url, status.state])).toEqual([[SLOW, 'closed'], [DOWN, 'open']]);
+
+    // A failed trial re-opens the circuit for another cooldown
+    vi.advanceTimersByTime(1000);
+    expect(gateways.getBestGateway()).toBe(SLOW);
+    expect(gateways.getStatus().find(status => status.url === DOWN)!.state).toBe('half-open');
+    net.behaviours[SLOW] = 'fail';
+    await expect(run(gateways.request('/keys'))).rejects.toThrow(GatewayError);
+    expect(gateways.getStatus().find(status => status.url === DOWN)).toMatchObject({
+      state: 'open',
+      retryAt: Date.now() + 1000
+    });
+    expect(net.requests.filter(url => url.startsWith(DOWN))).toHaveLength(2);
+
+    // A successful trial closes it
+    vi.advanceTimersByTime(1000);
+    net.behaviours[DOWN] = { latencyMs: 30 };
+    expect(await run(gateways.requestJson('/keys'))).toEqual({ url: `${DOWN}/keys` });
+    expect(gateways.getStatus().find(status => status.url === DOWN)).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+      retryAt: null,
+      latencyMs: 30
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { debugLog, describeError } from './debug';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface GatewayStatus {
+  url: string;
+  state: CircuitState;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  successRate: number; // 0..1, 1 until the first request
+  latencyMs: number | null; // moving average of successful requests
+  lastError: string | null;
+  lastCheckedAt: number | null;
+  retryAt: number | null; // when an open circuit lets a request through again
+}
+
+export interface GatewayManagerOptions {
+  // Per-attempt deadline, enforced with an AbortController
+  timeoutMs?: number;
+  // Consecutive failures before a gateway's circuit opens
+  failureThreshold?: number;
+  // How long an open circuit stays open before a trial request
+  cooldownMs?: number;
+  // Injected for tests against a local HTTP stand-in
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+export class GatewayError extends Error {
+  readonly attempts: { url: string; error: string }[];
+
+  constructor(message: string, attempts: { url: string; error: string }[]) {
+    super(message);
+    this.name = 'GatewayError';
+    this.attempts = attempts;
+  }
+}
+
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Routes every request the app itself makes to Zama gateways: tries the
+ * healthiest endpoint first, gives each attempt a real deadline and stops
+ * calling endpoints that keep failing until their cooldown has passed.
+ * Re-encryption is the one exception: fhevmjs sends it itself (see
+ * getBestGateway).
+ */
+export class GatewayManager {
+  private readonly statuses = new Map<string, GatewayStatus>();
+  private readonly listeners = new Set<(statuses: GatewayStatus[]) => void>();
+  private readonly timeoutMs: number;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly fetchImpl: typeof fetch;
+  private readonly now: () => number;
+
+  constructor(urls: string[], options: GatewayManagerOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? Date.now;
+    this.setGateways(urls);
+  }
+
+  // Replace the gateway list, keeping history for URLs that stay
+  setGateways(urls: string[]): void {
+    const unique = [...new Set(urls.filter(Boolean).map(url => url.replace(/\/+$/, '')))];
+    for (const url of [...this.statuses.keys()]) {
+      if (!unique.includes(url)) this.statuses.delete(url);
+    }
+    for (const url of unique) {
+      if (!this.statuses.has(url)) {
+        this.statuses.set(url, {
+          url,
+          state: 'closed',
+          successes: 0,
+          failures: 0,
+          consecutiveFailures: 0,
+          successRate: 1,
+          latencyMs: null,
+          lastError: null,
+          lastCheckedAt: null,
+          retryAt: null
+        });
+      }
+    }
+    this.notify();
+  }
+
+  /**
+   * Send a request to the best available gateway, falling through the ranking
+   * until one answers with a 2xx status.
+   */
+  async request(path: string, init: RequestInit = {}, timeoutMs: number = this.timeoutMs): Promise<Response> {
+    const candidates = this.rankedGateways();
+    const attempts: { url: string; error: string }[] = [];
+
+    if (candidates.length === 0) {
+      throw new GatewayError('All gateways are unavailable (circuits open)', attempts);
+    }
+
+    for (const status of candidates) {
+      try {
+        const response = await this.attempt(status, path, init, timeoutMs);
+        if (response.ok) return response;
+        attempts.push({ url: status.url, error: `HTTP ${response.status}` });
+      } catch (error) {
+        attempts.push({ url: status.url, error: describeError(error) });
+      }
+    }
+
+    throw new GatewayError(`All gateways failed for ${path}`, attempts);
+  }
+
+  async requestJson<T = unknown>(path: string, init: RequestInit = {}, timeoutMs?: number): Promise<T> {
+    const response = await this.request(path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers }
+    }, timeoutMs);
+    return response.json() as Promise<T>;
+  }
+
+  // Hit /health on every gateway, open circuits included, and return the updated statuses
+  async probe(timeoutMs: number = this.timeoutMs): Promise<GatewayStatus[]> {
+    await Promise.all([...this.statuses.values()].map(async status => {
+      try {
+        await this.attempt(status, '/health', { method: 'GET' }, timeoutMs);
+      } catch {
+        // Recorded in the status already
+      }
+    }));
+    const statuses = this.getStatus();
+    debugLog('Gateway probe results', statuses);
+    return statuses;
+  }
+
+  /**
+   * URL of the gateway a request would go to first, for libraries that do
+   * their own fetching. fhevmjs 0.5 is one: it posts re-encryption requests
+   * to the gateway URL its instance was created with, using the global fetch,
+   * and decrypts the reply with KMS code it does not export. Those requests
+   * cannot go through request(), so they get no failover, deadline or
+   * circuit breaker, and they do not count toward a gateway's status.
+   */
+  getBestGateway(): string | null {
+    return this.rankedGateways()[0]?.url ?? null;
+  }
+
+  getStatus(): GatewayStatus[] {
+    return this.rank([...this.statuses.values()]).map(status => ({ ...status }));
+  }
+
+  subscribe(listener: (statuses: GatewayStatus[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Gateways allowed to take a request now, best first
+  private rankedGateways(): GatewayStatus[] {
+    const now = this.now();
+    const available = [...this.statuses.values()].filter(status => {
+      if (status.state === 'open' && status.retryAt !== null && now >= status.retryAt) {
+        status.state = 'half-open';
+      }
+      return status.state !== 'open';
+    });
+    return this.rank(available);
+  }
+
+  private rank(statuses: GatewayStatus[]): GatewayStatus[] {
+    const stateOrder: Record<CircuitState, number> = { closed: 0, 'half-open': 1, open: 2 };
+    return [...statuses].sort((a, b) =>
+      stateOrder[a.state] - stateOrder[b.state] ||
+      b.successRate - a.successRate ||
+      (a.latencyMs ?? this.timeoutMs) - (b.latencyMs ?? this.timeoutMs)
+    );
+  }
+
+  private async attempt(status: GatewayStatus, path: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = this.now();
+
+    try {
+      const response = await this.fetchImpl(`${status.url}${path}`, { ...init, signal: controller.signal });
+      if (response.ok) {
+        this.recordSuccess(status, this.now() - startedAt);
+      } else {
+        this.recordFailure(status, `HTTP ${response.status}`);
+      }
+      return response;
+    } catch (error) {
+      const message = controller.signal.aborted ? `Timed out after ${timeoutMs}ms` : describeError(error);
+      this.recordFailure(status, message);
+      throw new Error(message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordSuccess(status: GatewayStatus, latencyMs: number): void {
+    status.successes++;
+    status.consecutiveFailures = 0;
+    status.latencyMs = status.latencyMs === null
+      ? latencyMs
+      : Math.round(status.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+    status.state = 'closed';
+    status.retryAt = null;
+    status.lastError = null;
+    this.finishRecord(status);
+  }
+
+  private recordFailure(status: GatewayStatus, error: string): void {
+    status.failures++;
+    status.consecutiveFailures++;
+    status.lastError = error;
+    // A failed trial re-opens the circuit straight away
+    if (status.state === 'half-open' || status.consecutiveFailures >= this.failureThreshold) {
+      if (status.state !== 'open') {
+        debugLog(`⚠️ Gateway circuit opened: ${status.url}`, { error });
+      }
+      status.state = 'open';
+      status.retryAt = this.now() + this.cooldownMs;
+    }
+    this.finishRecord(status);
+  }
+
+  private finishRecord(status: GatewayStatus): void {
+    status.successRate = status.successes / (status.successes + status.failures);
+    status.lastCheckedAt = this.now();
+    this.notify();
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const statuses = this.getStatus();
+    this.listeners.forEach(listener => listener(statuses));
+  }
+}
@@ -0,0 +1,370 @@
+import { Provider, getAddress } from 'ethers';
+import { FHEVotingEventName, FHEVotingEvents } from '@/contracts/FHEVoting.types';
+import { parseVotingLog } from './bindings';
+import { ChainConfig } from './chains';
+import { debugLog, describeError } from './debug';
+
+export interface IndexedEvent<Name extends FHEVotingEventName = FHEVotingEventName> {
+  id: string; // `${scope}:${blockNumber}:${logIndex}`
+  scope: string; // `${chainId}:${contractAddress}`
+  name: Name;
+  args: FHEVotingEvents[Name];
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number; // block time, ms
+}
+
+// Any indexed event, discriminated by name
+export type IndexedVotingEvent = { [Name in FHEVotingEventName]: IndexedEvent<Name> }[FHEVotingEventName];
+
+interface SyncCursor {
+  scope: string;
+  // Everything up to and including this block is final and stored
+  finalizedBlock: number;
+}
+
+export interface IndexerState {
+  finalizedBlock: number;
+  headBlock: number | null; // last head seen; events after finalizedBlock may still be reorged
+  headTime: number | null; // timestamp of headBlock, in ms like event timestamps
+  lastSyncedAt: number | null;
+  syncing: boolean;
+  lastError: string | null;
+}
+
+export interface VoteTimelinePoint {
+  timestamp: number;
+  blockNumber: number;
+  totalVotes: number;
+  voter: string;
+}
+
+export interface CreatedProposal {
+  proposalId: number;
+  title: string;
+  createdAt: number;
+  transactionHash: string;
+}
+
+export interface EventIndexerOptions {
+  // Blocks per eth_getLogs request; public RPCs usually cap the range
+  chunkSize?: number;
+  // Overrides the chain's confirmation depth
+  confirmations?: number;
+}
+
+const DB_NAME = 'fhevoting-events';
+const DB_VERSION = 1;
+const EVENTS = 'events';
+const CURSORS = 'cursors';
+
+const scopeOf = (chainId: number, contractAddress: string) => `${chainId}:${contractAddress.toLowerCase()}`;
+
+const byPosition = (a: IndexedEvent, b: IndexedEvent) =>
+  a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+/**
+ * IndexedDB storage for decoded events, scoped per (chain, contract). Writes
+ * that touch both stores share one transaction so the cursor never runs ahead
+ * of the events.
+ */
+class EventStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async getCursor(scope: string): Promise<SyncCursor | null> {
+    const db = await this.open();
+    const cursor = await request<SyncCursor | undefined>(db.transaction(CURSORS).objectStore(CURSORS).get(scope));
+    return cursor ?? null;
+  }
+
+  async getEvents(scope: string): Promise<IndexedVotingEvent[]> {
+    const db = await this.open();
+    const index = db.transaction(EVENTS).objectStore(EVENTS).index('scope');
+    return request<IndexedVotingEvent[]>(index.getAll(scope));
+  }
+
+  // Drop events after the finalized block: they are fetched again and may have been reorged out
+  async deleteAfter(scope: string, finalizedBlock: number): Promise<number> {
+    const db = await this.open();
+    const tx = db.transaction(EVENTS, 'readwrite');
+    const store = tx.objectStore(EVENTS);
+    const stale = (await request<IndexedVotingEvent[]>(store.index('scope').getAll(scope)))
+      .filter(event => event.blockNumber > finalizedBlock);
+    stale.forEach(event => store.delete(event.id));
+    await done(tx);
+    return stale.length;
+  }
+
+  async append(events: IndexedVotingEvent[], cursor: SyncCursor): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([EVENTS, CURSORS], 'readwrite');
+    events.forEach(event => tx.objectStore(EVENTS).put(event));
+    tx.objectStore(CURSORS).put(cursor);
+    await done(tx);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const open = indexedDB.open(DB_NAME, DB_VERSION);
+        open.onupgradeneeded = () => {
+          const db = open.result;
+          if (!db.objectStoreNames.contains(EVENTS)) {
+            db.createObjectStore(EVENTS, { keyPath: 'id' }).createIndex('scope', 'scope');
+          }
+          if (!db.objectStoreNames.contains(CURSORS)) {
+            db.createObjectStore(CURSORS, { keyPath: 'scope' });
+          }
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+      });
+      // Let a later call retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
+
+const request = <T>(req: IDBRequest): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Client-side index of the voting contract's events. The first sync backfills
+ * from the deployment block; later syncs only fetch new blocks. Events newer
+ * than the confirmation depth are re-fetched on every sync, so a reorg within
+ * that window replaces them instead of leaving stale entries.
+ */
+export class EventIndexer {
+  private readonly store = new EventStore();
+  private readonly listeners = new Set<(state: IndexerState) => void>();
+  private readonly scope: string;
+  private readonly chunkSize: number;
+  private readonly confirmations: number;
+  private events: IndexedVotingEvent[] = [];
+  private loaded = false;
+  private running: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private state: IndexerState;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly chain: ChainConfig,
+    options: EventIndexerOptions = {}
+  ) {
+    this.scope = scopeOf(chain.chainId, chain.votingContractAddress);
+    this.chunkSize = options.chunkSize ?? 2000;
+    this.confirmations = options.confirmations ?? chain.confirmations;
+    this.state = {
+      finalizedBlock: chain.deploymentBlock - 1,
+      headBlock: null,
+      headTime: null,
+      lastSyncedAt: null,
+      syncing: false,
+      lastError: null
+    };
+  }
+
+  // Fetch everything new since the last sync; concurrent calls share one run
+  sync(): Promise<void> {
+    if (!this.running) {
+      this.running = this.runSync().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  // Keep syncing in the background until stop()
+  start(intervalMs: number = 15000): void {
+    if (this.timer) return;
+    const tick = () => this.sync().catch(error => debugLog('⚠️ Event indexer sync failed', error));
+    void tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  subscribe(listener: (state: IndexerState) => void): () => void {
+    this.listeners.add(listener);
+    listener({ ...this.state });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // False until the first successful sync; queries return nothing before that
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  getState(): IndexerState {
+    return { ...this.state };
+  }
+
+  getEvents<Name extends FHEVotingEventName>(name?: Name): IndexedEvent<Name>[] {
+    const events = name ? this.events.filter(event => event.name === name) : this.events;
+    return events as IndexedEvent<Name>[];
+  }
+
+  getProposalsCreatedBy(creator: string): CreatedProposal[] {
+    const address = getAddress(creator);
+    return this.getEvents('ProposalCreated')
+      .filter(event => getAddress(event.args.creator) === address)
+      .map(event => ({
+        proposalId: Number(event.args.proposalId),
+        title: event.args.title,
+        createdAt: event.timestamp,
+        transactionHash: event.transactionHash
+      }));
+  }
+
+  getVoteTimeline(proposalId: number): VoteTimelinePoint[] {
+    return this.getEvents('VoteCast')
+      .filter(event => Number(event.args.proposalId) === proposalId)
+      .map(event => ({
+        timestamp: event.timestamp,
+        blockNumber: event.blockNumber,
+        totalVotes: Number(event.args.totalVotes),
+        voter: event.args.voter
+      }));
+  }
+
+  // When the results of a proposal were revealed, or null if they were not
+  getRevealTime(proposalId: number): number | null {
+    const revealed = this.getEvents('ResultsRevealed')
+      .find(event => Number(event.args.proposalId) === proposalId);
+    return revealed?.timestamp ?? null;
+  }
+
+  // When voting on a proposal ends, in ms, after any extension, early close or cancellation; null if it is not indexed
+  getVotingEnd(proposalId: number): number | null {
+    let end: number | null = null;
+    for (const event of this.events) {
+      switch (event.name) {
+        case 'ProposalCreated':
+        case 'ProposalClosedEarly':
+        case 'ProposalExtended':
+          if (Number(event.args.proposalId) === proposalId) end = Number(event.args.endTime) * 1000;
+          break;
+        case 'ProposalCancelled':
+          if (Number(event.args.proposalId) === proposalId) end = event.timestamp;
+          break;
+      }
+    }
+    return end;
+  }
+
+  getVotedProposals(voter: string): number[] {
+    const address = getAddress(voter);
+    const voted = this.getEvents('VoteCast')
+      .filter(event => getAddress(event.args.voter) === address)
+      .map(event => Number(event.args.proposalId));
+    return [...new Set(voted)];
+  }
+
+  private async runSync(): Promise<void> {
+    this.setState({ syncing: true, lastError: null });
+    try {
+      const cursor = await this.store.getCursor(this.scope)
+        ?? { scope: this.scope, finalizedBlock: this.chain.deploymentBlock - 1 };
+      const latest = await this.provider.getBlock('latest');
+      if (!latest) throw new Error('Latest block not available');
+      const head = latest.number;
+      const safeBlock = head - this.confirmations;
+
+      const dropped = await this.store.deleteAfter(this.scope, cursor.finalizedBlock);
+      debugLog('Event indexer syncing', {
+        from: cursor.finalizedBlock + 1,
+        to: head,
+        refetchingUnconfirmed: dropped
+      });
+
+      for (let start = cursor.finalizedBlock + 1; start <= head; start += this.chunkSize) {
+        const end = Math.min(start + this.chunkSize - 1, head);
+        const events = await this.fetchRange(start, end);
+        // Blocks past the safe block stay unconfirmed and are fetched again next time
+        cursor.finalizedBlock = Math.max(cursor.finalizedBlock, Math.min(end, safeBlock));
+        await this.store.append(events, cursor);
+      }
+
+      this.events = (await this.store.getEvents(this.scope)).sort(byPosition);
+      this.loaded = true;
+      this.setState({
+        finalizedBlock: cursor.finalizedBlock,
+        headBlock: head,
+        headTime: latest.timestamp * 1000,
+        lastSyncedAt: Date.now(),
+        syncing: false
+      });
+      debugLog('✅ Event indexer synced', { head, events: this.events.length });
+    } catch (error) {
+      this.setState({
+        syncing: false,
+        lastError: describeError(error)
+      });
+      throw error;
+    }
+  }
+
+  private async fetchRange(fromBlock: number, toBlock: number): Promise<IndexedVotingEvent[]> {
+    const logs = await this.provider.getLogs({
+      address: this.chain.votingContractAddress,
+      fromBlock,
+      toBlock
+    });
+
+    const timestamps = new Map<number, number>();
+    const events: IndexedVotingEvent[] = [];
+    for (const log of logs) {
+      const parsed = parseVotingLog(log);
+      if (!parsed) continue;
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, (block?.timestamp ?? 0) * 1000);
+      }
+      events.push({
+        id: `${this.scope}:${log.blockNumber}:${log.index}`,
+        scope: this.scope,
+        name: parsed.name,
+        args: parsed.args,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber)!
+      } as IndexedVotingEvent);
+    }
+    return events;
+  }
+
+  private setState(patch: Partial<IndexerState>): void {
+    this.state = { ...this.state, ...patch };
+    const state = { ...this.state };
+    this.listeners.forEach(listener => listener(state));
+  }
+}
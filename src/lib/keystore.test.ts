@@ -0,0 +1,167 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { BrowserProvider, hexlify, randomBytes } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FHEVMClient } from './fhevm';
+import { PublicKeyRecord, PublicKeyStore, checkPublicKey, fingerprintPublicKey, publicKeyId } from './keystore';
+
+const { createInstance } = vi.hoisted(() => ({
+  createInstance: vi.fn(async (_config: { publicKey: string }) => ({}))
+}));
+vi.mock('fhevmjs', () => ({ createInstance }));
+
+const SEPOLIA = 11155111;
+const ACL_ADDRESS = '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D';
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const PLACEHOLDER_KEY = `0x${'8b'.repeat(128)}`;
+
+const newKey = () => hexlify(randomBytes(128));
+
+const keyRecord = (publicKey: string, fetchedAt: number, overrides: Partial<PublicKeyRecord> = {}): PublicKeyRecord => ({
+  id: publicKeyId(SEPOLIA, ACL_ADDRESS),
+  chainId: SEPOLIA,
+  aclAddress: ACL_ADDRESS,
+  publicKey,
+  fingerprint: fingerprintPublicKey(publicKey),
+  fetchedAt,
+  expiresAt: fetchedAt + DAY,
+  ...overrides
+});
+
+beforeEach(() => {
+  // A fresh, empty IndexedDB for every test
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  createInstance.mockClear();
+});
+
+describe('public key checks', () => {
+  it('fingerprints a key as four groups of hex', () => {
+    const key = newKey();
+    expect(fingerprintPublicKey(key)).toMatch(/^[0-9a-f]{4}(:[0-9a-f]{4}){3}$/);
+    expect(fingerprintPublicKey(key)).toBe(fingerprintPublicKey(key));
+    expect(fingerprintPublicKey(newKey())).not.toBe(fingerprintPublicKey(key));
+  });
+
+  it('rejects missing, short and placeholder keys', () => {
+    expect(checkPublicKey(null)).toBe('no public key');
+    expect(checkPublicKey('')).toBe('no public key');
+    expect(checkPublicKey('0x1234')).toBe('public key too short (2 bytes)');
+    // The old hardcoded Sepolia fallback
+    expect(checkPublicKey(`0x${'8b'.repeat(32)}`)).toBe('public key too short (32 bytes)');
+    expect(checkPublicKey(PLACEHOLDER_KEY)).toBe('public key is a placeholder (single repeated byte)');
+    expect(checkPublicKey(newKey())).toBeNull();
+  });
+});
+
+describe('PublicKeyStore', () => {
+  it('keeps one key per chain and ACL', async () => {
+    const store = new PublicKeyStore();
+    const record = keyRecord(newKey(), Date.now());
+    await store.put(record);
+
+    expect(await store.get(SEPOLIA, ACL_ADDRESS.toLowerCase())).toEqual(record);
+    expect(await store.get(1, ACL_ADDRESS)).toBeNull();
+  });
+
+  it('drops an entry whose fingerprint does not match its key', async () => {
+    const store = new PublicKeyStore();
+    await store.put(keyRecord(newKey(), Date.now(), { fingerprint: fingerprintPublicKey(newKey()) }));
+
+    expect(await store.get(SEPOLIA, ACL_ADDRESS)).toBeNull();
+  });
+
+  it('drops a cached placeholder key', async () => {
+    const store = new PublicKeyStore();
+    await store.put(keyRecord(PLACEHOLDER_KEY, Date.now()));
+
+    expect(await store.get(SEPOLIA, ACL_ADDRESS)).toBeNull();
+  });
+
+  it('fails when IndexedDB is not available', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    await expect(new PublicKeyStore().get(SEPOLIA, ACL_ADDRESS)).rejects.toThrow('IndexedDB is not available');
+  });
+});
+
+describe('FHEVMClient public key', () => {
+  // Sepolia, as reported by the wallet
+  const provider = new BrowserProvider({
+    request: async ({ method }: { method: string }) => (method === 'eth_chainId' ? '0xaa36a7' : null)
+  });
+  let gatewayKey: string | null;
+  let gatewayRequests: number;
+
+  beforeEach(() => {
+    gatewayKey = newKey();
+    gatewayRequests = 0;
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL) => {
+      gatewayRequests++;
+      if (!String(input).endsWith('/public-key') || !gatewayKey) return new Response('unavailable', { status: 503 });
+      return Response.json({ publicKey: gatewayKey });
+    });
+  });
+
+  const init = async () => {
+    const client = new FHEVMClient();
+    await client.init(provider, { backend: 'fhevmjs', strictPrivacy: true });
+    return client;
+  };
+
+  it('uses a fresh cached key without asking the gateways', async () => {
+    const cached = keyRecord(newKey(), Date.now() - HOUR / 2);
+    await new PublicKeyStore().put(cached);
+
+    const client = await init();
+
+    expect(client.getPublicKeyInfo()).toMatchObject({ source: 'cache', fingerprint: cached.fingerprint });
+    expect(createInstance).toHaveBeenCalledWith(expect.objectContaining({ publicKey: cached.publicKey }));
+    expect(gatewayRequests).toBe(0);
+  });
+
+  it('fetches and caches the key once the cached one has expired', async () => {
+    await new PublicKeyStore().put(keyRecord(newKey(), Date.now() - DAY - 1));
+
+    const client = await init();
+
+    expect(client.getPublicKeyInfo()).toMatchObject({ source: 'gateway', fingerprint: fingerprintPublicKey(gatewayKey!) });
+    expect(client.getBackend().kind).toBe('fhevmjs');
+    expect((await new PublicKeyStore().get(SEPOLIA, ACL_ADDRESS))!.publicKey).toBe(gatewayKey);
+  });
+
+  it('never falls back to an expired key', async () => {
+    await new PublicKeyStore().put(keyRecord(newKey(), Date.now() - DAY - 1));
+    gatewayKey = null;
+
+    const client = await init();
+
+    expect(client.getPublicKeyInfo()).toMatchObject({ source: 'none', fingerprint: null });
+    expect(client.getBackend().kind).toBe('disabled');
+    expect(createInstance).not.toHaveBeenCalled();
+  });
+
+  it('refuses a placeholder key from the gateways', async () => {
+    gatewayKey = PLACEHOLDER_KEY;
+
+    const client = await init();
+
+    expect(client.getPublicKeyInfo().source).toBe('none');
+    expect(client.getInitError()).toBe('No usable FHE public key: no public key');
+    expect(await new PublicKeyStore().get(SEPOLIA, ACL_ADDRESS)).toBeNull();
+  });
+
+  it('rebuilds the backend when the gateways rotate the key', async () => {
+    const cached = keyRecord(newKey(), Date.now());
+    await new PublicKeyStore().put(cached);
+    const client = await init();
+
+    expect(await client.refreshPublicKey()).toBe(true);
+    expect(client.getPublicKeyInfo()).toMatchObject({ source: 'gateway', fingerprint: fingerprintPublicKey(gatewayKey!) });
+    expect(createInstance).toHaveBeenLastCalledWith(expect.objectContaining({ publicKey: gatewayKey }));
+    // Same key again: nothing rotated
+    expect(await client.refreshPublicKey()).toBe(false);
+  });
+});
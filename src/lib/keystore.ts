@@ -0,0 +1,111 @@
+import { getBytes, isHexString, keccak256, toUtf8Bytes } from 'ethers';
+import { debugLog } from './debug';
+
+export interface PublicKeyRecord {
+  id: string; // `${chainId}:${aclAddress}`
+  chainId: number;
+  aclAddress: string;
+  publicKey: string;
+  fingerprint: string;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+const DB_NAME = 'fhevoting-keys';
+const DB_VERSION = 1;
+const STORE = 'publicKeys';
+
+// A real TFHE compact public key is kilobytes long; anything this short is not one
+const MIN_PUBLIC_KEY_BYTES = 64;
+
+export const publicKeyId = (chainId: number, aclAddress: string): string =>
+  `${chainId}:${aclAddress.toLowerCase()}`;
+
+/**
+ * Short, human-comparable fingerprint of a public key: the first 8 bytes of its
+ * keccak256, grouped like `ab12:cd34:ef56:7890`.
+ */
+export const fingerprintPublicKey = (publicKey: string): string => {
+  const bytes = isHexString(publicKey) ? getBytes(publicKey) : toUtf8Bytes(publicKey);
+  const digest = keccak256(bytes).slice(2, 18);
+  return digest.match(/.{4}/g)!.join(':');
+};
+
+/**
+ * Reasons a key must not be used for encryption, or null when it looks sound.
+ * Catches the old all-0x8b placeholder and gateways returning junk.
+ */
+export const checkPublicKey = (publicKey: string | null | undefined): string | null => {
+  if (!publicKey) return 'no public key';
+  const bytes = isHexString(publicKey) ? getBytes(publicKey) : toUtf8Bytes(publicKey);
+  if (bytes.length < MIN_PUBLIC_KEY_BYTES) {
+    return `public key too short (${bytes.length} bytes)`;
+  }
+  if (bytes.every(byte => byte === bytes[0])) {
+    return 'public key is a placeholder (single repeated byte)';
+  }
+  return null;
+};
+
+/**
+ * IndexedDB cache of FHE public keys, one per (chain, ACL) pair. Every read is
+ * re-fingerprinted so a corrupted entry is dropped instead of used.
+ */
+export class PublicKeyStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async get(chainId: number, aclAddress: string): Promise<PublicKeyRecord | null> {
+    const record = await this.run<PublicKeyRecord | undefined>('readonly', store =>
+      store.get(publicKeyId(chainId, aclAddress))
+    );
+    if (!record) return null;
+
+    if (fingerprintPublicKey(record.publicKey) !== record.fingerprint || checkPublicKey(record.publicKey)) {
+      debugLog('⚠️ Cached public key failed integrity check, discarding', { id: record.id });
+      await this.delete(chainId, aclAddress);
+      return null;
+    }
+    return record;
+  }
+
+  async put(record: PublicKeyRecord): Promise<void> {
+    await this.run('readwrite', store => store.put(record));
+  }
+
+  async delete(chainId: number, aclAddress: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(publicKeyId(chainId, aclAddress)));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE)) {
+            request.result.createObjectStore(STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,192 @@
+import { Log, Provider, Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveStatus, Proposal, ProposalUpdate } from '@/types/voting';
+import { FHEVotingContract, votingInterface } from './bindings';
+import { ProposalFeed, applyProposalUpdate } from './liveUpdates';
+
+const VOTING_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const voter = Wallet.createRandom().address;
+const someoneElse = Wallet.createRandom().address;
+
+const proposal = (id: number, overrides: Partial<Proposal> = {}): Proposal => ({
+  id,
+  title: `Proposal ${id}`,
+  description: '',
+  options: ['Yes', 'No'],
+  startTime: 0,
+  endTime: 0,
+  totalVotes: 0,
+  creator: someoneElse,
+  active: true,
+  resultsRevealed: false,
+  revealedResults: [],
+  decryptionPending: false,
+  cancelled: false,
+  closedEarly: false,
+  extended: false,
+  hasVoted: false,
+  ...overrides
+});
+
+const eventLog = (name: string, values: unknown[], blockNumber: number): Log => {
+  const { data, topics } = votingInterface.encodeEventLog(name, values);
+  return { address: VOTING_ADDRESS, data, topics, blockNumber } as unknown as Log;
+};
+
+describe('ProposalFeed', () => {
+  let head: number;
+  let logs: Log[];
+  let statuses: LiveStatus[];
+  let updates: ProposalUpdate[];
+  let contract: FHEVotingContract;
+  let provider: Provider;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    head = 100;
+    logs = [];
+    statuses = [];
+    updates = [];
+    contract = {
+      // Like a provider without eth_subscribe or filters
+      on: vi.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValue(new Error('the method eth_newFilter does not exist')),
+      off: vi.fn(async () => undefined),
+      getAddress: async () => VOTING_ADDRESS
+    } as unknown as FHEVotingContract;
+    provider = {
+      getBlockNumber: async () => head,
+      getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+        logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock))
+    } as unknown as Provider;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const startFeed = async () => {
+    const feed = new ProposalFeed(contract, provider, {
+      loadProposal: async id => proposal(id),
+      onUpdate: update => updates.push(update),
+      onStatus: status => statuses.push(status),
+      pollIntervalMs: 1000
+    });
+    await feed.start();
+    return feed;
+  };
+
+  it('falls back to polling the logs when the provider cannot subscribe', async () => {
+    const feed = await startFeed();
+
+    expect(statuses).toEqual(['connecting', 'polling']);
+    // The one subscription that did go through is undone
+    expect(contract.off).toHaveBeenCalledWith('ProposalCreated', expect.any(Function));
+
+    head = 102;
+    logs = [
+      eventLog('ProposalCreated', [3, 'Proposal 3', someoneElse, 0, 0], 101),
+      eventLog('VoteCast', [3, voter, 1], 102)
+    ];
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(provider.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 101, toBlock: 102 }));
+    expect(updates).toEqual([
+      { type: 'created', proposal: proposal(3) },
+      { type: 'voted', proposalId: 3, totalVotes: 1, voter }
+    ]);
+
+    head = 103;
+    logs = [
+      eventLog('DecryptionRequested', [3, 7], 103),
+      eventLog('ResultsRevealed', [3, [1, 0]], 103)
+    ];
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(updates.slice(2)).toEqual([
+      { type: 'decryption-requested', proposalId: 3 },
+      { type: 'revealed', proposalId: 3, results: [1, 0] }
+    ]);
+
+    head = 104;
+    logs = [
+      eventLog('ProposalCancelled', [4, someoneElse, 1], 104),
+      eventLog('ProposalClosedEarly', [5, someoneElse, 0, 1700], 104),
+      eventLog('ProposalExtended', [6, someoneElse, 2, 1000, 4600], 104)
+    ];
+    await vi.advanceTimersByTimeAsync(1000);
+
+    // Reasons are decoded from the contract's enums, times to milliseconds
+    expect(updates.slice(4)).toEqual([
+      { type: 'cancelled', proposalId: 4, reason: 'duplicate' },
+      { type: 'closed', proposalId: 5, endTime: 1700000, reason: 'decided' },
+      { type: 'extended', proposalId: 6, endTime: 4600000, reason: 'technical-issue' }
+    ]);
+
+    feed.stop();
+    head = 105;
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(provider.getLogs).toHaveBeenCalledTimes(3);
+  });
+
+  it('only reports events from after it started', async () => {
+    logs = [eventLog('VoteCast', [3, voter, 1], 100)];
+    const feed = await startFeed();
+
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(provider.getLogs).not.toHaveBeenCalled();
+    expect(updates).toEqual([]);
+    feed.stop();
+  });
+});
+
+describe('applyProposalUpdate', () => {
+  const proposals = [proposal(1), proposal(3)];
+
+  it('inserts a created proposal in id order, replacing a stale copy', () => {
+    expect(applyProposalUpdate(proposals, { type: 'created', proposal: proposal(2) }, voter).map(p => p.id))
+      .toEqual([1, 2, 3]);
+
+    const renamed = proposal(3, { title: 'Renamed' });
+    expect(applyProposalUpdate(proposals, { type: 'created', proposal: renamed }, voter))
+      .toEqual([proposals[0], renamed]);
+  });
+
+  it('counts a vote and marks it as ours only for the connected account', () => {
+    const byOther = applyProposalUpdate(proposals, { type: 'voted', proposalId: 3, totalVotes: 4, voter: someoneElse }, voter);
+    expect(byOther[1]).toMatchObject({ totalVotes: 4, hasVoted: false });
+    expect(byOther[0]).toBe(proposals[0]);
+
+    const byUs = applyProposalUpdate(proposals, { type: 'voted', proposalId: 3, totalVotes: 5, voter: voter.toLowerCase() }, voter);
+    expect(byUs[1]).toMatchObject({ totalVotes: 5, hasVoted: true });
+
+    const disconnected = applyProposalUpdate(proposals, { type: 'voted', proposalId: 3, totalVotes: 5, voter }, null);
+    expect(disconnected[1].hasVoted).toBe(false);
+  });
+
+  it('marks a pending decryption and then the revealed results', () => {
+    const pending = applyProposalUpdate(proposals, { type: 'decryption-requested', proposalId: 1 }, voter);
+    expect(pending[0]).toMatchObject({ decryptionPending: true, resultsRevealed: false });
+
+    const revealed = applyProposalUpdate(pending, { type: 'revealed', proposalId: 1, results: [2, 1] }, voter);
+    expect(revealed[0]).toMatchObject({ decryptionPending: false, resultsRevealed: true, revealedResults: [2, 1] });
+    expect(revealed[1]).toBe(proposals[1]);
+  });
+
+  it('applies cancelling, closing early and extending', () => {
+    const [cancelled] = applyProposalUpdate(proposals, { type: 'cancelled', proposalId: 1, reason: 'duplicate' }, voter);
+    expect(cancelled).toMatchObject({ active: false, cancelled: true });
+
+    const [closed] = applyProposalUpdate(proposals, { type: 'closed', proposalId: 1, endTime: 5000, reason: 'decided' }, voter);
+    expect(closed).toMatchObject({ endTime: 5000, closedEarly: true, active: true });
+
+    const [extended] = applyProposalUpdate(proposals, { type: 'extended', proposalId: 1, endTime: 9000, reason: 'low-turnout' }, voter);
+    expect(extended).toMatchObject({ endTime: 9000, extended: true, closedEarly: false });
+  });
+
+  it('ignores updates for proposals it does not have', () => {
+    expect(applyProposalUpdate(proposals, { type: 'revealed', proposalId: 9, results: [1] }, voter)).toEqual(proposals);
+  });
+});
@@ -0,0 +1,207 @@
+import { ContractEventPayload, Provider } from 'ethers';
+import { FHEVotingEventName } from '@/contracts/FHEVoting.types';
+import { LiveStatus, Proposal, ProposalUpdate } from '@/types/voting';
+import {
+  CANCEL_REASONS,
+  CLOSE_REASONS,
+  EXTEND_REASONS,
+  FHEVotingContract,
+  FHEVotingEvent,
+  decodeReason,
+  parseVotingLog
+} from './bindings';
+import { debugLog } from './debug';
+
+export interface ProposalFeedOptions {
+  // Fetches a newly created proposal; its event only carries the title
+  loadProposal: (proposalId: number) => Promise<Proposal | null>;
+  onUpdate: (update: ProposalUpdate) => void;
+  onStatus: (status: LiveStatus) => void;
+  pollIntervalMs?: number;
+}
+
+const WATCHED_EVENTS: FHEVotingEventName[] = [
+  'ProposalCreated',
+  'VoteCast',
+  'DecryptionRequested',
+  'ResultsRevealed',
+  'ProposalCancelled',
+  'ProposalClosedEarly',
+  'ProposalExtended'
+];
+
+/**
+ * Turns voting contract events into ProposalUpdates. Subscribes through the
+ * provider when it can; otherwise polls eth_getLogs from the last seen block.
+ */
+export class ProposalFeed {
+  private readonly pollIntervalMs: number;
+  private readonly listener = (...args: unknown[]) => {
+    // ethers passes the decoded args first and the event payload last
+    const payload = args[args.length - 1] as ContractEventPayload;
+    const event = parseVotingLog(payload.log);
+    if (event) void this.dispatch(event);
+  };
+  private subscribed: FHEVotingEventName[] = [];
+  private lastBlock: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly contract: FHEVotingContract,
+    private readonly provider: Provider,
+    private readonly options: ProposalFeedOptions
+  ) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 15000;
+  }
+
+  async start(): Promise<void> {
+    this.options.onStatus('connecting');
+    try {
+      for (const name of WATCHED_EVENTS) {
+        await this.contract.on(name, this.listener);
+        this.subscribed.push(name);
+      }
+      if (this.stopped) return this.unsubscribe();
+      this.options.onStatus('live');
+      debugLog('✅ Subscribed to proposal events');
+    } catch (error) {
+      debugLog('⚠️ Provider cannot subscribe to events, polling instead', error);
+      await this.unsubscribe();
+      if (!this.stopped) this.startPolling();
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    void this.unsubscribe();
+  }
+
+  private startPolling(): void {
+    this.options.onStatus('polling');
+    void this.poll();
+    this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const head = await this.provider.getBlockNumber();
+      // Only events from now on: the initial state came from getActiveProposals
+      if (this.lastBlock === null || head <= this.lastBlock) {
+        this.lastBlock = Math.max(this.lastBlock ?? head, head);
+        return;
+      }
+      const logs = await this.provider.getLogs({
+        address: await this.contract.getAddress(),
+        fromBlock: this.lastBlock + 1,
+        toBlock: head
+      });
+      this.lastBlock = head;
+      for (const log of logs) {
+        const event = parseVotingLog(log);
+        if (event) await this.dispatch(event);
+      }
+    } catch (error) {
+      debugLog('⚠️ Polling for proposal events failed', error);
+    }
+  }
+
+  private async dispatch(event: FHEVotingEvent): Promise<void> {
+    if (this.stopped) return;
+    switch (event.name) {
+      case 'ProposalCreated': {
+        const proposal = await this.options.loadProposal(Number(event.args.proposalId));
+        if (proposal && !this.stopped) this.options.onUpdate({ type: 'created', proposal });
+        break;
+      }
+      case 'VoteCast':
+        this.options.onUpdate({
+          type: 'voted',
+          proposalId: Number(event.args.proposalId),
+          totalVotes: Number(event.args.totalVotes),
+          voter: event.args.voter
+        });
+        break;
+      case 'DecryptionRequested':
+        this.options.onUpdate({ type: 'decryption-requested', proposalId: Number(event.args.proposalId) });
+        break;
+      case 'ResultsRevealed':
+        this.options.onUpdate({
+          type: 'revealed',
+          proposalId: Number(event.args.proposalId),
+          results: event.args.results.map(Number)
+        });
+        break;
+      case 'ProposalCancelled':
+        this.options.onUpdate({
+          type: 'cancelled',
+          proposalId: Number(event.args.proposalId),
+          reason: decodeReason(CANCEL_REASONS, event.args.reason)
+        });
+        break;
+      case 'ProposalClosedEarly':
+        this.options.onUpdate({
+          type: 'closed',
+          proposalId: Number(event.args.proposalId),
+          endTime: Number(event.args.endTime) * 1000,
+          reason: decodeReason(CLOSE_REASONS, event.args.reason)
+        });
+        break;
+      case 'ProposalExtended':
+        this.options.onUpdate({
+          type: 'extended',
+          proposalId: Number(event.args.proposalId),
+          endTime: Number(event.args.endTime) * 1000,
+          reason: decodeReason(EXTEND_REASONS, event.args.reason)
+        });
+        break;
+    }
+  }
+
+  private async unsubscribe(): Promise<void> {
+    const names = this.subscribed;
+    this.subscribed = [];
+    await Promise.all(names.map(name => this.contract.off(name, this.listener).catch(() => {})));
+  }
+}
+
+/**
+ * Apply one update to a proposal list without refetching. `account` is the
+ * connected wallet, so its own VoteCast marks the proposal as voted.
+ */
+export const applyProposalUpdate = (
+  proposals: Proposal[],
+  update: ProposalUpdate,
+  account: string | null
+): Proposal[] => {
+  if (update.type === 'created') {
+    const others = proposals.filter(p => p.id !== update.proposal.id);
+    return [...others, update.proposal].sort((a, b) => a.id - b.id);
+  }
+
+  return proposals.map(proposal => {
+    if (proposal.id !== update.proposalId) return proposal;
+    switch (update.type) {
+      case 'voted':
+        return {
+          ...proposal,
+          totalVotes: update.totalVotes,
+          hasVoted: proposal.hasVoted || (!!account && account.toLowerCase() === update.voter.toLowerCase())
+        };
+      case 'decryption-requested':
+        return { ...proposal, decryptionPending: true };
+      case 'revealed':
+        return { ...proposal, decryptionPending: false, resultsRevealed: true, revealedResults: update.results };
+      case 'cancelled':
+        return { ...proposal, active: false, cancelled: true };
+      case 'closed':
+        return { ...proposal, endTime: update.endTime, closedEarly: true };
+      case 'extended':
+        return { ...proposal, endTime: update.endTime, extended: true };
+    }
+  });
+};
@@ -0,0 +1,100 @@
+import { BrowserProvider, Wallet } from 'ethers';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MockEip1193Provider } from './mockWallet';
+import { WalletDiscovery } from './wallets';
+
+const [alice, bob] = [Wallet.createRandom().address, Wallet.createRandom().address];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('MockEip1193Provider', () => {
+  it('answers for its own accounts and chain', async () => {
+    const wallet = new MockEip1193Provider({ accounts: [alice], chainId: 31337 });
+    const provider = new BrowserProvider(wallet);
+
+    expect((await provider.getNetwork()).chainId).toBe(31337n);
+    expect(await (await provider.getSigner()).getAddress()).toBe(alice);
+    expect(await wallet.request({ method: 'net_version' })).toBe('31337');
+  });
+
+  it('emits the events a wallet extension would', async () => {
+    const wallet = new MockEip1193Provider({ accounts: [alice], chainId: 31337 });
+    const accountsChanged = vi.fn();
+    const chainChanged = vi.fn();
+    wallet.on('accountsChanged', accountsChanged);
+    wallet.on('chainChanged', chainChanged);
+
+    wallet.setAccounts([bob]);
+    await wallet.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0xaa36a7' }] });
+    // Already there: no event
+    wallet.setChainId(11155111);
+
+    expect(accountsChanged).toHaveBeenCalledWith([bob]);
+    expect(chainChanged).toHaveBeenCalledTimes(1);
+    expect(chainChanged).toHaveBeenCalledWith('0xaa36a7');
+    expect(await wallet.request({ method: 'eth_chainId' })).toBe('0xaa36a7');
+    expect(await wallet.request({ method: 'eth_accounts' })).toEqual([bob]);
+
+    wallet.removeListener('accountsChanged', accountsChanged);
+    wallet.setAccounts([alice]);
+    expect(accountsChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets handlers answer before anything else', async () => {
+    const sendTransaction = vi.fn(async () => '0xabc');
+    const wallet = new MockEip1193Provider({
+      accounts: [alice],
+      chainId: 31337,
+      handlers: {
+        eth_accounts: () => [],
+        eth_sendTransaction: sendTransaction
+      }
+    });
+
+    expect(await wallet.request({ method: 'eth_accounts' })).toEqual([]);
+    expect(await wallet.request({ method: 'eth_sendTransaction', params: [{ to: bob }] })).toBe('0xabc');
+    expect(sendTransaction).toHaveBeenCalledWith([{ to: bob }]);
+  });
+
+  it('forwards everything else to its RPC endpoint, with the node\'s errors', async () => {
+    const bodies: { method: string; params: unknown[] }[] = [];
+    const fetchRpc = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(init!.body as string);
+      bodies.push(body);
+      return body.method === 'eth_blockNumber'
+        ? Response.json({ jsonrpc: '2.0', id: body.id, result: '0x10' })
+        : Response.json({ jsonrpc: '2.0', id: body.id, error: { code: 3, message: 'execution reverted', data: '0x08c379a0' } });
+    });
+    const wallet = new MockEip1193Provider({ accounts: [alice], chainId: 31337, rpcUrl: 'http://rpc.test', fetch: fetchRpc });
+
+    expect(await wallet.request({ method: 'eth_blockNumber' })).toBe('0x10');
+    await expect(wallet.request({ method: 'eth_call', params: [{ to: bob }, 'latest'] }))
+      .rejects.toMatchObject({ code: 3, message: 'execution reverted', data: '0x08c379a0' });
+    expect(fetchRpc).toHaveBeenCalledWith('http://rpc.test', expect.objectContaining({ method: 'POST' }));
+    expect(bodies.map(body => body.method)).toEqual(['eth_blockNumber', 'eth_call']);
+    expect(bodies[0].params).toEqual([]);
+  });
+
+  it('refuses what it cannot answer without an RPC endpoint', async () => {
+    const wallet = new MockEip1193Provider({ accounts: [alice], chainId: 31337 });
+
+    await expect(wallet.request({ method: 'eth_getBalance', params: [alice, 'latest'] }))
+      .rejects.toMatchObject({ code: 4200, message: 'MockEip1193Provider does not support eth_getBalance' });
+  });
+
+  it('announces itself over EIP-6963', () => {
+    vi.stubGlobal('window', new EventTarget());
+    const discovery = new WalletDiscovery();
+    discovery.start();
+    const wallet = new MockEip1193Provider({ accounts: [alice], chainId: 31337 });
+
+    wallet.announce({ name: 'Test Wallet', rdns: 'dev.test.wallet' });
+
+    const found = discovery.getWallet('dev.test.wallet');
+    expect(found?.provider).toBe(wallet);
+    expect(found?.info.name).toBe('Test Wallet');
+    discovery.stop();
+  });
+});
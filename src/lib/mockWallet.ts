@@ -0,0 +1,101 @@
+import { toHexChainId } from './chains';
+import { EIP1193Provider, WalletInfo } from './wallets';
+
+export interface MockWalletOptions {
+  accounts: string[];
+  chainId: number;
+  // Reads and anything not handled here are forwarded to this JSON-RPC endpoint
+  rpcUrl?: string;
+  // Answers for specific methods, e.g. eth_sendTransaction or eth_signTypedData_v4
+  handlers?: Record<string, (params: unknown) => unknown | Promise<unknown>>;
+  fetch?: typeof fetch;
+}
+
+// EIP-1193 errors carry a numeric code, e.g. 4001 for a rejected request
+const providerError = (code: number, message: string) => Object.assign(new Error(message), { code });
+
+/**
+ * In-memory EIP-1193 provider for tests and local development. Accounts and
+ * chain are its own state; setAccounts() and setChainId() emit the same
+ * events a wallet extension would.
+ */
+export class MockEip1193Provider implements EIP1193Provider {
+  private readonly listeners = new Map<string, Set<(...args: unknown[]) => void>>();
+  private accounts: string[];
+  private chainId: number;
+  private nextId = 1;
+
+  constructor(private readonly options: MockWalletOptions) {
+    this.accounts = options.accounts;
+    this.chainId = options.chainId;
+  }
+
+  async request({ method, params }: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown> {
+    const handler = this.options.handlers?.[method];
+    if (handler) return handler(params);
+
+    switch (method) {
+      case 'eth_chainId':
+        return toHexChainId(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return [...this.accounts];
+      case 'wallet_switchEthereumChain': {
+        const [{ chainId }] = params as [{ chainId: string }];
+        this.setChainId(parseInt(chainId, 16));
+        return null;
+      }
+    }
+
+    if (!this.options.rpcUrl) {
+      throw providerError(4200, `MockEip1193Provider does not support ${method}`);
+    }
+    const response = await (this.options.fetch ?? fetch)(this.options.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params: params ?? [] })
+    });
+    const reply: { result?: unknown; error?: { code: number; message: string; data?: unknown } } = await response.json();
+    if (reply.error) {
+      throw Object.assign(providerError(reply.error.code, reply.error.message), { data: reply.error.data });
+    }
+    return reply.result;
+  }
+
+  on(event: string, listener: (...args: unknown[]) => void): void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+  }
+
+  removeListener(event: string, listener: (...args: unknown[]) => void): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  // Act as if the user switched account in the wallet
+  setAccounts(accounts: string[]): void {
+    this.accounts = accounts;
+    this.emit('accountsChanged', [...accounts]);
+  }
+
+  // Act as if the user switched network in the wallet
+  setChainId(chainId: number): void {
+    if (chainId === this.chainId) return;
+    this.chainId = chainId;
+    this.emit('chainChanged', toHexChainId(chainId));
+  }
+
+  // Announce this provider over EIP-6963, as an installed extension would
+  announce(info: Partial<WalletInfo> = {}): void {
+    const detail = Object.freeze({
+      info: { uuid: crypto.randomUUID(), name: 'Mock Wallet', icon: '', rdns: 'dev.mock.wallet', ...info },
+      provider: this
+    });
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail }));
+  }
+
+  private emit(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach(listener => listener(...args));
+  }
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { votingCall } from './bindings';
+import { MockEncryptionBackend } from './encryption';
+import { ContractVotingBackend } from './contractBackend';
+import { fhevmClient } from './fhevm';
+import { ReadBatcher } from './multicall';
+import { TransactionManager } from './transactions';
+import { MockVotingChain, TEST_CHAIN, VOTING_ADDRESS, testAccount } from '@/test/mockVotingChain';
+
+const owner = testAccount('owner');
+const chains: MockVotingChain[] = [];
+
+const deploy = (proposalCount: number) => {
+  const chain = new MockVotingChain(owner.address);
+  chain.addProposals(proposalCount, owner.address);
+  chains.push(chain);
+  return chain;
+};
+
+const hasVotedCalls = (count: number) =>
+  Array.from({ length: count }, (_, id) => votingCall(VOTING_ADDRESS, 'hasVoted', id, owner.address));
+
+afterEach(() => {
+  chains.splice(0).forEach(chain => chain.destroy());
+});
+
+describe('ReadBatcher', () => {
+  it('sends one multicall per batch', async () => {
+    const chain = deploy(120);
+    const reads = new ReadBatcher(chain, { multicallAddress: TEST_CHAIN.multicall3Address, batchSize: 50 });
+
+    const results = await reads.all(hasVotedCalls(120));
+
+    expect(results.every(result => result.ok && result.value === false)).toBe(true);
+    expect(reads.getStats()).toEqual({ transport: 'multicall', roundTrips: 3 });
+    expect(chain.getRequestCount('eth_call')).toBe(3);
+  });
+
+  it('reports a reverting call without failing the batch', async () => {
+    const chain = deploy(2);
+    const reads = new ReadBatcher(chain, { multicallAddress: TEST_CHAIN.multicall3Address });
+
+    const [first, missing] = await reads.all([
+      votingCall(VOTING_ADDRESS, 'hasVoted', 0, owner.address),
+      votingCall(VOTING_ADDRESS, 'hasVoted', 7, owner.address)
+    ]);
+
+    expect(first).toEqual({ ok: true, value: false });
+    expect(missing.ok).toBe(false);
+  });
+
+  it('falls back to JSON-RPC batches without Multicall3', async () => {
+    const chain = deploy(120);
+    const bodies: unknown[][] = [];
+    // An HTTP endpoint that answers each batch through the mock chain
+    const fetchBatch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const body = JSON.parse(init!.body as string) as { id: number; method: string; params: unknown[] }[];
+      bodies.push(body);
+      const replies = await Promise.all(body.map(async request => ({
+        id: request.id,
+        result: await chain.send(request.method, request.params)
+      })));
+      return new Response(JSON.stringify(replies));
+    };
+    const reads = new ReadBatcher(chain, {
+      multicallAddress: null,
+      rpcUrl: 'http://rpc.test',
+      batchSize: 50,
+      fetch: fetchBatch
+    });
+
+    const values = await reads.values(hasVotedCalls(120));
+
+    expect(values).toEqual(Array(120).fill(false));
+    expect(reads.getStats()).toEqual({ transport: 'json-rpc-batch', roundTrips: 3 });
+    expect(bodies.map(body => body.length)).toEqual([50, 50, 20]);
+  });
+
+  it('keeps the dashboard round trips flat as the proposal count grows', async () => {
+    const roundTrips = async (proposalCount: number) => {
+      const chain = deploy(proposalCount);
+      await fhevmClient.init(chain, { backend: new MockEncryptionBackend(), chain: TEST_CHAIN });
+      const backend = new ContractVotingBackend(TEST_CHAIN, chain, owner.connect(chain), new TransactionManager());
+
+      const profile = await backend.getUserProfile();
+      const proposals = await backend.getActiveProposals();
+      expect(profile!.votedProposals).toEqual([]);
+      expect(proposals).toHaveLength(proposalCount);
+      return { batched: backend.getReadStats().roundTrips, ethCalls: chain.getRequestCount('eth_call') };
+    };
+
+    const few = await roundTrips(3);
+    const many = await roundTrips(90);
+
+    expect(many).toEqual(few);
+    // Profile reads, hasVoted for every proposal, hasVoted for the active ones
+    expect(few.batched).toBe(3);
+  });
+});
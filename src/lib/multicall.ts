@@ -0,0 +1,184 @@
+import { Interface, Provider } from 'ethers';
+import { debugLog, describeError } from './debug';
+
+// Same address on every chain it is deployed to
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const multicallInterface = new Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+// One view call: `method` on `target`, encoded and decoded with `iface`
+export interface ViewCall {
+  target: string;
+  iface: Interface;
+  method: string;
+  args: readonly unknown[];
+}
+
+// Per-call outcome; one failing call does not fail the batch
+export type ViewCallResult<T = unknown> = { ok: true; value: T } | { ok: false; error: Error };
+
+export type BatchTransport = 'multicall' | 'json-rpc-batch' | 'individual';
+
+export interface ReadBatcherOptions {
+  // Multicall3 deployment for the chain, or null to skip straight to JSON-RPC batching
+  multicallAddress: string | null;
+  // HTTP endpoint that accepts JSON-RPC batch requests, used when Multicall3 is unavailable
+  rpcUrl?: string | null;
+  // Calls per multicall or per JSON-RPC batch
+  batchSize?: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Sends many view calls in as few round trips as possible: one Multicall3
+ * aggregate3 per `batchSize` calls, or one JSON-RPC batch per `batchSize`
+ * calls when the chain has no Multicall3, or one eth_call each as a last
+ * resort.
+ */
+export class ReadBatcher {
+  private readonly batchSize: number;
+  private readonly fetchImpl: typeof fetch;
+  private multicallAvailable: Promise<boolean> | null = null;
+  private lastTransport: BatchTransport | null = null;
+  private roundTrips = 0;
+
+  constructor(private readonly provider: Provider, private readonly options: ReadBatcherOptions) {
+    this.batchSize = Math.max(1, options.batchSize ?? 100);
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async all<T = unknown>(calls: ViewCall[]): Promise<ViewCallResult<T>[]> {
+    const results: ViewCallResult<T>[] = [];
+    for (let start = 0; start < calls.length; start += this.batchSize) {
+      results.push(...await this.runChunk<T>(calls.slice(start, start + this.batchSize)));
+    }
+    return results;
+  }
+
+  // Like all(), but throws the first failure
+  async values<T = unknown>(calls: ViewCall[]): Promise<T[]> {
+    return (await this.all<T>(calls)).map(result => {
+      if (!result.ok) throw result.error;
+      return result.value;
+    });
+  }
+
+  // Transport used by the last batch and total round trips, for the debug panel
+  getStats(): { transport: BatchTransport | null; roundTrips: number } {
+    return { transport: this.lastTransport, roundTrips: this.roundTrips };
+  }
+
+  private async runChunk<T>(calls: ViewCall[]): Promise<ViewCallResult<T>[]> {
+    if (calls.length === 0) return [];
+
+    if (await this.hasMulticall()) {
+      try {
+        return await this.viaMulticall<T>(calls);
+      } catch (error) {
+        debugLog('⚠️ Multicall failed, falling back', error);
+      }
+    }
+    if (this.options.rpcUrl) {
+      try {
+        return await this.viaJsonRpcBatch<T>(calls);
+      } catch (error) {
+        debugLog('⚠️ JSON-RPC batch failed, falling back to single calls', error);
+      }
+    }
+    return this.individually<T>(calls);
+  }
+
+  private hasMulticall(): Promise<boolean> {
+    const address = this.options.multicallAddress;
+    if (!address) return Promise.resolve(false);
+    if (!this.multicallAvailable) {
+      this.multicallAvailable = this.provider.getCode(address)
+        .then(code => code !== '0x')
+        .catch(() => false);
+    }
+    return this.multicallAvailable;
+  }
+
+  private async viaMulticall<T>(calls: ViewCall[]): Promise<ViewCallResult<T>[]> {
+    const data = multicallInterface.encodeFunctionData('aggregate3', [
+      calls.map(call => ({
+        target: call.target,
+        allowFailure: true,
+        callData: call.iface.encodeFunctionData(call.method, call.args)
+      }))
+    ]);
+    this.countRoundTrip('multicall');
+    const raw = await this.provider.call({ to: this.options.multicallAddress!, data });
+    const [returned] = multicallInterface.decodeFunctionResult('aggregate3', raw);
+
+    return calls.map((call, i) => {
+      const { success, returnData } = returned[i];
+      return success
+        ? decode<T>(call, returnData)
+        : { ok: false, error: new Error(`${call.method} reverted`) };
+    });
+  }
+
+  private async viaJsonRpcBatch<T>(calls: ViewCall[]): Promise<ViewCallResult<T>[]> {
+    const body = calls.map((call, id) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'eth_call',
+      params: [{ to: call.target, data: call.iface.encodeFunctionData(call.method, call.args) }, 'latest']
+    }));
+    this.countRoundTrip('json-rpc-batch');
+    const response = await this.fetchImpl(this.options.rpcUrl!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new Error(`RPC batch failed with HTTP ${response.status}`);
+    }
+    const replies: { id: number; result?: string; error?: { message: string } }[] = await response.json();
+    if (!Array.isArray(replies)) {
+      throw new Error('RPC endpoint does not support batch requests');
+    }
+
+    const byId = new Map(replies.map(reply => [reply.id, reply]));
+    return calls.map((call, id) => {
+      const reply = byId.get(id);
+      if (!reply || reply.error || reply.result === undefined) {
+        return { ok: false, error: new Error(reply?.error?.message ?? `No reply for ${call.method}`) };
+      }
+      return decode<T>(call, reply.result);
+    });
+  }
+
+  private async individually<T>(calls: ViewCall[]): Promise<ViewCallResult<T>[]> {
+    return Promise.all(calls.map(async call => {
+      this.countRoundTrip('individual');
+      try {
+        const raw = await this.provider.call({
+          to: call.target,
+          data: call.iface.encodeFunctionData(call.method, call.args)
+        });
+        return decode<T>(call, raw);
+      } catch (error) {
+        return { ok: false as const, error: error instanceof Error ? error : new Error(describeError(error)) };
+      }
+    }));
+  }
+
+  private countRoundTrip(transport: BatchTransport): void {
+    this.lastTransport = transport;
+    this.roundTrips++;
+  }
+}
+
+// Single return values are unwrapped; structs stay as ethers Results with named fields
+const decode = <T>(call: ViewCall, data: string): ViewCallResult<T> => {
+  try {
+    const decoded = call.iface.decodeFunctionResult(call.method, data);
+    return { ok: true, value: (decoded.length === 1 ? decoded[0] : decoded) as T };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error : new Error(describeError(error)) };
+  }
+};
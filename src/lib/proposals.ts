@@ -0,0 +1,79 @@
+import { ProposalInfoStruct } from '@/contracts/FHEVoting.types';
+import { OnChainProposal, VotingViewResult, decodeProposal, votingCall } from './bindings';
+import { debugLog } from './debug';
+import { ReadBatcher } from './multicall';
+
+// Newest first; pass nextCursor back to continue, null means there is nothing older
+export interface ProposalPage<T = OnChainProposal> {
+  proposals: T[];
+  nextCursor: number | null;
+}
+
+/**
+ * Every proposal the contract has ever stored, not only the active ones,
+ * read with proposalCount and getProposal(id) in batched pages. Proposals
+ * that can no longer change (deactivated or revealed) are cached.
+ */
+export class ProposalRepository {
+  private readonly cache = new Map<number, OnChainProposal>();
+
+  constructor(
+    private readonly reads: ReadBatcher,
+    private readonly contractAddress: string,
+    private readonly pageSize: number = 20
+  ) {}
+
+  async getPage(cursor: number | null = null, limit: number = this.pageSize): Promise<ProposalPage> {
+    // The first page starts at the newest proposal; later pages continue below the cursor
+    let start = cursor;
+    if (start === null) {
+      const [count] = await this.reads.values<VotingViewResult<'proposalCount'>>([
+        votingCall(this.contractAddress, 'proposalCount')
+      ]);
+      start = Number(count) - 1;
+    }
+    if (start < 0) {
+      return { proposals: [], nextCursor: null };
+    }
+
+    const ids: number[] = [];
+    for (let id = start; id >= 0 && ids.length < limit; id--) {
+      ids.push(id);
+    }
+
+    const missing = ids.filter(id => !this.cache.has(id));
+    const fetched = new Map<number, OnChainProposal>();
+    if (missing.length > 0) {
+      const results = await this.reads.all<ProposalInfoStruct>(
+        missing.map(id => votingCall(this.contractAddress, 'getProposal', id))
+      );
+      missing.forEach((id, i) => {
+        const result = results[i];
+        if (!result.ok) {
+          debugLog(`Could not load proposal ${id}`, result.error);
+          return;
+        }
+        const proposal = decodeProposal(result.value);
+        fetched.set(id, proposal);
+        if (isSettled(proposal)) this.cache.set(id, proposal);
+      });
+    }
+
+    const last = ids[ids.length - 1];
+    return {
+      proposals: ids.flatMap(id => {
+        const proposal = this.cache.get(id) ?? fetched.get(id);
+        return proposal ? [proposal] : [];
+      }),
+      nextCursor: last > 0 ? last - 1 : null
+    };
+  }
+
+  // Forget a cached proposal, e.g. after an event says it changed
+  invalidate(proposalId: number): void {
+    this.cache.delete(proposalId);
+  }
+}
+
+// Nothing about a proposal changes once it is deactivated or its results are public
+const isSettled = (proposal: OnChainProposal) => !proposal.active || proposal.resultsRevealed;
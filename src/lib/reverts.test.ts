@@ -0,0 +1,79 @@
+import { AbiCoder, concat, id, makeError } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { ContractError } from './errors';
+import { decodeContractError } from './reverts';
+
+const revertData = (signature: 'Error(string)' | 'Panic(uint256)', value: string | number) =>
+  concat([id(signature).slice(0, 10), AbiCoder.defaultAbiCoder().encode([signature.slice(6, -1)], [value])]);
+
+// What MetaMask hands back for a reverting eth_estimateGas
+const walletRevert = (data: string) => ({
+  code: -32603,
+  message: 'Internal JSON-RPC error.',
+  data: { code: 3, message: 'execution reverted', data }
+});
+
+describe('decodeContractError', () => {
+  it('maps a require() message to its reason and a readable message', () => {
+    const raw = walletRevert(revertData('Error(string)', 'Already voted'));
+    const error = decodeContractError(raw, true);
+
+    expect(error).toBeInstanceOf(ContractError);
+    expect(error).toMatchObject({
+      reason: 'ALREADY_VOTED',
+      message: 'You have already voted on this proposal.',
+      preflight: true,
+      cause: raw
+    });
+  });
+
+  it('finds revert data however deep the provider nests it', () => {
+    // ethers wraps the node's error in info.error
+    const nested = { code: 'UNKNOWN_ERROR', info: { error: { error: { data: revertData('Error(string)', 'Voting still active') } } } };
+
+    expect(decodeContractError(nested)).toMatchObject({ reason: 'VOTING_STILL_OPEN', preflight: false });
+  });
+
+  it('keeps the raw text of a require() it does not know', () => {
+    expect(decodeContractError(walletRevert(revertData('Error(string)', 'Something new'))))
+      .toMatchObject({ reason: 'UNKNOWN', message: 'Something new' });
+  });
+
+  it('describes panics', () => {
+    expect(decodeContractError(walletRevert(revertData('Panic(uint256)', 0x11))))
+      .toMatchObject({ reason: 'PANIC', message: 'The contract failed with an arithmetic overflow.' });
+    expect(decodeContractError(walletRevert(revertData('Panic(uint256)', 0x51))))
+      .toMatchObject({ reason: 'PANIC', message: 'The contract failed with panic code 0x51.' });
+  });
+
+  it('falls back to what ethers decoded, including custom errors', () => {
+    const custom = makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'estimateGas',
+      data: null,
+      reason: null,
+      transaction: { to: null, data: '0x' },
+      invocation: null,
+      revert: { signature: 'AlreadyVoted()', name: 'AlreadyVoted', args: [] }
+    });
+    expect(decodeContractError(custom)).toMatchObject({ reason: 'ALREADY_VOTED' });
+
+    const silent = makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'estimateGas',
+      data: null,
+      reason: null,
+      transaction: { to: null, data: '0x' },
+      invocation: null,
+      revert: null
+    });
+    expect(decodeContractError(silent))
+      .toMatchObject({ reason: 'UNKNOWN', message: 'The contract rejected this transaction without a reason.' });
+  });
+
+  it('leaves errors that are not reverts alone', () => {
+    const existing = new ContractError('NOT_AUTHORIZED', 'Only admins can do this.');
+
+    expect(decodeContractError(existing)).toBe(existing);
+    expect(decodeContractError(makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' }))).toBeNull();
+    expect(decodeContractError(new Error('network timeout'))).toBeNull();
+  });
+});
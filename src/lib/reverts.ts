@@ -0,0 +1,102 @@
+import { isError } from 'ethers';
+import { votingInterface } from './bindings';
+import { ContractError, ContractErrorReason } from './errors';
+
+// require() messages in FHEVoting.sol; `message` replaces the raw string for the user
+const REQUIRE_MESSAGES: Record<string, { reason: ContractErrorReason; message?: string }> = {
+  'Already voted': { reason: 'ALREADY_VOTED', message: 'You have already voted on this proposal.' },
+  'Not authorized to vote': { reason: 'NOT_AUTHORIZED', message: 'Your address is not authorized to vote. Ask an admin to authorize it.' },
+  'Only admin can perform this action': { reason: 'NOT_AUTHORIZED', message: 'Only admins can do this.' },
+  'Only owner can perform this action': { reason: 'NOT_AUTHORIZED', message: 'Only the contract owner can do this.' },
+  'Voting period not active': { reason: 'VOTING_CLOSED', message: 'This proposal is not accepting votes right now.' },
+  'Voting still active': { reason: 'VOTING_STILL_OPEN', message: 'Results can only be revealed after voting ends.' },
+  'Invalid proposal ID': { reason: 'PROPOSAL_NOT_FOUND', message: 'This proposal does not exist.' },
+  'Proposal not active': { reason: 'PROPOSAL_INACTIVE', message: 'This proposal has been deactivated.' },
+  'Results already revealed': { reason: 'RESULTS_ALREADY_REVEALED', message: 'The results of this proposal are already public.' },
+  'Decryption already requested': { reason: 'DECRYPTION_PENDING', message: 'Decryption was already requested; the oracle has not answered yet.' },
+  'At least 2 options required': { reason: 'INVALID_ARGUMENTS' },
+  'Maximum 10 options allowed': { reason: 'INVALID_ARGUMENTS' },
+  'Voting duration must be positive': { reason: 'INVALID_ARGUMENTS' },
+  'Ballot length mismatch': { reason: 'INVALID_ARGUMENTS', message: 'The ballot does not match the number of options.' },
+  'Invalid option': { reason: 'INVALID_ARGUMENTS' },
+  'Proposal already has votes': { reason: 'PROPOSAL_HAS_VOTES', message: 'Only proposals nobody has voted on can be cancelled. Close it early instead.' },
+  'Extension must be positive': { reason: 'INVALID_ARGUMENTS', message: 'The extension must be longer than zero.' },
+  'Owner is always admin': { reason: 'INVALID_ARGUMENTS', message: 'The owner cannot lose admin rights. Transfer ownership first.' },
+  'Only the pending owner can accept': { reason: 'NOT_AUTHORIZED', message: 'Only the address ownership was offered to can accept it.' },
+};
+
+// Custom errors are matched by name once the contract declares them in its ABI
+const CUSTOM_ERRORS: Record<string, { reason: ContractErrorReason; message: string }> = {
+  AlreadyVoted: { reason: 'ALREADY_VOTED', message: 'You have already voted on this proposal.' },
+  NotAuthorized: { reason: 'NOT_AUTHORIZED', message: 'Your address is not allowed to do this.' },
+  VotingClosed: { reason: 'VOTING_CLOSED', message: 'This proposal is not accepting votes right now.' },
+};
+
+const PANIC_MESSAGES: Record<number, string> = {
+  0x01: 'an assertion failed',
+  0x11: 'an arithmetic overflow',
+  0x12: 'a division by zero',
+  0x32: 'an out-of-bounds array access',
+};
+
+// Wallets and providers nest the revert data at different depths
+// The ContractError a require() in FHEVoting.sol produces, also used where the contract is emulated
+export const requireError = (text: string, options: { preflight?: boolean; cause?: unknown } = {}): ContractError => {
+  const known = REQUIRE_MESSAGES[text];
+  return new ContractError(known?.reason ?? 'UNKNOWN', known?.message ?? text, options);
+};
+
+const findRevertData = (error: unknown, depth: number = 0): string | null => {
+  if (!error || typeof error !== 'object' || depth > 4) return null;
+  const { data, error: inner, info } = error as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+  if (typeof data === 'string' && /^0x[0-9a-fA-F]{8}/.test(data)) return data;
+  return findRevertData(inner, depth + 1)
+    ?? findRevertData(info?.error, depth + 1)
+    ?? findRevertData(data, depth + 1);
+};
+
+const parseRevert = (error: unknown): { name: string; args: readonly unknown[] } | null => {
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      // Handles Error(string) and Panic(uint256) as well as the contract's own errors
+      const parsed = votingInterface.parseError(data);
+      if (parsed) return { name: parsed.name, args: [...parsed.args] };
+    } catch {
+      // Malformed data; fall through to what ethers decoded itself
+    }
+  }
+  if (isError(error, 'CALL_EXCEPTION') && error.revert) {
+    return { name: error.revert.name, args: error.revert.args };
+  }
+  return null;
+};
+
+/**
+ * Turns a revert from the voting contract into a ContractError, or returns
+ * null when the error is not a revert (rejected signature, network trouble).
+ */
+export const decodeContractError = (error: unknown, preflight: boolean = false): ContractError | null => {
+  if (error instanceof ContractError) return error;
+
+  const revert = parseRevert(error);
+  const options = { preflight, cause: error };
+  if (!revert) {
+    return isError(error, 'CALL_EXCEPTION')
+      ? new ContractError('UNKNOWN', 'The contract rejected this transaction without a reason.', options)
+      : null;
+  }
+
+  if (revert.name === 'Error') {
+    return requireError(String(revert.args[0]), options);
+  }
+  if (revert.name === 'Panic') {
+    const code = Number(revert.args[0]);
+    const cause = PANIC_MESSAGES[code] ?? `panic code 0x${code.toString(16)}`;
+    return new ContractError('PANIC', `The contract failed with ${cause}.`, options);
+  }
+  const custom = CUSTOM_ERRORS[revert.name];
+  return custom
+    ? new ContractError(custom.reason, custom.message, options)
+    : new ContractError('UNKNOWN', `The contract rejected this transaction (${revert.name}).`, options);
+};
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockEncryptionBackend } from './encryption';
+import { fhevmClient } from './fhevm';
+import { SimulatedVotingBackend, simulatedContract } from './simulation';
+import type { VoteStage } from '@/types/voting';
+import { MockVotingChain, TEST_CHAIN, VOTING_ADDRESS, testAccount } from '@/test/mockVotingChain';
+import { describeVotingBackend, settle } from '@/test/votingBackendConformance';
+
+let chain: MockVotingChain;
+
+describeVotingBackend('simulated', {
+  async setup(owner) {
+    // Writes wait on timers standing in for block times
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    chain = new MockVotingChain(owner.address);
+    await fhevmClient.init(chain, { backend: new MockEncryptionBackend(), chain: TEST_CHAIN });
+    await simulatedContract.reset();
+    // The first account to connect becomes owner
+    await settle(new SimulatedVotingBackend({ chain: TEST_CHAIN, provider: chain, signer: owner }).getUserProfile());
+  },
+  connect(account) {
+    return new SimulatedVotingBackend({ chain: TEST_CHAIN, provider: chain, signer: account?.connect(chain) ?? null });
+  },
+  teardown() {
+    chain.destroy();
+    vi.useRealTimers();
+  }
+});
+
+describe('simulated castVote', () => {
+  const owner = testAccount('owner');
+  const [voter, thief] = ['voter', 'thief'].map(testAccount);
+
+  beforeEach(async () => {
+    chain = new MockVotingChain(owner.address);
+    await fhevmClient.init(chain, { backend: new MockEncryptionBackend(), chain: TEST_CHAIN });
+    await simulatedContract.reset();
+    await simulatedContract.getUserProfile(owner.address);
+    await simulatedContract.authorizeVoters(owner.address, [voter.address, thief.address]);
+  });
+
+  afterEach(() => {
+    chain.destroy();
+    vi.useRealTimers();
+  });
+
+  it('reverts a ballot replayed by another voter, as FHE.fromExternal would', async () => {
+    const proposalId = await simulatedContract.createProposal(owner.address, 'Budget', '', ['Yes', 'No'], 3600);
+    const binding = { chainId: TEST_CHAIN.chainId, contractAddress: VOTING_ADDRESS, proposalId, voter: voter.address };
+    const { encryptedBallot, inputProof } = fhevmClient.toContractInput(await fhevmClient.encryptBallot(1, 2, binding));
+
+    await expect(simulatedContract.castVote(thief.address, VOTING_ADDRESS, proposalId, encryptedBallot, inputProof))
+      .rejects.toMatchObject({ name: 'ContractError', message: 'Invalid input proof' });
+    expect(await simulatedContract.getBallot(proposalId, thief.address)).toEqual([]);
+
+    expect(await simulatedContract.castVote(voter.address, VOTING_ADDRESS, proposalId, encryptedBallot, inputProof)).toBe(1);
+  });
+
+  it('reports a vote as confirming while it waits for the block', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const proposalId = await simulatedContract.createProposal(owner.address, 'Budget', '', ['Yes', 'No'], 3600);
+    const backend = new SimulatedVotingBackend({ chain: TEST_CHAIN, provider: chain, signer: voter.connect(chain) });
+    const progress: VoteStage[] = [];
+    let done = false;
+
+    const vote = backend.castVote(proposalId, 0, { onProgress: step => progress.push(step) }).finally(() => (done = true));
+    while (!progress.includes('confirming')) await vi.advanceTimersByTimeAsync(100);
+
+    expect(done).toBe(false);
+    expect(await settle(vote)).toBe(true);
+  });
+});
@@ -0,0 +1,759 @@
+import { ethers } from 'ethers';
+import {
+  AccountRoles,
+  CancelReason,
+  CastVoteOptions,
+  CloseReason,
+  ExtendReason,
+  LiveStatus,
+  Ownership,
+  Proposal,
+  ProposalUpdate,
+  RevealStatus,
+  UserProfile
+} from '@/types/voting';
+import { BackendSession, VotingBackend, decryptOwnBallot, encryptVote, requireSigner, verifyBallotForSending } from './backend';
+import type { OnChainProposal } from './bindings';
+import { debugLog } from './debug';
+import { MockEncryptionBackend } from './encryption';
+import { fhevmClient } from './fhevm';
+import type { ProposalPage } from './proposals';
+import { requireError } from './reverts';
+
+// One proposal as the contract stores it, plus its encrypted tallies (hex handles)
+interface SimulatedProposal extends OnChainProposal {
+  tallies: string[];
+}
+
+interface SimulationState {
+  version: 3;
+  // The first account to connect, standing in for the deployer
+  owner: string | null;
+  pendingOwner: string | null;
+  admins: string[];
+  authorizedVoters: string[];
+  proposals: SimulatedProposal[];
+  // Encrypted ballots (hex handles), keyed by `${proposalId}:${voter}`
+  ballots: Record<string, string[]>;
+}
+
+const STORAGE_KEY = 'fhevoting-simulation';
+const MAX_OPTIONS = 10;
+// Tallies belong to the contract, not to a voter
+const TALLY_OWNER = ethers.ZeroAddress;
+const DEMO_CREATOR = '0x1234567890123456789012345678901234567890';
+
+const HOUR = 3600000;
+const DAY = 24 * HOUR;
+
+// Demo proposals; `votes` is how many seeded ballots choose each option
+const SEED_PROPOSALS: Array<{
+  title: string;
+  description: string;
+  options: string[];
+  starts: number;
+  ends: number;
+  votes: number[];
+  active: boolean;
+  revealed: boolean;
+}> = [
+  {
+    title: "Increase DAO Treasury Allocation",
+    description: "This proposal suggests increasing the DAO treasury allocation by 10% to fund more community initiatives and development projects. The additional funds would be used for grants, partnerships, and infrastructure improvements.",
+    options: ["Yes, increase by 10%", "No, keep current allocation", "Increase by 5% only", "Decrease by 5%"],
+    starts: -HOUR,
+    ends: DAY,
+    votes: [5, 4, 2, 1],
+    active: true,
+    revealed: false
+  },
+  {
+    title: "Implement New Governance Token Staking",
+    description: "Proposal to implement a new staking mechanism for governance tokens that would provide additional voting power and rewards for long-term holders. This would encourage more active participation in DAO governance.",
+    options: ["Implement with 2x voting power", "Implement with 1.5x voting power", "No staking mechanism", "Different reward structure"],
+    starts: HOUR,
+    ends: 2 * DAY,
+    votes: [0, 0, 0, 0],
+    active: true,
+    revealed: false
+  },
+  {
+    title: "Partnership with DeFi Protocol",
+    description: "Vote on whether the DAO should enter into a strategic partnership with a major DeFi protocol to expand our ecosystem and provide more utility for token holders.",
+    options: ["Approve partnership", "Reject partnership", "Request more details", "Negotiate better terms"],
+    starts: -2 * DAY,
+    ends: -HOUR,
+    votes: [28, 12, 3, 2],
+    active: true,
+    revealed: true
+  },
+  {
+    title: "Migrate Forum to Discourse",
+    description: "Move community discussions from the old forum to a self-hosted Discourse instance. The proposal was withdrawn by its author before voting ended.",
+    options: ["Migrate", "Stay on the current forum"],
+    starts: -14 * DAY,
+    ends: -7 * DAY,
+    votes: [4, 5],
+    active: false,
+    revealed: false
+  }
+];
+
+const ballotKey = (proposalId: number, voter: string) => `${proposalId}:${voter.toLowerCase()}`;
+
+// Stable made-up addresses for the seeded ballots
+const demoVoter = (index: number) => ethers.getAddress(ethers.dataSlice(ethers.id(`fhevoting-demo-voter-${index}`), 12));
+
+// Version 1 predates cancelling, closing early and extending, version 2 ownership
+// transfers; anything else unknown is dropped
+const migrate = (stored: { version?: number; proposals?: SimulatedProposal[] }): SimulationState | null => {
+  if (stored.version === 1) {
+    stored.proposals?.forEach(proposal => {
+      proposal.cancelled = false;
+      proposal.closedEarly = false;
+      proposal.extended = false;
+    });
+    return migrate({ ...stored, version: 2 });
+  }
+  if (stored.version === 2) {
+    return { ...stored, version: 3, pendingOwner: null } as SimulationState;
+  }
+  return stored.version === 3 ? stored as SimulationState : null;
+};
+
+const oneHot = (choice: number, length: number) => Array.from({ length }, (_, i) => (i === choice ? 1 : 0));
+
+/**
+ * An in-memory stand-in for FHEVoting.sol; callers pass the sender the way
+ * msg.sender would be. Keeps the contract's state
+ * per address (owner, admins, authorized voters, ballots) and its encrypted
+ * tallies through the mock encryption backend, enforces the same require()
+ * checks, and reveals exactly the ballots that were cast. State lives in
+ * localStorage so a demo survives a reload; reset() starts it over.
+ */
+export class SimulatedContract {
+  private readonly encryption = new MockEncryptionBackend();
+  // Loaded on first use, so real sessions never seed demo data
+  private state: Promise<SimulationState> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  // Registers the first caller as owner, the way deploying the contract would
+  getUserProfile(address: string): Promise<UserProfile> {
+    return this.write(state => {
+      const account = address.toLowerCase();
+      if (!state.owner) {
+        state.owner = account;
+        state.admins.push(account);
+        state.authorizedVoters.push(account);
+        debugLog('Simulation: first account became owner', { address });
+      }
+      return {
+        address,
+        isAuthorized: state.authorizedVoters.includes(account),
+        isAdmin: this.isAdmin(state, account),
+        isOwner: account === state.owner,
+        isPendingOwner: account === state.pendingOwner,
+        votedProposals: state.proposals.filter(p => state.ballots[ballotKey(p.id, address)]).map(p => p.id)
+      };
+    });
+  }
+
+  async getActiveProposals(voter: string | null): Promise<Proposal[]> {
+    const state = await this.getState();
+    return state.proposals.filter(p => p.active).map(p => this.present(state, p, voter));
+  }
+
+  async getProposal(proposalId: number, voter: string | null): Promise<Proposal> {
+    const state = await this.getState();
+    const proposal = state.proposals[proposalId];
+    if (!proposal) throw requireError('Invalid proposal ID', { preflight: true });
+    return this.present(state, proposal, voter);
+  }
+
+  // Same paging as ProposalRepository: newest first, cursor is the next id to return
+  async getProposalPage(cursor: number | null, limit: number, voter: string | null): Promise<ProposalPage<Proposal>> {
+    const state = await this.getState();
+    const newest = [...state.proposals].reverse().filter(p => cursor === null || p.id <= cursor);
+    const next = newest[limit];
+    return {
+      proposals: newest.slice(0, limit).map(p => this.present(state, p, voter)),
+      nextCursor: next ? next.id : null
+    };
+  }
+
+  createProposal(
+    creator: string,
+    title: string,
+    description: string,
+    options: string[],
+    durationSeconds: number
+  ): Promise<number> {
+    return this.write(async state => {
+      this.requireAdmin(state, creator);
+      if (options.length < 2) throw requireError('At least 2 options required', { preflight: true });
+      if (options.length > MAX_OPTIONS) throw requireError('Maximum 10 options allowed', { preflight: true });
+      if (durationSeconds <= 0) throw requireError('Voting duration must be positive', { preflight: true });
+
+      const now = Date.now();
+      const proposal: SimulatedProposal = {
+        id: state.proposals.length,
+        title,
+        description,
+        options: [...options],
+        startTime: now,
+        endTime: now + durationSeconds * 1000,
+        totalVotes: 0,
+        creator,
+        active: true,
+        resultsRevealed: false,
+        revealedResults: [],
+        decryptionPending: false,
+        cancelled: false,
+        closedEarly: false,
+        extended: false,
+        tallies: await this.encryptTallies(options.map(() => 0))
+      };
+      state.proposals.push(proposal);
+      debugLog('Simulation: proposal created', { id: proposal.id, title });
+      return proposal.id;
+    });
+  }
+
+  /**
+   * Record a ballot and add it to the encrypted tallies. `contractAddress` is
+   * where the vote was sent, the address(this) that FHE.fromExternal checks
+   * the input proof against, so a ballot replayed by another voter reverts.
+   * A ballot that is not one-hot counts as all zeros, as on-chain.
+   */
+  castVote(voter: string, contractAddress: string, proposalId: number, handles: string[], inputProof: string): Promise<number> {
+    return this.write(async state => {
+      if (!state.authorizedVoters.includes(voter.toLowerCase())) {
+        throw requireError('Not authorized to vote', { preflight: true });
+      }
+      const proposal = this.requireActive(state, proposalId);
+      this.requireVotingPeriod(proposal);
+      if (state.ballots[ballotKey(proposalId, voter)]) {
+        throw requireError('Already voted', { preflight: true });
+      }
+      if (handles.length !== proposal.options.length) {
+        throw requireError('Ballot length mismatch', { preflight: true });
+      }
+      const input = { handles: handles.map(handle => ethers.getBytes(handle)), inputProof: ethers.getBytes(inputProof) };
+      if (!this.encryption.verifyInput(input, contractAddress, voter)) {
+        throw requireError('Invalid input proof', { preflight: true });
+      }
+
+      await this.addBallot(state, proposal, voter, handles);
+      debugLog('Simulation: vote recorded', { proposalId, totalVotes: proposal.totalVotes });
+      return proposal.totalVotes;
+    });
+  }
+
+  async getBallot(proposalId: number, voter: string): Promise<string[]> {
+    const state = await this.getState();
+    return state.ballots[ballotKey(proposalId, voter)] ?? [];
+  }
+
+  // Marks the tallies as sent to the decryption oracle; resolveDecryption() answers
+  requestDecryption(caller: string, proposalId: number): Promise<void> {
+    return this.write(state => {
+      this.requireAdmin(state, caller);
+      const proposal = this.requireActive(state, proposalId);
+      if (Date.now() <= proposal.endTime && !proposal.closedEarly) {
+        throw requireError('Voting still active', { preflight: true });
+      }
+      if (proposal.resultsRevealed) throw requireError('Results already revealed', { preflight: true });
+      if (proposal.decryptionPending) throw requireError('Decryption already requested', { preflight: true });
+      proposal.decryptionPending = true;
+    });
+  }
+
+  // The oracle's answer: decrypt the tallies and publish them
+  resolveDecryption(proposalId: number): Promise<number[]> {
+    return this.write(state => {
+      const proposal = state.proposals[proposalId];
+      if (!proposal) throw requireError('Invalid proposal ID');
+      if (!proposal.resultsRevealed) this.reveal(proposal);
+      return [...proposal.revealedResults];
+    });
+  }
+
+  cancelProposal(caller: string, proposalId: number, reason: CancelReason): Promise<void> {
+    return this.write(state => {
+      this.requireAdmin(state, caller);
+      const proposal = this.requireActive(state, proposalId);
+      this.requireBeforeEnd(proposal);
+      if (proposal.totalVotes > 0) throw requireError('Proposal already has votes', { preflight: true });
+      proposal.active = false;
+      proposal.cancelled = true;
+      debugLog('Simulation: proposal cancelled', { proposalId, reason });
+    });
+  }
+
+  closeProposalEarly(caller: string, proposalId: number, reason: CloseReason): Promise<void> {
+    return this.write(state => {
+      this.requireAdmin(state, caller);
+      const proposal = this.requireActive(state, proposalId);
+      this.requireVotingPeriod(proposal);
+      proposal.endTime = Date.now();
+      proposal.closedEarly = true;
+      debugLog('Simulation: proposal closed early', { proposalId, reason });
+    });
+  }
+
+  extendDeadline(caller: string, proposalId: number, extensionSeconds: number, reason: ExtendReason): Promise<void> {
+    return this.write(state => {
+      this.requireAdmin(state, caller);
+      const proposal = this.requireActive(state, proposalId);
+      this.requireBeforeEnd(proposal);
+      if (extensionSeconds <= 0) throw requireError('Extension must be positive', { preflight: true });
+      proposal.endTime += extensionSeconds * 1000;
+      proposal.extended = true;
+      debugLog('Simulation: proposal extended', { proposalId, endTime: proposal.endTime, reason });
+    });
+  }
+
+  authorizeVoters(caller: string, voters: string[]): Promise<void> {
+    return this.write(state => {
+      this.requireAdmin(state, caller);
+      voters
+        .map(voter => voter.toLowerCase())
+        .filter(voter => !state.authorizedVoters.includes(voter))
+        .forEach(voter => state.authorizedVoters.push(voter));
+    });
+  }
+
+  async getOwnership(): Promise<Ownership> {
+    const { owner, pendingOwner } = await this.getState();
+    return {
+      owner: owner && ethers.getAddress(owner),
+      pendingOwner: pendingOwner && ethers.getAddress(pendingOwner)
+    };
+  }
+
+  async getRoles(addresses: string[]): Promise<AccountRoles[]> {
+    const state = await this.getState();
+    return addresses.map(address => {
+      const account = address.toLowerCase();
+      return {
+        address,
+        isAuthorized: state.authorizedVoters.includes(account),
+        isAdmin: this.isAdmin(state, account),
+        isOwner: account === state.owner,
+        isPendingOwner: account === state.pendingOwner
+      };
+    });
+  }
+
+  deauthorizeVoters(caller: string, voters: string[]): Promise<void> {
+    return this.write(state => {
+      this.requireAdmin(state, caller);
+      const revoked = new Set(voters.map(voter => voter.toLowerCase()));
+      state.authorizedVoters = state.authorizedVoters.filter(voter => !revoked.has(voter));
+    });
+  }
+
+  addAdmin(caller: string, admin: string): Promise<void> {
+    return this.write(state => {
+      this.requireOwner(state, caller);
+      const account = admin.toLowerCase();
+      if (!state.admins.includes(account)) state.admins.push(account);
+    });
+  }
+
+  removeAdmin(caller: string, admin: string): Promise<void> {
+    return this.write(state => {
+      this.requireOwner(state, caller);
+      const account = admin.toLowerCase();
+      if (account === state.owner) throw requireError('Owner is always admin', { preflight: true });
+      state.admins = state.admins.filter(existing => existing !== account);
+    });
+  }
+
+  transferOwnership(caller: string, newOwner: string): Promise<void> {
+    return this.write(state => {
+      this.requireOwner(state, caller);
+      const account = newOwner.toLowerCase();
+      state.pendingOwner = account === ethers.ZeroAddress ? null : account;
+      debugLog('Simulation: ownership offered', { newOwner });
+    });
+  }
+
+  acceptOwnership(caller: string): Promise<void> {
+    return this.write(state => {
+      const account = caller.toLowerCase();
+      if (!state.pendingOwner || account !== state.pendingOwner) {
+        throw requireError('Only the pending owner can accept', { preflight: true });
+      }
+      state.owner = account;
+      state.pendingOwner = null;
+      if (!state.admins.includes(account)) state.admins.push(account);
+      debugLog('Simulation: ownership accepted', { owner: caller });
+    });
+  }
+
+  async getProposalCount(): Promise<number> {
+    return (await this.getState()).proposals.length;
+  }
+
+  // Throw away every vote and proposal and start from the demo data again
+  reset(): Promise<void> {
+    return this.write(async state => {
+      Object.assign(state, await this.seed());
+    });
+  }
+
+  // One write at a time, like transactions in a block, each saved before the next starts
+  private write<T>(change: (state: SimulationState) => T | Promise<T>): Promise<T> {
+    const result = this.writes.then(async () => {
+      const state = await this.getState();
+      const value = await change(state);
+      this.save(state);
+      return value;
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private getState(): Promise<SimulationState> {
+    this.state ??= this.load();
+    return this.state;
+  }
+
+  private present(state: SimulationState, proposal: SimulatedProposal, voter: string | null): Proposal {
+    const { tallies: _tallies, ...stored } = proposal;
+    return {
+      ...stored,
+      options: [...stored.options],
+      revealedResults: [...stored.revealedResults],
+      hasVoted: voter ? Boolean(state.ballots[ballotKey(proposal.id, voter)]) : false
+    };
+  }
+
+  private isAdmin(state: SimulationState, account: string): boolean {
+    return account === state.owner || state.admins.includes(account);
+  }
+
+  private requireAdmin(state: SimulationState, caller: string): void {
+    if (!this.isAdmin(state, caller.toLowerCase())) {
+      throw requireError('Only admin can perform this action', { preflight: true });
+    }
+  }
+
+  private requireOwner(state: SimulationState, caller: string): void {
+    if (caller.toLowerCase() !== state.owner) {
+      throw requireError('Only owner can perform this action', { preflight: true });
+    }
+  }
+
+  private requireActive(state: SimulationState, proposalId: number): SimulatedProposal {
+    const proposal = state.proposals[proposalId];
+    if (!proposal) throw requireError('Invalid proposal ID', { preflight: true });
+    if (!proposal.active) throw requireError('Proposal not active', { preflight: true });
+    return proposal;
+  }
+
+  private requireVotingPeriod(proposal: SimulatedProposal): void {
+    const now = Date.now();
+    if (now < proposal.startTime || now > proposal.endTime || proposal.closedEarly) {
+      throw requireError('Voting period not active', { preflight: true });
+    }
+  }
+
+  private requireBeforeEnd(proposal: SimulatedProposal): void {
+    if (Date.now() > proposal.endTime || proposal.closedEarly) {
+      throw requireError('Voting period not active', { preflight: true });
+    }
+  }
+
+  private async addBallot(state: SimulationState, proposal: SimulatedProposal, voter: string, handles: string[]): Promise<void> {
+    const values = handles.map(handle => this.encryption.decrypt32(ethers.getBytes(handle)));
+    const valid = values.every(value => value <= 1) && values.reduce((sum, value) => sum + value, 0) === 1;
+    const counts = this.decryptTallies(proposal).map((count, i) => count + (valid ? values[i] : 0));
+
+    proposal.tallies = await this.encryptTallies(counts);
+    proposal.totalVotes++;
+    state.ballots[ballotKey(proposal.id, voter)] = handles;
+  }
+
+  private reveal(proposal: SimulatedProposal): void {
+    proposal.revealedResults = this.decryptTallies(proposal);
+    proposal.resultsRevealed = true;
+    proposal.decryptionPending = false;
+  }
+
+  private decryptTallies(proposal: SimulatedProposal): number[] {
+    return proposal.tallies.map(handle => this.encryption.decrypt32(ethers.getBytes(handle)));
+  }
+
+  private async encryptTallies(counts: number[]): Promise<string[]> {
+    const { handles } = await this.encryption.encrypt32(counts, TALLY_OWNER, TALLY_OWNER);
+    return handles.map(handle => ethers.hexlify(handle));
+  }
+
+  private async load(): Promise<SimulationState> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const state: SimulationState | null = stored ? migrate(JSON.parse(stored)) : null;
+      if (state) {
+        // The oracle answered while the page was closed
+        const pending = state.proposals.filter(p => p.decryptionPending);
+        pending.forEach(proposal => this.reveal(proposal));
+        if (pending.length > 0) this.save(state);
+        return state;
+      }
+    } catch (error) {
+      debugLog('⚠️ Could not read stored simulation state', error);
+    }
+    const state = await this.seed();
+    this.save(state);
+    return state;
+  }
+
+  // The demo proposals, with real encrypted ballots behind every vote count
+  private async seed(): Promise<SimulationState> {
+    const state: SimulationState = {
+      version: 3,
+      owner: null,
+      pendingOwner: null,
+      admins: [DEMO_CREATOR.toLowerCase()],
+      authorizedVoters: [],
+      proposals: [],
+      ballots: {}
+    };
+    const now = Date.now();
+    let voterIndex = 0;
+
+    for (const seed of SEED_PROPOSALS) {
+      const proposal: SimulatedProposal = {
+        id: state.proposals.length,
+        title: seed.title,
+        description: seed.description,
+        options: seed.options,
+        startTime: now + seed.starts,
+        endTime: now + seed.ends,
+        totalVotes: 0,
+        creator: DEMO_CREATOR,
+        active: true,
+        resultsRevealed: false,
+        revealedResults: [],
+        decryptionPending: false,
+        cancelled: false,
+        closedEarly: false,
+        extended: false,
+        tallies: await this.encryptTallies(seed.options.map(() => 0))
+      };
+      state.proposals.push(proposal);
+
+      for (const [choice, count] of seed.votes.entries()) {
+        for (let i = 0; i < count; i++) {
+          const voter = demoVoter(voterIndex++);
+          state.authorizedVoters.push(voter.toLowerCase());
+          const { handles } = await this.encryption.encrypt32(oneHot(choice, seed.options.length), TALLY_OWNER, voter);
+          await this.addBallot(state, proposal, voter, handles.map(handle => ethers.hexlify(handle)));
+        }
+      }
+      if (seed.revealed) this.reveal(proposal);
+      proposal.active = seed.active;
+    }
+    return state;
+  }
+
+  private save(state: SimulationState): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      debugLog('⚠️ Could not store simulation state', error);
+    }
+  }
+}
+
+export const simulatedContract = new SimulatedContract();
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Simulation mode's VotingBackend: the connected account's view of simulatedContract
+export class SimulatedVotingBackend implements VotingBackend {
+  readonly kind = 'simulated';
+
+  constructor(private readonly session: BackendSession) {}
+
+  async getUserProfile(): Promise<UserProfile | null> {
+    if (!this.session.signer) return null;
+    const profile = await simulatedContract.getUserProfile(await this.session.signer.getAddress());
+    debugLog('Simulation mode: profile', profile);
+    return profile;
+  }
+
+  getProposalCount(): Promise<number> {
+    return simulatedContract.getProposalCount();
+  }
+
+  async getActiveProposals(): Promise<Proposal[]> {
+    const proposals = await simulatedContract.getActiveProposals(await this.account());
+    debugLog('Simulation mode: returning simulated proposals', proposals);
+    return proposals;
+  }
+
+  async getProposalPage(cursor: number | null, limit: number): Promise<ProposalPage<Proposal>> {
+    return simulatedContract.getProposalPage(cursor, limit, await this.account());
+  }
+
+  async createProposal(title: string, description: string, options: string[], duration: number): Promise<boolean> {
+    const creator = await requireSigner(this.session).getAddress();
+    debugLog('🔧 Simulation mode: creating proposal', { title, description, options, duration });
+    const proposalId = await simulatedContract.createProposal(creator, title, description, options, duration);
+    // Simulate the transaction delay
+    await delay(2000);
+    debugLog('Simulated proposal created', { proposalId });
+    return true;
+  }
+
+  async castVote(proposalId: number, optionIndex: number, options: CastVoteOptions = {}): Promise<boolean> {
+    const { signal, onProgress } = options;
+    const voter = await requireSigner(this.session).getAddress();
+    debugLog('🔧 Simulation mode: casting vote', { proposalId });
+
+    // simulatedContract.castVote makes the contract's checks, in the contract's order
+    const proposal = await simulatedContract.getProposal(proposalId, voter);
+
+    const envelope = await encryptVote(this.session, proposalId, optionIndex, proposal.options.length, options);
+    signal?.throwIfAborted();
+    await verifyBallotForSending(this.session, envelope);
+    onProgress?.('submitting');
+    const { encryptedBallot, inputProof } = fhevmClient.toContractInput(envelope);
+    await simulatedContract.castVote(voter, this.session.chain.votingContractAddress, proposalId, encryptedBallot, inputProof);
+
+    // Simulate waiting for the block, as the contract backend does after sending
+    onProgress?.('confirming');
+    await delay(3000);
+    return true;
+  }
+
+  async verifyMyVote(proposalId: number): Promise<number> {
+    const voter = await requireSigner(this.session).getAddress();
+    return decryptOwnBallot(this.session, proposalId, await simulatedContract.getBallot(proposalId, voter));
+  }
+
+  async revealResults(proposalId: number, onStatus?: (status: RevealStatus) => void): Promise<number[]> {
+    const caller = await requireSigner(this.session).getAddress();
+    debugLog('🔧 Simulation mode: revealing results', { proposalId });
+
+    // Like the contract backend, pick up a request that is still waiting for the oracle
+    const proposal = await simulatedContract.getProposal(proposalId, caller);
+    if (!proposal.decryptionPending && !proposal.resultsRevealed) {
+      onStatus?.('requesting');
+      await simulatedContract.requestDecryption(caller, proposalId);
+    }
+    onStatus?.('requested');
+
+    // Simulate the oracle answering later
+    await delay(2000);
+
+    // The oracle decrypts the tallies, so the results are the ballots actually cast
+    const results = await simulatedContract.resolveDecryption(proposalId);
+    onStatus?.('revealed');
+    return results;
+  }
+
+  async cancelProposal(proposalId: number, reason: CancelReason): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    await simulatedContract.cancelProposal(caller, proposalId, reason);
+    await delay(1000);
+    return true;
+  }
+
+  async closeProposalEarly(proposalId: number, reason: CloseReason): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    await simulatedContract.closeProposalEarly(caller, proposalId, reason);
+    await delay(1000);
+    return true;
+  }
+
+  async extendDeadline(proposalId: number, extensionSeconds: number, reason: ExtendReason): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    await simulatedContract.extendDeadline(caller, proposalId, extensionSeconds, reason);
+    await delay(1000);
+    return true;
+  }
+
+  authorizeVoter(voter: string): Promise<boolean> {
+    return this.authorize([voter], 1000);
+  }
+
+  authorizeVoters(voters: string[]): Promise<boolean> {
+    return this.authorize(voters, 2000);
+  }
+
+  getOwnership(): Promise<Ownership> {
+    return simulatedContract.getOwnership();
+  }
+
+  getRoles(addresses: string[]): Promise<AccountRoles[]> {
+    return simulatedContract.getRoles(addresses);
+  }
+
+  async deauthorizeVoter(voter: string): Promise<boolean> {
+    return this.deauthorizeVoters([voter]);
+  }
+
+  async deauthorizeVoters(voters: string[]): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    debugLog('🔧 Simulation mode: deauthorizing voters', { count: voters.length });
+    await simulatedContract.deauthorizeVoters(caller, voters);
+    await delay(1000);
+    return true;
+  }
+
+  async addAdmin(admin: string): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    await simulatedContract.addAdmin(caller, admin);
+    await delay(1000);
+    return true;
+  }
+
+  async removeAdmin(admin: string): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    await simulatedContract.removeAdmin(caller, admin);
+    await delay(1000);
+    return true;
+  }
+
+  async transferOwnership(newOwner: string): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    await simulatedContract.transferOwnership(caller, newOwner);
+    await delay(1000);
+    return true;
+  }
+
+  async acceptOwnership(): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    await simulatedContract.acceptOwnership(caller);
+    await delay(1000);
+    return true;
+  }
+
+  // No events to listen to
+  subscribeProposalUpdates(_onUpdate: (update: ProposalUpdate) => void, onStatus: (status: LiveStatus) => void): () => void {
+    onStatus('offline');
+    return () => {};
+  }
+
+  getReadStats() {
+    return null;
+  }
+
+  dispose(): void {}
+
+  private async account(): Promise<string | null> {
+    return this.session.signer ? this.session.signer.getAddress() : null;
+  }
+
+  private async authorize(voters: string[], delayMs: number): Promise<boolean> {
+    const caller = await requireSigner(this.session).getAddress();
+    debugLog('🔧 Simulation mode: authorizing voters', { count: voters.length });
+    await simulatedContract.authorizeVoters(caller, voters);
+    await delay(delayMs);
+    return true;
+  }
+}
@@ -0,0 +1,151 @@
+import { Provider, TransactionReceipt, TransactionResponse, Wallet, makeError } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TrackedTransaction, TransactionManager, describeIntent } from './transactions';
+
+const account = Wallet.createRandom().address;
+const CHAIN_ID = 31337;
+
+const receipt = (hash: string, status: number, blockNumber = 12) =>
+  ({ hash, status, blockNumber }) as unknown as TransactionReceipt;
+
+// A sent transaction whose wait() settles the way `outcome` says
+const sentTransaction = (hash: string, nonce: number, outcome: () => Promise<TransactionReceipt | null>) => {
+  const tx = {
+    hash,
+    chainId: BigInt(CHAIN_ID),
+    from: account,
+    nonce,
+    provider: { getBlockNumber: async () => 10 },
+    replaceableTransaction: vi.fn(() => ({ ...tx, wait: outcome }))
+  };
+  return tx as unknown as TransactionResponse;
+};
+
+const replacedError = (reason: 'repriced' | 'cancelled' | 'replaced', replacement: string, status = 1) =>
+  makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+    cancelled: reason !== 'repriced',
+    reason,
+    hash: replacement,
+    replacement: { hash: replacement } as TransactionResponse,
+    receipt: receipt(replacement, status)
+  });
+
+describe('TransactionManager', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('records a transaction with its intent and settles it when mined', async () => {
+    const manager = new TransactionManager();
+    const settled = vi.fn();
+    manager.subscribeSettled(settled);
+    const tx = sentTransaction('0x01', 3, async () => receipt('0x01', 1));
+
+    await expect(manager.track(tx, { kind: 'cast-vote', proposalId: 2 })).resolves.toMatchObject({ status: 1 });
+
+    const [record] = manager.getTransactions();
+    expect(record).toMatchObject({ hash: '0x01', chainId: CHAIN_ID, nonce: 3, status: 'confirmed', blockNumber: 12, startBlock: 10 });
+    expect(tx.replaceableTransaction).toHaveBeenCalledWith(10);
+    expect(settled).toHaveBeenCalledWith(record, true);
+    expect(describeIntent(record.intent)).toBe('Vote on proposal #2');
+    // Survives a reload
+    expect(new TransactionManager().getTransactions()).toEqual([record]);
+  });
+
+  it('treats a speed-up as the same transaction', async () => {
+    const manager = new TransactionManager();
+    const tx = sentTransaction('0x01', 3, async () => { throw replacedError('repriced', '0x02'); });
+
+    await expect(manager.track(tx, { kind: 'create-proposal', title: 'Budget' })).resolves.toMatchObject({ hash: '0x02' });
+    expect(manager.getTransactions()[0]).toMatchObject({ status: 'confirmed', replacedBy: '0x02' });
+  });
+
+  it('ends the transaction when it is cancelled, replaced or reverts', async () => {
+    const manager = new TransactionManager();
+    const intent = { kind: 'request-decryption', proposalId: 1 } as const;
+
+    await expect(manager.track(sentTransaction('0x01', 1, async () => { throw replacedError('cancelled', '0x0a'); }), intent))
+      .rejects.toThrow('The transaction was cancelled in the wallet');
+    await expect(manager.track(sentTransaction('0x02', 2, async () => { throw replacedError('replaced', '0x0b'); }), intent))
+      .rejects.toThrow('The transaction was replaced by a different one');
+    await expect(manager.track(sentTransaction('0x03', 3, async () => { throw replacedError('repriced', '0x0c', 0); }), intent))
+      .rejects.toThrow('The sped-up transaction reverted');
+    const reverted = makeError('execution reverted', 'CALL_EXCEPTION', { receipt: receipt('0x04', 0, 14) } as never);
+    await expect(manager.track(sentTransaction('0x04', 4, async () => { throw reverted; }), intent)).rejects.toBe(reverted);
+
+    const byHash = Object.fromEntries(manager.getTransactions().map(t => [t.hash, t]));
+    expect(byHash['0x01']).toMatchObject({ status: 'cancelled', replacedBy: '0x0a' });
+    expect(byHash['0x02']).toMatchObject({ status: 'replaced', replacedBy: '0x0b' });
+    expect(byHash['0x03']).toMatchObject({ status: 'failed', error: 'The sped-up transaction reverted' });
+    expect(byHash['0x04']).toMatchObject({ status: 'failed', blockNumber: 14 });
+  });
+
+  it('keeps a transaction pending when the connection fails, and resumes it after a reload', async () => {
+    const sent = new TransactionManager();
+    const lost = sentTransaction('0x01', 5, async () => { throw new Error('network error'); });
+    await expect(sent.track(lost, { kind: 'authorize-voters', count: 3 })).rejects.toThrow('network error');
+    expect(sent.getTransactions()[0].status).toBe('pending');
+
+    const reloaded = new TransactionManager();
+    const settled = vi.fn();
+    reloaded.subscribeSettled(settled);
+    const provider = {
+      getTransaction: async () => null,
+      getTransactionReceipt: async () => null,
+      // The nonce was used by something else while the tab was closed
+      getTransactionCount: async () => 6
+    } as unknown as Provider;
+
+    await reloaded.resume(provider, CHAIN_ID, account.toLowerCase());
+
+    expect(reloaded.getTransactions()[0].status).toBe('replaced');
+    expect(settled).toHaveBeenCalledWith(expect.objectContaining({ hash: '0x01' }), false);
+  });
+
+  it('resumes only this account and chain, and marks an unused nonce as dropped', async () => {
+    const pending = (hash: string, overrides: Partial<TrackedTransaction>): TrackedTransaction => ({
+      hash,
+      chainId: CHAIN_ID,
+      from: account,
+      nonce: 7,
+      intent: { kind: 'authorize-voter', voter: account },
+      status: 'pending',
+      submittedAt: 0,
+      startBlock: 0,
+      replacedBy: null,
+      blockNumber: null,
+      error: null,
+      ...overrides
+    });
+    storage.set('fhevoting-transactions', JSON.stringify([
+      pending('0x01', {}),
+      pending('0x02', { chainId: 1 }),
+      pending('0x03', { from: Wallet.createRandom().address })
+    ]));
+    const manager = new TransactionManager();
+    const getTransaction = vi.fn(async () => null);
+    const provider = {
+      getTransaction,
+      getTransactionReceipt: async () => null,
+      getTransactionCount: async () => 7
+    } as unknown as Provider;
+
+    await manager.resume(provider, CHAIN_ID, account);
+
+    expect(getTransaction).toHaveBeenCalledTimes(1);
+    expect(manager.getTransactions().map(t => t.status)).toEqual(['dropped', 'pending', 'pending']);
+
+    manager.clearSettled();
+    expect(manager.getTransactions().map(t => t.hash)).toEqual(['0x02', '0x03']);
+  });
+});
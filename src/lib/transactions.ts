@@ -0,0 +1,248 @@
+import { Provider, TransactionReceipt, TransactionResponse, ZeroAddress, isError } from 'ethers';
+import { debugLog, describeError } from './debug';
+
+// What a transaction was sent for, so it can be described after a reload
+export type TransactionIntent =
+  | { kind: 'create-proposal'; title: string }
+  | { kind: 'cast-vote'; proposalId: number }
+  | { kind: 'request-decryption'; proposalId: number }
+  | { kind: 'cancel-proposal'; proposalId: number }
+  | { kind: 'close-proposal'; proposalId: number }
+  | { kind: 'extend-proposal'; proposalId: number }
+  | { kind: 'authorize-voter'; voter: string }
+  | { kind: 'authorize-voters'; count: number }
+  | { kind: 'deauthorize-voter'; voter: string }
+  | { kind: 'deauthorize-voters'; count: number }
+  | { kind: 'add-admin'; admin: string }
+  | { kind: 'remove-admin'; admin: string }
+  | { kind: 'transfer-ownership'; newOwner: string }
+  | { kind: 'accept-ownership' };
+
+// replaced: another transaction with different calldata took its nonce
+// dropped: the node no longer knows it and its nonce is still free
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled' | 'dropped';
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  intent: TransactionIntent;
+  status: TransactionStatus;
+  submittedAt: number;
+  // Head when it was sent; ethers scans from here for replacements
+  startBlock: number;
+  // The speed-up or replacement that was mined instead, when known
+  replacedBy: string | null;
+  blockNumber: number | null;
+  error: string | null;
+}
+
+const STORAGE_KEY = 'fhevoting-transactions';
+const MAX_STORED = 50;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const describeIntent = (intent: TransactionIntent): string => {
+  switch (intent.kind) {
+    case 'create-proposal':
+      return `Create proposal "${intent.title}"`;
+    case 'cast-vote':
+      return `Vote on proposal #${intent.proposalId}`;
+    case 'request-decryption':
+      return `Reveal results of proposal #${intent.proposalId}`;
+    case 'cancel-proposal':
+      return `Cancel proposal #${intent.proposalId}`;
+    case 'close-proposal':
+      return `Close proposal #${intent.proposalId} early`;
+    case 'extend-proposal':
+      return `Extend proposal #${intent.proposalId}`;
+    case 'authorize-voter':
+      return `Authorize ${shortAddress(intent.voter)}`;
+    case 'authorize-voters':
+      return `Authorize ${intent.count} voters`;
+    case 'deauthorize-voter':
+      return `Revoke voter ${shortAddress(intent.voter)}`;
+    case 'deauthorize-voters':
+      return `Revoke ${intent.count} voters`;
+    case 'add-admin':
+      return `Make ${shortAddress(intent.admin)} admin`;
+    case 'remove-admin':
+      return `Remove admin ${shortAddress(intent.admin)}`;
+    case 'transfer-ownership':
+      return intent.newOwner === ZeroAddress
+        ? 'Cancel ownership transfer'
+        : `Offer ownership to ${shortAddress(intent.newOwner)}`;
+    case 'accept-ownership':
+      return 'Accept contract ownership';
+  }
+};
+
+const load = (): TrackedTransaction[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    debugLog('⚠️ Could not read stored transactions', error);
+    return [];
+  }
+};
+
+/**
+ * Keeps every submitted write in localStorage together with its intent, so a
+ * reload does not lose track of it. resume() picks pending ones up again.
+ * Speed-ups count as the original transaction; cancellations and other
+ * replacements end it.
+ */
+export class TransactionManager {
+  private transactions: TrackedTransaction[] = load();
+  private readonly listeners = new Set<(transactions: TrackedTransaction[]) => void>();
+  private readonly settledListeners = new Set<(transaction: TrackedTransaction, awaited: boolean) => void>();
+  private readonly watching = new Set<string>();
+
+  // Record a just-sent transaction and wait for it; throws unless it (or its speed-up) succeeds
+  async track(tx: TransactionResponse, intent: TransactionIntent): Promise<TransactionReceipt> {
+    const startBlock = await tx.provider.getBlockNumber();
+    const record: TrackedTransaction = {
+      hash: tx.hash,
+      chainId: Number(tx.chainId),
+      from: tx.from,
+      nonce: tx.nonce,
+      intent,
+      status: 'pending',
+      submittedAt: Date.now(),
+      startBlock,
+      replacedBy: null,
+      blockNumber: null,
+      error: null
+    };
+    this.transactions = [record, ...this.transactions.filter(t => t.hash !== tx.hash)].slice(0, MAX_STORED);
+    this.save();
+    debugLog('Transaction tracked', { hash: tx.hash, intent });
+    return this.watch(record, tx.replaceableTransaction(startBlock), true);
+  }
+
+  // Wait again for pending transactions of this account and chain, e.g. after a reload
+  async resume(provider: Provider, chainId: number, account: string): Promise<void> {
+    const pending = this.transactions.filter(t =>
+      t.status === 'pending' &&
+      t.chainId === chainId &&
+      t.from.toLowerCase() === account.toLowerCase() &&
+      !this.watching.has(t.hash)
+    );
+    if (pending.length > 0) debugLog('Resuming pending transactions', { count: pending.length });
+
+    await Promise.all(pending.map(async record => {
+      try {
+        const tx = await provider.getTransaction(record.hash);
+        if (tx) {
+          await this.watch(record, tx.replaceableTransaction(record.startBlock), false).catch(() => {});
+          return;
+        }
+
+        // Unknown to the node: mined and pruned, replaced while we were away, or dropped
+        const receipt = await provider.getTransactionReceipt(record.hash);
+        if (receipt) {
+          this.settle(record.hash, {
+            status: receipt.status === 1 ? 'confirmed' : 'failed',
+            blockNumber: receipt.blockNumber
+          }, false);
+          return;
+        }
+        const nonce = await provider.getTransactionCount(record.from, 'latest');
+        this.settle(record.hash, { status: nonce > record.nonce ? 'replaced' : 'dropped' }, false);
+      } catch (error) {
+        debugLog(`⚠️ Could not resume transaction ${record.hash}`, error);
+      }
+    }));
+  }
+
+  getTransactions(): TrackedTransaction[] {
+    return [...this.transactions];
+  }
+
+  // Forget everything that is no longer pending
+  clearSettled(): void {
+    this.transactions = this.transactions.filter(t => t.status === 'pending');
+    this.save();
+  }
+
+  subscribe(listener: (transactions: TrackedTransaction[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getTransactions());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // `awaited` is true when the code that sent the transaction is still waiting for it
+  subscribeSettled(listener: (transaction: TrackedTransaction, awaited: boolean) => void): () => void {
+    this.settledListeners.add(listener);
+    return () => {
+      this.settledListeners.delete(listener);
+    };
+  }
+
+  private async watch(record: TrackedTransaction, tx: TransactionResponse, awaited: boolean): Promise<TransactionReceipt> {
+    this.watching.add(record.hash);
+    try {
+      const receipt = await tx.wait();
+      // wait() only resolves to null when asked for zero confirmations
+      if (!receipt) throw new Error(`No receipt for transaction ${tx.hash}`);
+      this.settle(record.hash, { status: 'confirmed', blockNumber: receipt.blockNumber }, awaited);
+      return receipt;
+    } catch (error) {
+      if (isError(error, 'TRANSACTION_REPLACED')) {
+        const replacedBy = error.replacement.hash;
+        if (error.reason === 'repriced') {
+          // A speed-up: same call with a higher fee, so its outcome is ours
+          const ok = error.receipt.status === 1;
+          this.settle(record.hash, {
+            status: ok ? 'confirmed' : 'failed',
+            replacedBy,
+            blockNumber: error.receipt.blockNumber,
+            error: ok ? null : 'The sped-up transaction reverted'
+          }, awaited);
+          if (ok) return error.receipt;
+          throw new Error('The sped-up transaction reverted');
+        }
+        const status = error.reason === 'cancelled' ? 'cancelled' : 'replaced';
+        this.settle(record.hash, { status, replacedBy }, awaited);
+        throw new Error(status === 'cancelled'
+          ? 'The transaction was cancelled in the wallet'
+          : 'The transaction was replaced by a different one');
+      }
+      if (isError(error, 'CALL_EXCEPTION')) {
+        this.settle(record.hash, {
+          status: 'failed',
+          blockNumber: error.receipt?.blockNumber ?? null,
+          error: describeError(error)
+        }, awaited);
+      }
+      // Anything else is a connection problem; the transaction stays pending for the next resume
+      throw error;
+    } finally {
+      this.watching.delete(record.hash);
+    }
+  }
+
+  private settle(hash: string, patch: Partial<TrackedTransaction>, awaited: boolean): void {
+    const current = this.transactions.find(t => t.hash === hash);
+    if (!current) return;
+    const settled = { ...current, ...patch };
+    this.transactions = this.transactions.map(t => (t.hash === hash ? settled : t));
+    this.save();
+    debugLog('Transaction settled', settled);
+    this.settledListeners.forEach(listener => listener(settled, awaited));
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.transactions));
+    } catch (error) {
+      debugLog('⚠️ Could not store transactions', error);
+    }
+    const transactions = this.getTransactions();
+    this.listeners.forEach(listener => listener(transactions));
+  }
+}
@@ -0,0 +1,123 @@
+import { debugLog } from './debug';
+
+// The provider interface every injected wallet implements
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<unknown>;
+  on?(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener?(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+// EIP-6963 provider info; rdns is stable across sessions, uuid is not
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string; // data URI
+  rdns: string;
+}
+
+export interface WalletOption {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+}
+
+interface AnnounceProviderEvent extends Event {
+  detail: WalletOption;
+}
+
+const ANNOUNCE_EVENT = 'eip6963:announceProvider';
+const REQUEST_EVENT = 'eip6963:requestProvider';
+const STORAGE_KEY = 'wallet-rdns';
+
+// Wallets that predate EIP-6963 only set window.ethereum
+const LEGACY_WALLET_INFO: WalletInfo = {
+  uuid: 'injected',
+  name: 'Browser Wallet',
+  icon: '',
+  rdns: 'injected',
+};
+
+/**
+ * Finds installed wallets through EIP-6963 announcements instead of trusting
+ * whichever extension won window.ethereum, and remembers which one the user
+ * picked.
+ */
+export class WalletDiscovery {
+  private readonly wallets = new Map<string, WalletOption>();
+  private readonly listeners = new Set<(wallets: WalletOption[]) => void>();
+  private started = false;
+  private readonly onAnnounce = (event: Event) => {
+    const { detail } = event as AnnounceProviderEvent;
+    if (!detail?.info?.rdns || !detail.provider) return;
+    this.register(detail);
+  };
+
+  // Listen for announcements and ask installed wallets to announce themselves
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+    window.addEventListener(ANNOUNCE_EVENT, this.onAnnounce);
+    window.dispatchEvent(new Event(REQUEST_EVENT));
+  }
+
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+    window.removeEventListener(ANNOUNCE_EVENT, this.onAnnounce);
+  }
+
+  // Add a wallet without an announcement, e.g. a MockEip1193Provider in tests
+  register(wallet: WalletOption): void {
+    const known = this.wallets.get(wallet.info.rdns);
+    if (known?.provider === wallet.provider) return;
+    this.wallets.set(wallet.info.rdns, wallet);
+    debugLog('Wallet discovered', { name: wallet.info.name, rdns: wallet.info.rdns });
+    const wallets = this.getWallets();
+    this.listeners.forEach(listener => listener(wallets));
+  }
+
+  // Announced wallets, or window.ethereum when nothing announced itself
+  getWallets(): WalletOption[] {
+    if (this.wallets.size > 0) return [...this.wallets.values()];
+    if (typeof window !== 'undefined' && window.ethereum) {
+      return [{ info: LEGACY_WALLET_INFO, provider: window.ethereum }];
+    }
+    return [];
+  }
+
+  getWallet(rdns: string): WalletOption | null {
+    return this.getWallets().find(wallet => wallet.info.rdns === rdns) ?? null;
+  }
+
+  // The remembered wallet if it is still installed, or the only one there is
+  getPreferred(): WalletOption | null {
+    const remembered = localStorage.getItem(STORAGE_KEY);
+    const wallet = remembered ? this.getWallet(remembered) : null;
+    if (wallet) return wallet;
+    const wallets = this.getWallets();
+    return wallets.length === 1 ? wallets[0] : null;
+  }
+
+  remember(rdns: string): void {
+    localStorage.setItem(STORAGE_KEY, rdns);
+  }
+
+  forget(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  subscribe(listener: (wallets: WalletOption[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getWallets());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const walletDiscovery = new WalletDiscovery();
+
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider;
+  }
+}
@@ -0,0 +1,508 @@
+import {
+  AbiCoder,
+  Interface,
+  JsonRpcApiProvider,
+  JsonRpcPayload,
+  JsonRpcResult,
+  Transaction,
+  Wallet,
+  ZeroAddress,
+  concat,
+  getAddress,
+  getBytes,
+  id,
+  toQuantity,
+  zeroPadValue
+} from 'ethers';
+import { votingInterface } from '@/lib/bindings';
+import { ChainConfig, ZERO_ADDRESS } from '@/lib/chains';
+import { MockEncryptionBackend } from '@/lib/encryption';
+import { MULTICALL3_ADDRESS } from '@/lib/multicall';
+
+export const VOTING_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+// A devnet-like chain: mock coprocessor, Multicall3 at its usual address, no indexer
+export const TEST_CHAIN: ChainConfig = {
+  chainId: 31337,
+  name: 'Mock voting chain',
+  rpcUrls: [],
+  blockExplorer: null,
+  faucet: null,
+  nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+  zama: {
+    aclAddress: ZERO_ADDRESS,
+    kmsVerifierAddress: ZERO_ADDRESS,
+    inputVerifierAddress: ZERO_ADDRESS,
+    executorAddress: ZERO_ADDRESS,
+    oracleAddress: ZERO_ADDRESS
+  },
+  gateways: [],
+  votingContractAddress: VOTING_ADDRESS,
+  deploymentBlock: 0,
+  confirmations: 0,
+  multicall3Address: MULTICALL3_ADDRESS,
+  coprocessor: 'mock'
+};
+
+// Fixed keys so failures are reproducible
+export const testAccount = (name: string) => new Wallet(id(`fhevoting-test-${name}`));
+
+const multicallInterface = new Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+const GAS = 100000;
+const GAS_PRICE = 1000000000;
+
+interface StoredProposal {
+  id: number;
+  title: string;
+  description: string;
+  options: string[];
+  startTime: number; // seconds, like block.timestamp
+  endTime: number;
+  totalVotes: number;
+  creator: string;
+  active: boolean;
+  resultsRevealed: boolean;
+  revealedResults: number[];
+  decryptionPending: boolean;
+  cancelled: boolean;
+  closedEarly: boolean;
+  extended: boolean;
+  // Clear counts: the mock coprocessor decrypts every ballot it adds
+  tallies: number[];
+  // Ballot handles by lowercased voter
+  ballots: Record<string, string[]>;
+}
+
+interface ContractState {
+  owner: string;
+  pendingOwner: string;
+  admins: string[];
+  voters: string[];
+  proposals: StoredProposal[];
+}
+
+// A require() failing; carries the same message as FHEVoting.sol
+class Revert extends Error {
+  readonly data: string;
+
+  constructor(readonly text: string) {
+    super(`execution reverted: ${text}`);
+    this.data = concat([id('Error(string)').slice(0, 10), AbiCoder.defaultAbiCoder().encode(['string'], [text])]);
+  }
+}
+
+const check = (condition: boolean, text: string): void => {
+  if (!condition) throw new Revert(text);
+};
+
+// Records an event of the voting contract, kept only if the transaction succeeds
+type Emit = (event: string, ...values: unknown[]) => void;
+
+const lower = (address: string) => address.toLowerCase();
+
+/**
+ * A JSON-RPC provider backed by an in-memory FHEVoting.sol with the mock
+ * coprocessor and an oracle that answers in the same block. Every
+ * transaction is mined on arrival, eth_estimateGas and eth_call run
+ * against a copy of the state, and failing require()s come back as real
+ * revert data. Mined transactions log the proposal events the indexer
+ * reads. Only what the voting backends use is implemented.
+ */
+export class MockVotingChain extends JsonRpcApiProvider {
+  private state: ContractState;
+  private readonly encryption = new MockEncryptionBackend();
+  private readonly blocks: { hash: string; timestamp: number; transactions: string[] }[] = [];
+  private readonly receipts = new Map<string, Record<string, unknown>>();
+  private readonly logs: Record<string, unknown>[] = [];
+  private readonly nonces = new Map<string, number>();
+  private readonly requests = new Map<string, number>();
+
+  constructor(deployer: string) {
+    super(TEST_CHAIN.chainId, { staticNetwork: true, batchMaxCount: 1, cacheTimeout: -1, pollingInterval: 50 });
+    const account = getAddress(deployer);
+    // What the constructor does
+    this.state = {
+      owner: account,
+      pendingOwner: ZeroAddress,
+      admins: [lower(account)],
+      voters: [lower(account)],
+      proposals: []
+    };
+    this.addBlock([]);
+  }
+
+  // Requests received per JSON-RPC method, e.g. to count eth_call round trips
+  getRequestCount(method: string): number {
+    return this.requests.get(method) ?? 0;
+  }
+
+  // Store proposals without a transaction each, for tests that need many
+  addProposals(count: number, creator: string): void {
+    const now = this.now();
+    for (let i = 0; i < count; i++) {
+      const title = `Proposal ${this.state.proposals.length}`;
+      this.addProposal(this.state, title, `${title} description`, ['Yes', 'No'], now, 3600, creator);
+    }
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return payloads.map(({ id: requestId, method, params }) => {
+      this.requests.set(method, this.getRequestCount(method) + 1);
+      try {
+        return { id: requestId, result: this.handle(method, params as unknown[]) };
+      } catch (error) {
+        if (!(error instanceof Revert)) throw error;
+        return { id: requestId, error: { code: 3, message: error.message, data: error.data } } as unknown as JsonRpcResult;
+      }
+    });
+  }
+
+  private handle(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return toQuantity(TEST_CHAIN.chainId);
+      case 'eth_blockNumber':
+        return toQuantity(this.blocks.length - 1);
+      case 'eth_getCode': {
+        const address = getAddress(params[0] as string);
+        return address === VOTING_ADDRESS || address === MULTICALL3_ADDRESS ? '0x01' : '0x';
+      }
+      case 'eth_call':
+      case 'eth_estimateGas': {
+        const { from, to, data } = params[0] as { from?: string; to: string; data: string };
+        const result = this.callContract(structuredClone(this.state), from ?? ZeroAddress, to, data);
+        return method === 'eth_call' ? result : toQuantity(GAS);
+      }
+      case 'eth_getTransactionCount':
+        return toQuantity(this.nonces.get(lower(params[0] as string)) ?? 0);
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return toQuantity(GAS_PRICE);
+      case 'eth_getBlockByNumber':
+        return this.formatBlock(params[0] as string);
+      case 'eth_sendRawTransaction':
+        return this.mine(params[0] as string);
+      case 'eth_getTransactionReceipt':
+        return this.receipts.get(params[0] as string) ?? null;
+      case 'eth_getLogs': {
+        const { address, fromBlock, toBlock } = params[0] as { address?: string; fromBlock?: string; toBlock?: string };
+        const from = this.blockNumberOf(fromBlock ?? 'latest');
+        const to = this.blockNumberOf(toBlock ?? 'latest');
+        return this.logs.filter(log => {
+          const blockNumber = Number(log.blockNumber);
+          return blockNumber >= from && blockNumber <= to && (!address || getAddress(address) === log.address);
+        });
+      }
+      case 'eth_getFilterChanges':
+        return [];
+      case 'eth_newFilter':
+        return '0x1';
+      case 'eth_uninstallFilter':
+        return true;
+      default:
+        throw new Error(`MockVotingChain does not implement ${method}`);
+    }
+  }
+
+  // Run a transaction in a new block; a revert is mined with status 0 and changes nothing
+  private mine(raw: string): string {
+    const tx = Transaction.from(raw);
+    const from = tx.from!;
+    this.nonces.set(lower(from), tx.nonce + 1);
+
+    const next = structuredClone(this.state);
+    const events: [string, unknown[]][] = [];
+    let status = 1;
+    try {
+      this.callContract(next, from, tx.to!, tx.data, (event, ...values) => events.push([event, values]));
+      this.state = next;
+    } catch (error) {
+      if (!(error instanceof Revert)) throw error;
+      status = 0;
+      events.length = 0;
+    }
+
+    const block = this.addBlock([tx.hash!]);
+    const logs = events.map(([event, values], logIndex) => ({
+      ...votingInterface.encodeEventLog(event, values),
+      address: VOTING_ADDRESS,
+      blockHash: block.hash,
+      blockNumber: toQuantity(this.blocks.length - 1),
+      transactionHash: tx.hash,
+      transactionIndex: '0x0',
+      logIndex: toQuantity(logIndex),
+      removed: false
+    }));
+    this.logs.push(...logs);
+    this.receipts.set(tx.hash!, {
+      transactionHash: tx.hash,
+      blockHash: block.hash,
+      blockNumber: toQuantity(this.blocks.length - 1),
+      transactionIndex: '0x0',
+      from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: toQuantity(GAS),
+      gasUsed: toQuantity(GAS),
+      effectiveGasPrice: toQuantity(GAS_PRICE),
+      logs,
+      logsBloom: zeroPadValue('0x', 256),
+      status: toQuantity(status),
+      type: toQuantity(tx.type ?? 0)
+    });
+    return tx.hash!;
+  }
+
+  private callContract(state: ContractState, from: string, to: string, data: string, emit: Emit = () => {}): string {
+    const target = getAddress(to);
+    if (target === MULTICALL3_ADDRESS) {
+      const [calls] = multicallInterface.decodeFunctionData('aggregate3', data);
+      const results = (calls as { target: string; callData: string }[]).map(call => {
+        try {
+          return { success: true, returnData: this.callContract(state, from, call.target, call.callData, emit) };
+        } catch (error) {
+          if (!(error instanceof Revert)) throw error;
+          return { success: false, returnData: error.data };
+        }
+      });
+      return multicallInterface.encodeFunctionResult('aggregate3', [results]);
+    }
+    if (target !== VOTING_ADDRESS) {
+      return '0x';
+    }
+
+    const parsed = votingInterface.parseTransaction({ data });
+    if (!parsed) throw new Revert('Unknown function');
+    const result = this.execute(state, getAddress(from), parsed.name, [...parsed.args], emit);
+    return votingInterface.encodeFunctionResult(parsed.name, result);
+  }
+
+  private execute(state: ContractState, sender: string, name: string, args: unknown[], emit: Emit): unknown[] {
+    const now = this.now();
+    const isAdmin = state.admins.includes(lower(sender)) || sender === state.owner;
+    const onlyOwner = () => check(sender === state.owner, 'Only owner can perform this action');
+    const onlyAdmin = () => check(isAdmin, 'Only admin can perform this action');
+    const exists = (proposalId: unknown) => {
+      const proposal = state.proposals[Number(proposalId)];
+      check(proposal !== undefined, 'Invalid proposal ID');
+      return proposal;
+    };
+    const valid = (proposalId: unknown) => {
+      const proposal = exists(proposalId);
+      check(proposal.active, 'Proposal not active');
+      return proposal;
+    };
+    const votingPeriod = (proposal: StoredProposal) =>
+      check(now >= proposal.startTime && now <= proposal.endTime && !proposal.closedEarly, 'Voting period not active');
+    const beforeEnd = (proposal: StoredProposal) =>
+      check(now <= proposal.endTime && !proposal.closedEarly, 'Voting period not active');
+    const setMembers = (list: 'admins' | 'voters', accounts: string[], member: boolean) => {
+      const changed = new Set(accounts.map(lower));
+      state[list] = [...state[list].filter(account => !changed.has(account)), ...(member ? changed : [])];
+    };
+
+    switch (name) {
+      case 'proposalCount':
+        return [state.proposals.length];
+      case 'owner':
+        return [state.owner];
+      case 'pendingOwner':
+        return [state.pendingOwner];
+      case 'isAuthorizedVoter':
+        return [state.voters.includes(lower(args[0] as string))];
+      case 'isAdmin':
+        return [state.admins.includes(lower(args[0] as string))];
+      case 'hasVoted':
+        return [exists(args[0]).ballots[lower(args[1] as string)] !== undefined];
+      case 'getBallot':
+        return [exists(args[0]).ballots[lower(args[1] as string)] ?? []];
+      case 'getProposal':
+        return [this.info(exists(args[0]))];
+      case 'getActiveProposals':
+        return [state.proposals.filter(proposal => proposal.active).map(proposal => this.info(proposal))];
+
+      case 'addAdmin':
+        onlyOwner();
+        setMembers('admins', [args[0] as string], true);
+        return [];
+      case 'removeAdmin':
+        onlyOwner();
+        check(getAddress(args[0] as string) !== state.owner, 'Owner is always admin');
+        setMembers('admins', [args[0] as string], false);
+        return [];
+      case 'transferOwnership':
+        onlyOwner();
+        state.pendingOwner = getAddress(args[0] as string);
+        return [];
+      case 'acceptOwnership':
+        check(sender === state.pendingOwner, 'Only the pending owner can accept');
+        state.owner = sender;
+        state.pendingOwner = ZeroAddress;
+        setMembers('admins', [sender], true);
+        return [];
+      case 'authorizeVoter':
+      case 'authorizeVoters':
+      case 'deauthorizeVoter':
+      case 'deauthorizeVoters': {
+        onlyAdmin();
+        const accounts = Array.isArray(args[0]) ? [...args[0]] as string[] : [args[0] as string];
+        setMembers('voters', accounts, name.startsWith('authorize'));
+        return [];
+      }
+
+      case 'createProposal': {
+        onlyAdmin();
+        const [title, description, options, duration] = args as [string, string, string[], bigint];
+        check(options.length >= 2, 'At least 2 options required');
+        check(options.length <= 10, 'Maximum 10 options allowed');
+        check(duration > 0n, 'Voting duration must be positive');
+        const proposalId = this.addProposal(state, title, description, [...options], now, Number(duration), sender);
+        emit('ProposalCreated', proposalId, title, sender, now, now + Number(duration));
+        return [proposalId];
+      }
+      case 'castVote': {
+        check(state.voters.includes(lower(sender)), 'Not authorized to vote');
+        const proposal = valid(args[0]);
+        votingPeriod(proposal);
+        const handles = [...args[1] as string[]];
+        check(proposal.ballots[lower(sender)] === undefined, 'Already voted');
+        check(handles.length === proposal.options.length, 'Ballot length mismatch');
+
+        // Like the devnet coprocessor: inputs not bound to this contract and voter count as zero
+        const input = { handles: handles.map(handle => getBytes(handle)), inputProof: getBytes(args[2] as string) };
+        const bound = this.encryption.verifyInput(input, VOTING_ADDRESS, sender);
+        const values = input.handles.map(handle => (bound ? this.encryption.decrypt32(handle) : 0));
+        const oneHot = values.every(value => value <= 1) && values.reduce((sum, value) => sum + value, 0) === 1;
+        proposal.tallies = proposal.tallies.map((count, i) => count + (oneHot ? values[i] : 0));
+        proposal.ballots[lower(sender)] = handles;
+        proposal.totalVotes++;
+        emit('VoteCast', proposal.id, sender, proposal.totalVotes);
+        return [];
+      }
+      case 'requestDecryption': {
+        onlyAdmin();
+        const proposal = valid(args[0]);
+        check(now > proposal.endTime || proposal.closedEarly, 'Voting still active');
+        check(!proposal.resultsRevealed, 'Results already revealed');
+        check(!proposal.decryptionPending, 'Decryption already requested');
+        // The oracle answers in the same block
+        proposal.revealedResults = [...proposal.tallies];
+        proposal.resultsRevealed = true;
+        emit('DecryptionRequested', proposal.id, proposal.id);
+        emit('ResultsRevealed', proposal.id, proposal.revealedResults);
+        return [proposal.id];
+      }
+      case 'deactivateProposal':
+        onlyAdmin();
+        valid(args[0]).active = false;
+        return [];
+      case 'cancelProposal': {
+        onlyAdmin();
+        const proposal = valid(args[0]);
+        beforeEnd(proposal);
+        check(proposal.totalVotes === 0, 'Proposal already has votes');
+        proposal.active = false;
+        proposal.cancelled = true;
+        emit('ProposalCancelled', proposal.id, sender, args[1]);
+        return [];
+      }
+      case 'closeProposalEarly': {
+        onlyAdmin();
+        const proposal = valid(args[0]);
+        votingPeriod(proposal);
+        proposal.endTime = now;
+        proposal.closedEarly = true;
+        emit('ProposalClosedEarly', proposal.id, sender, args[1], now);
+        return [];
+      }
+      case 'extendDeadline': {
+        onlyAdmin();
+        const proposal = valid(args[0]);
+        beforeEnd(proposal);
+        check((args[1] as bigint) > 0n, 'Extension must be positive');
+        const previousEndTime = proposal.endTime;
+        proposal.endTime += Number(args[1]);
+        proposal.extended = true;
+        emit('ProposalExtended', proposal.id, sender, args[2], previousEndTime, proposal.endTime);
+        return [];
+      }
+      default:
+        throw new Error(`MockVotingChain does not implement ${name}`);
+    }
+  }
+
+  private addProposal(
+    state: ContractState,
+    title: string,
+    description: string,
+    options: string[],
+    now: number,
+    duration: number,
+    creator: string
+  ): number {
+    const proposalId = state.proposals.length;
+    state.proposals.push({
+      id: proposalId,
+      title,
+      description,
+      options,
+      startTime: now,
+      endTime: now + duration,
+      totalVotes: 0,
+      creator: getAddress(creator),
+      active: true,
+      resultsRevealed: false,
+      revealedResults: [],
+      decryptionPending: false,
+      cancelled: false,
+      closedEarly: false,
+      extended: false,
+      tallies: options.map(() => 0),
+      ballots: {}
+    });
+    return proposalId;
+  }
+
+  // The contract's ProposalInfo
+  private info({ tallies: _tallies, ballots: _ballots, ...proposal }: StoredProposal) {
+    return proposal;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  private addBlock(transactions: string[]) {
+    const block = { hash: id(`block-${this.blocks.length}`), timestamp: this.now(), transactions };
+    this.blocks.push(block);
+    return block;
+  }
+
+  private blockNumberOf(tag: string): number {
+    return tag === 'latest' || tag === 'pending' ? this.blocks.length - 1 : Number(tag);
+  }
+
+  private formatBlock(tag: string) {
+    const number = this.blockNumberOf(tag);
+    const block = this.blocks[number];
+    if (!block) return null;
+    return {
+      number: toQuantity(number),
+      hash: block.hash,
+      parentHash: number > 0 ? this.blocks[number - 1].hash : zeroPadValue('0x', 32),
+      timestamp: toQuantity(block.timestamp),
+      nonce: zeroPadValue('0x', 8),
+      difficulty: '0x0',
+      gasLimit: toQuantity(30000000),
+      gasUsed: toQuantity(GAS * block.transactions.length),
+      miner: ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: toQuantity(GAS_PRICE),
+      transactions: block.transactions
+    };
+  }
+}
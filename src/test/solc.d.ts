@@ -0,0 +1,12 @@
+// solc-js ships without types; only its standard JSON entry point is used
+declare module 'solc' {
+  interface ImportResult {
+    contents?: string;
+    error?: string;
+  }
+
+  const solc: {
+    compile(input: string, callbacks?: { import(path: string): ImportResult }): string;
+  };
+  export default solc;
+}
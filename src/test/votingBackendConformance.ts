@@ -0,0 +1,227 @@
+import { Wallet } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ContractErrorReason } from '@/lib/errors';
+import type { VotingBackend } from '@/lib/backend';
+import type { Proposal, RevealStatus } from '@/types/voting';
+import { testAccount } from './mockVotingChain';
+
+export interface BackendHarness {
+  // A fresh deployment owned by `owner`
+  setup(owner: Wallet): Promise<void>;
+  // The backend as `account` sees it; null is a visitor without a wallet
+  connect(account: Wallet | null): VotingBackend;
+  teardown?(): void;
+}
+
+// Run a call to completion, moving fake timers along when a backend waits on them
+export const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  if (vi.isFakeTimers()) {
+    let done = false;
+    promise.then(() => (done = true), () => (done = true));
+    while (!done) await vi.advanceTimersByTimeAsync(1000);
+  }
+  return promise;
+};
+
+const expectRevert = async (promise: Promise<unknown>, reason: ContractErrorReason) => {
+  const error = await settle(promise).then(() => null, (error: unknown) => error);
+  expect(error).toMatchObject({ name: 'ContractError', reason });
+};
+
+/**
+ * What every VotingBackend must do the same way, whatever holds the
+ * proposals. Run it once per implementation with a harness that can deploy
+ * a fresh contract and connect accounts to it.
+ */
+export const describeVotingBackend = (name: string, harness: BackendHarness) => {
+  describe(`${name} backend`, () => {
+    const owner = testAccount('owner');
+    const voter = testAccount('voter');
+    const outsider = testAccount('outsider');
+    let asOwner: VotingBackend;
+    let asVoter: VotingBackend;
+    let asOutsider: VotingBackend;
+    let visitor: VotingBackend;
+
+    beforeEach(async () => {
+      await harness.setup(owner);
+      asOwner = harness.connect(owner);
+      asVoter = harness.connect(voter);
+      asOutsider = harness.connect(outsider);
+      visitor = harness.connect(null);
+    });
+
+    afterEach(() => harness.teardown?.());
+
+    // Open for an hour; returns the new proposal's id
+    const propose = async (options: string[] = ['Yes', 'No', 'Abstain']): Promise<number> => {
+      const proposalId = await asOwner.getProposalCount();
+      expect(await settle(asOwner.createProposal('Budget', 'Next quarter budget', options, 3600))).toBe(true);
+      return proposalId;
+    };
+
+    const getProposal = async (backend: VotingBackend, proposalId: number): Promise<Proposal> => {
+      const [proposal] = (await backend.getProposalPage(proposalId, 1)).proposals;
+      expect(proposal.id).toBe(proposalId);
+      return proposal;
+    };
+
+    it('gives the deployer every role', async () => {
+      expect(await asOwner.getUserProfile()).toMatchObject({
+        address: owner.address,
+        isOwner: true,
+        isAdmin: true,
+        isAuthorized: true,
+        isPendingOwner: false
+      });
+      expect(await asOutsider.getUserProfile()).toMatchObject({ isOwner: false, isAdmin: false, isAuthorized: false });
+      expect(await visitor.getUserProfile()).toBeNull();
+    });
+
+    it('lists a new proposal as active and newest first', async () => {
+      const proposalId = await propose();
+
+      expect(await asOwner.getProposalCount()).toBe(proposalId + 1);
+      const active = (await asOwner.getActiveProposals()).find(proposal => proposal.id === proposalId);
+      expect(active).toMatchObject({
+        title: 'Budget',
+        options: ['Yes', 'No', 'Abstain'],
+        creator: owner.address,
+        active: true,
+        totalVotes: 0,
+        hasVoted: false
+      });
+      expect(active!.endTime - active!.startTime).toBe(3600 * 1000);
+      expect((await asOwner.getProposalPage(null, 1)).proposals[0].id).toBe(proposalId);
+    });
+
+    it('refuses proposals from non-admins and with too few options', async () => {
+      await expectRevert(asOutsider.createProposal('Budget', 'Next quarter budget', ['Yes', 'No'], 3600), 'NOT_AUTHORIZED');
+      await expectRevert(asOwner.createProposal('Budget', 'Next quarter budget', ['Yes'], 3600), 'INVALID_ARGUMENTS');
+    });
+
+    it('records one vote per authorized voter', async () => {
+      const proposalId = await propose();
+      await expectRevert(asVoter.castVote(proposalId, 1), 'NOT_AUTHORIZED');
+
+      await settle(asOwner.authorizeVoter(voter.address));
+      expect(await settle(asVoter.castVote(proposalId, 1))).toBe(true);
+
+      expect(await getProposal(asVoter, proposalId)).toMatchObject({ totalVotes: 1, hasVoted: true });
+      expect(await getProposal(asOwner, proposalId)).toMatchObject({ totalVotes: 1, hasVoted: false });
+      expect((await asVoter.getUserProfile())!.votedProposals).toContain(proposalId);
+      await expectRevert(asVoter.castVote(proposalId, 0), 'ALREADY_VOTED');
+    });
+
+    it('lets a voter decrypt their own ballot', async () => {
+      const proposalId = await propose();
+      await settle(asOwner.castVote(proposalId, 2));
+
+      expect(await asOwner.verifyMyVote(proposalId)).toBe(2);
+      await expect(asOutsider.verifyMyVote(proposalId)).rejects.toThrow('No ballot found');
+    });
+
+    it('reveals the tallies of the ballots cast once voting is closed', async () => {
+      const proposalId = await propose();
+      await settle(asOwner.authorizeVoters([voter.address, outsider.address]));
+      await settle(asOwner.castVote(proposalId, 0));
+      await settle(asVoter.castVote(proposalId, 2));
+      await settle(asOutsider.castVote(proposalId, 2));
+
+      await expectRevert(asOwner.revealResults(proposalId), 'VOTING_STILL_OPEN');
+      await settle(asOwner.closeProposalEarly(proposalId, 'decided'));
+
+      const statuses: RevealStatus[] = [];
+      expect(await settle(asOwner.revealResults(proposalId, status => statuses.push(status)))).toEqual([1, 0, 2]);
+      expect(statuses.at(-1)).toBe('revealed');
+      expect(await getProposal(asOwner, proposalId)).toMatchObject({
+        closedEarly: true,
+        resultsRevealed: true,
+        revealedResults: [1, 0, 2]
+      });
+      // The voting period is checked before the ballot, as on-chain
+      await expectRevert(asOwner.castVote(proposalId, 1), 'VOTING_CLOSED');
+    });
+
+    it('joins a reveal that is already waiting for the oracle instead of reverting', async () => {
+      const proposalId = await propose();
+      await settle(asOwner.castVote(proposalId, 1));
+      await settle(asOwner.closeProposalEarly(proposalId, 'decided'));
+
+      let requested!: () => void;
+      const isRequested = new Promise<void>(resolve => (requested = resolve));
+      const first = asOwner.revealResults(proposalId, status => status === 'requested' && requested());
+      await settle(isRequested);
+
+      const statuses: RevealStatus[] = [];
+      const second = asOwner.revealResults(proposalId, status => statuses.push(status));
+      expect(await settle(Promise.all([first, second]))).toEqual([[0, 1, 0], [0, 1, 0]]);
+      expect(statuses).toEqual(['requested', 'revealed']);
+    });
+
+    it('cancels only proposals nobody has voted on', async () => {
+      const untouched = await propose();
+      expect(await settle(asOwner.cancelProposal(untouched, 'duplicate'))).toBe(true);
+      expect(await getProposal(asOwner, untouched)).toMatchObject({ active: false, cancelled: true });
+      expect((await asOwner.getActiveProposals()).map(proposal => proposal.id)).not.toContain(untouched);
+
+      const voted = await propose();
+      await settle(asOwner.castVote(voted, 0));
+      await expectRevert(asOwner.cancelProposal(voted, 'other'), 'PROPOSAL_HAS_VOTES');
+    });
+
+    it('extends the deadline only while voting is open', async () => {
+      const proposalId = await propose();
+      const { endTime } = await getProposal(asOwner, proposalId);
+
+      expect(await settle(asOwner.extendDeadline(proposalId, 600, 'low-turnout'))).toBe(true);
+      expect(await getProposal(asOwner, proposalId)).toMatchObject({ endTime: endTime + 600 * 1000, extended: true });
+
+      await settle(asOwner.closeProposalEarly(proposalId, 'emergency'));
+      await expectRevert(asOwner.extendDeadline(proposalId, 600, 'other'), 'VOTING_CLOSED');
+    });
+
+    it('manages admins and revokes voters', async () => {
+      expect(await settle(asOwner.addAdmin(voter.address))).toBe(true);
+      const [voterRoles, outsiderRoles] = await asOwner.getRoles([voter.address, outsider.address]);
+      expect(voterRoles).toMatchObject({ address: voter.address, isAdmin: true, isOwner: false });
+      expect(outsiderRoles).toMatchObject({ isAdmin: false, isAuthorized: false });
+
+      expect(await settle(asVoter.createProposal('Admin proposal', 'By a new admin', ['A', 'B'], 60))).toBe(true);
+      await expectRevert(asVoter.addAdmin(outsider.address), 'NOT_AUTHORIZED');
+      await expectRevert(asOwner.removeAdmin(owner.address), 'INVALID_ARGUMENTS');
+
+      const proposalId = await propose();
+      await settle(asOwner.authorizeVoters([outsider.address]));
+      await settle(asOwner.deauthorizeVoter(outsider.address));
+      await expectRevert(asOutsider.castVote(proposalId, 0), 'NOT_AUTHORIZED');
+
+      await settle(asOwner.removeAdmin(voter.address));
+      expect((await asVoter.getUserProfile())!.isAdmin).toBe(false);
+    });
+
+    it('hands over ownership in two steps', async () => {
+      await settle(asOwner.transferOwnership(voter.address));
+      expect(await asOwner.getOwnership()).toEqual({ owner: owner.address, pendingOwner: voter.address });
+      expect((await asVoter.getUserProfile())!.isPendingOwner).toBe(true);
+
+      await expectRevert(asOutsider.acceptOwnership(), 'NOT_AUTHORIZED');
+      expect(await settle(asVoter.acceptOwnership())).toBe(true);
+
+      expect(await asOwner.getOwnership()).toEqual({ owner: voter.address, pendingOwner: null });
+      expect(await asVoter.getUserProfile()).toMatchObject({ isOwner: true, isAdmin: true, isPendingOwner: false });
+      await expectRevert(asOwner.addAdmin(outsider.address), 'NOT_AUTHORIZED');
+    });
+
+    it('reads without a wallet but refuses every write', async () => {
+      const proposalId = await propose();
+
+      expect(await visitor.getProposalCount()).toBe(proposalId + 1);
+      expect((await visitor.getActiveProposals()).find(proposal => proposal.id === proposalId)).toMatchObject({ hasVoted: false });
+      expect((await visitor.getRoles([owner.address]))[0]).toMatchObject({ isOwner: true });
+      await expect(visitor.castVote(proposalId, 0)).rejects.toThrow('Wallet not connected');
+      await expect(visitor.createProposal('Budget', 'Next quarter budget', ['Yes', 'No'], 3600)).rejects.toThrow('Wallet not connected');
+      await expect(visitor.authorizeVoter(voter.address)).rejects.toThrow('Wallet not connected');
+    });
+  });
+};
@@ -10,26 +10,84 @@ export interface Proposal {
   active: boolean;
   resultsRevealed: boolean;
   revealedResults: number[];
+  decryptionPending: boolean; // tallies sent to the decryption oracle, results not back yet
+  cancelled: boolean; // withdrawn by an admin before anyone voted; also inactive
+  closedEarly: boolean; // endTime moved to when an admin closed it
+  extended: boolean; // endTime pushed back by an admin at least once
   hasVoted?: boolean;
 }
 
+// Why an admin changed a proposal, in the order of the contract's enums
+export type CancelReason = 'created-in-error' | 'duplicate' | 'superseded' | 'other';
+export type CloseReason = 'decided' | 'emergency' | 'compromised' | 'other';
+export type ExtendReason = 'low-turnout' | 'community-request' | 'technical-issue' | 'other';
+
+// Steps of casting a vote, in order; the first three come from the encryption worker
+export type VoteStage = 'loading-keys' | 'encrypting' | 'generating-proof' | 'submitting' | 'confirming';
+
+export interface CastVoteOptions {
+  // Cancels the vote while it is still being encrypted; ignored once submitted
+  signal?: AbortSignal;
+  onProgress?: (stage: VoteStage) => void;
+}
+
+export type RevealStatus = 'requesting' | 'requested' | 'revealed' | 'failed';
+
+// A change to one proposal, pushed from contract events
+export type ProposalUpdate =
+  | { type: 'created'; proposal: Proposal }
+  | { type: 'voted'; proposalId: number; totalVotes: number; voter: string }
+  | { type: 'decryption-requested'; proposalId: number }
+  | { type: 'revealed'; proposalId: number; results: number[] }
+  | { type: 'cancelled'; proposalId: number; reason: CancelReason }
+  | { type: 'closed'; proposalId: number; endTime: number; reason: CloseReason }
+  | { type: 'extended'; proposalId: number; endTime: number; reason: ExtendReason };
+
+// live: pushed by the provider; polling: fetched on an interval; offline: no updates (simulation)
+export type LiveStatus = 'connecting' | 'live' | 'polling' | 'offline';
+
 export interface VoteData {
   proposalId: number;
-  optionIndex: number;
-  encryptedVote: string;
+  encryptedBallot: string[]; // one encrypted 0/1 handle per option
+  inputProof: string;
 }
 
 export interface UserProfile {
   address: string;
   isAuthorized: boolean;
   isAdmin: boolean;
+  isOwner: boolean;
+  isPendingOwner: boolean; // offered ownership and can accept it
   votedProposals: number[];
 }
 
+// Null pendingOwner: no transfer in progress; null owner only before the simulation's first account
+export interface Ownership {
+  owner: string | null;
+  pendingOwner: string | null;
+}
+
+// What an address may do right now, shown before changing its roles
+export interface AccountRoles {
+  address: string;
+  isAuthorized: boolean;
+  isAdmin: boolean;
+  isOwner: boolean;
+  isPendingOwner: boolean;
+}
+
 export interface ContractState {
   connected: boolean;
+  // Browsing through the chain's RPC without a wallet; connected stays false
+  readOnly: boolean;
   loading: boolean;
   userProfile: UserProfile | null;
   proposals: Proposal[];
   error: string | null;
-}
\ No newline at end of file
+}
+// A change made in the wallet after connecting
+export type WalletChange =
+  | { type: 'account'; address: string }
+  | { type: 'chain'; chainId: number; name: string }
+  | { type: 'unsupported-chain'; chainId: number }
+  | { type: 'disconnected' };
@@ -13,6 +13,10 @@ export default defineConfig({
   define: {
     global: 'globalThis',
   },
+  // The encryption worker loads fhevmjs with a dynamic import, which needs ES module output
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     include: ['ethers', 'fhevmjs']
   },